@@ -3,18 +3,70 @@ import React, { useState, useEffect, useRef, useMemo } from 'react';
 import Sidebar from './components/Sidebar';
 import AnalysisPanel from './components/AnalysisPanel';
 import AgentPanel from './components/AgentPanel';
-import { EditorMode, JournalStyle, AnalysisResult, AnalysisIssue, ChatMessage, PaperSection, RelatedPaper } from './types';
+import SettingsModal from './components/SettingsModal';
+import ProjectsModal from './components/ProjectsModal';
+import HistoryPanel from './components/HistoryPanel';
+import UndoControls from './components/UndoControls';
+import BibliographyPanel from './components/BibliographyPanel';
+import ExportModal from './components/ExportModal';
+import SuggestionsPanel from './components/SuggestionsPanel';
+import SectionDashboard from './components/SectionDashboard';
+import BulkFixModal from './components/BulkFixModal';
+import JournalProfilesModal from './components/JournalProfilesModal';
+import UsageModal from './components/UsageModal';
+import { EditorMode, JournalProfile, AnalysisResult, AnalysisIssue, AgentAction, ChunkProgress, AgentThread, ChatMessage, PaperSection, PaperStats, RelatedPaper, ReorganizationStep, LLMSettings, Manuscript, Snapshot, EditSource, UndoState, BibEntry, DocumentState, ExportOptions, Suggestion, SuggestionView } from './types';
 import { 
   analyzeDeAI, 
   performJournalReview, 
-  checkFormatting, 
   reorganizePaper, 
   microEdit, 
   suggestCitations,
   findCitationPlacements,
-  agentChat 
+  agentChat,
+  summarizeConversation
 } from './services/geminiService';
-import { Eraser, Wand2, Quote, Menu, X, Sparkles, MessageSquare, Download, Layers, FileText, Loader2, Upload, FileUp, ListRestart, BookOpen, ChevronRight } from 'lucide-react';
+import { newThread, threadsFromManuscript, titleFromMessage, summaryCutoff, DEFAULT_THREAD_TITLE } from './services/agentThreadService';
+import { applyAction, describeAction, previewAction, runReads, MAX_READ_ROUNDS } from './services/agentToolService';
+import { getLLMSettings, saveLLMSettings } from './services/settingsService';
+import { PROVIDER_LABELS } from './services/llmProvider';
+import { setUsageManuscript, subscribeBudget } from './services/usageService';
+import {
+  listManuscripts,
+  getManuscript,
+  saveManuscript,
+  deleteManuscript,
+  duplicateManuscript,
+  newManuscript,
+  getActiveManuscriptId,
+  setActiveManuscriptId,
+  listSnapshots,
+  saveSnapshot,
+  deleteSnapshot,
+  createId
+} from './services/storageService';
+import { EMPTY_UNDO, recordChange, undo, redo } from './services/undoService';
+import {
+  createEntry,
+  parseReference,
+  fromRelatedPaper,
+  mergeIntoBibliography,
+  mergeEntries,
+  extractBibliography
+} from './services/bibliographyService';
+import { syncReferencesSection, applyCitationStyle, replaceBibliography, formatInTextCitation } from './services/citationStyleService';
+import { checkCitations } from './services/citationCheckService';
+import { checkFormat } from './services/formatCheckService';
+import { analyzeStylometry, mergeStylometry } from './services/stylometryService';
+import { describeFailures } from './services/chunkService';
+import { importDocx } from './services/docxService';
+import { importLatex, exportLatexZip } from './services/latexService';
+import { renderDocx, renderHtml } from './services/exportService';
+import { findSuggestions, findSuggestionsInText, flattenSections, markSuggestion, resolveSuggestions } from './services/suggestionService';
+import { reanchorIssue, reanchorIssues, planFixes, applyFixes } from './services/anchorService';
+import { previewPlan, runPlan } from './services/reorganizationService';
+import { addSection, deleteSection, headingMark, MAX_LEVEL, mergeWithNext, moveBlock, shiftLevel, splitSectionAt } from './services/outlineService';
+import { DEFAULT_PROFILE, exportProfile, resolveProfile } from './services/journalProfileService';
+import { Eraser, Wand2, Quote, Menu, X, Sparkles, MessageSquare, Download, Layers, FileText, Loader2, Upload, FileUp, ListRestart, BookOpen, ChevronRight, Cpu, FolderOpen, Cloud, CloudOff, History, Library, FileDiff, BarChart3, Gauge } from 'lucide-react';
 
 const INITIAL_SECTIONS: PaperSection[] = [
   { id: 'abstract', title: 'Abstract', content: 'Artificial Intelligence (AI) has rapidly evolved, becoming a tapestry of innovation in various fields. It is paramount to underscore the significance of Large Language Models (LLMs) in this landscape.' },
@@ -23,26 +75,46 @@ const INITIAL_SECTIONS: PaperSection[] = [
   { id: 'refs', title: 'References', content: '' }
 ];
 
+const BLANK_SECTIONS: PaperSection[] = [
+  { id: 'abstract', title: 'Abstract', content: '' },
+  { id: 'intro', title: 'Introduction', content: '' },
+  { id: 'refs', title: 'References', content: '' }
+];
+
+const AUTOSAVE_DELAY_MS = 800;
+
+// Attribution recorded on suggestions that come from the analysis panel.
+const ANALYSIS_SOURCES: Partial<Record<EditorMode, string>> = {
+  [EditorMode.DE_AI]: 'De-AI',
+  [EditorMode.REVIEW]: 'Peer review',
+  [EditorMode.FORMAT]: 'Format check',
+  [EditorMode.CITATIONS]: 'Citation check'
+};
+
 const modularizeText = (text: string): PaperSection[] => {
   const sections: PaperSection[] = [];
   const lines = text.split(/\r?\n/);
   let currentHeader = '';
+  let currentLevel = 1;
   let currentContent: string[] = [];
   let sectionCount = 0;
+  // "## Title" is a subsection; deeper Markdown headings are kept at the deepest level the outline has.
+  const push = () => sections.push({ id: `sec-${sectionCount++}-${Date.now()}`, title: currentHeader || 'Front Matter', content: currentContent.join('\n').trim(), level: currentLevel > 1 ? currentLevel : undefined });
   lines.forEach((line) => {
-    const headerMatch = line.match(/^\s*(#+)\s*(.+?)\s*$/) || line.match(/^\s*([A-Z\s]{4,})\s*$/);
+    const markdown = line.match(/^\s*(#+)\s*(.+?)\s*$/);
+    const headerMatch = markdown || line.match(/^\s*([A-Z\s]{4,})\s*$/);
     if (headerMatch) {
-      if (currentContent.length > 0 || currentHeader) {
-        sections.push({ id: `sec-${sectionCount++}-${Date.now()}`, title: currentHeader || 'Front Matter', content: currentContent.join('\n').trim() });
-      }
+      if (currentContent.length > 0 || currentHeader) push();
       currentHeader = headerMatch[2] || headerMatch[1];
+      currentLevel = markdown ? Math.min(markdown[1].length, MAX_LEVEL) : 1;
       currentContent = [];
     } else {
       currentContent.push(line);
     }
   });
   if (currentContent.length > 0 || currentHeader) {
-    sections.push({ id: `sec-${sectionCount++}-${Date.now()}`, title: currentHeader || 'Introduction', content: currentContent.join('\n').trim() });
+    if (!currentHeader) currentHeader = 'Introduction';
+    push();
   }
   return sections.length === 0 ? INITIAL_SECTIONS : sections;
 };
@@ -53,24 +125,338 @@ function App() {
   const [sections, setSections] = useState<PaperSection[]>(INITIAL_SECTIONS);
   const [activeSectionId, setActiveSectionId] = useState<string>('abstract');
   const [isFullDocMode, setIsFullDocMode] = useState(false);
-  const [journal, setJournal] = useState<JournalStyle>(JournalStyle.GENERAL);
+  const [journal, setJournal] = useState<JournalProfile>(DEFAULT_PROFILE);
   const [agentVisible, setAgentVisible] = useState(false);
   const [agentMinimized, setAgentMinimized] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [previewingIssue, setPreviewingIssue] = useState<AnalysisIssue | null>(null);
-  const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  const [threads, setThreads] = useState<AgentThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState('');
   const [agentLoading, setAgentLoading] = useState(false);
+  // The reply streaming into a thread, which may not be the one on screen.
+  const [agentDraft, setAgentDraft] = useState<{ threadId: string, text: string } | null>(null);
+  // The last question the agent failed to answer, kept so it can be asked again.
+  const [agentError, setAgentError] = useState<{ threadId: string, message: string, question: string } | null>(null);
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [importText, setImportText] = useState("");
+  const [importLoading, setImportLoading] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isProfilesOpen, setIsProfilesOpen] = useState(false);
+  const [trackChanges, setTrackChanges] = useState(false);
+  const [isSuggestionsOpen, setIsSuggestionsOpen] = useState(false);
+  const [isDashboardOpen, setIsDashboardOpen] = useState(false);
+  const [bulkFixIssues, setBulkFixIssues] = useState<AnalysisIssue[] | null>(null);
   const [selection, setSelection] = useState<{ text: string, start: number, end: number, sectionId?: string } | null>(null);
   const [showMicroEditTooltip, setShowMicroEditTooltip] = useState(false);
   const [microEditLoading, setMicroEditLoading] = useState(false);
+  const [llmSettings, setLlmSettings] = useState<LLMSettings>(getLLMSettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  // The budget limit already reached, if any.
+  const [budgetAlert, setBudgetAlert] = useState<string | null>(null);
+  const [manuscriptMeta, setManuscriptMeta] = useState<Pick<Manuscript, 'id' | 'title' | 'createdAt'> | null>(null);
+  const [saveStatus, setSaveStatus] = useState<'saved' | 'pending' | 'error'>('saved');
+  const [isProjectsOpen, setIsProjectsOpen] = useState(false);
+  const [manuscriptList, setManuscriptList] = useState<Manuscript[]>([]);
+  const hydratingRef = useRef(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [undoState, setUndoState] = useState<UndoState>(EMPTY_UNDO);
+  const [bibliography, setBibliography] = useState<BibEntry[]>([]);
+  const [isBibliographyOpen, setIsBibliographyOpen] = useState(false);
+  const documentRef = useRef<DocumentState>({ sections, bibliography, journal });
+  documentRef.current = { sections, bibliography, journal };
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const backdropRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // The in-flight streaming requests. Stop buttons abort them and keep what arrived; switching mode or manuscript
+  // also clears the ref, so a late chunk from the old request cannot land in the new view.
+  const analysisStreamRef = useRef<AbortController | null>(null);
+  const agentStreamRef = useRef<AbortController | null>(null);
+  const supersedeStream = (ref: React.MutableRefObject<AbortController | null>) => {
+    ref.current?.abort();
+    ref.current = null;
+  };
 
   const activeSection = useMemo(() => sections.find(s => s.id === activeSectionId) || sections[0], [sections, activeSectionId]);
-  const fullText = useMemo(() => sections.map(s => `# ${s.title}\n\n${s.content}`).join('\n\n'), [sections]);
+  const fullText = useMemo(() => sections.map(s => `${headingMark(s)} ${s.title}\n\n${s.content}`).join('\n\n'), [sections]);
+  const suggestions = useMemo(() => findSuggestions(sections), [sections]);
+
+  // Single entry point for document mutations so every change lands in the undo stack.
+  // The ref keeps back-to-back commits in one tick (e.g. several references) from clobbering each other.
+  const commitDocument = (
+    label: string,
+    next: (prev: DocumentState) => DocumentState,
+    source: EditSource = 'ai',
+    sectionId?: string
+  ) => {
+    const before = documentRef.current;
+    const changed = next(before);
+    if (changed === before) return;
+    // The References section always mirrors the bibliography store.
+    const after = { ...changed, sections: syncReferencesSection(changed.sections, changed.bibliography, changed.journal) };
+    documentRef.current = after;
+    setSections(after.sections);
+    setBibliography(after.bibliography);
+    setJournal(after.journal);
+    setUndoState(u => recordChange(u, { id: createId('edit'), label, source, sectionId, before, after, timestamp: Date.now() }));
+  };
+
+  const commitSections = (
+    label: string,
+    next: PaperSection[] | ((prev: PaperSection[]) => PaperSection[]),
+    source: EditSource = 'ai',
+    sectionId?: string
+  ) => commitDocument(label, prev => {
+    const sections = typeof next === 'function' ? next(prev.sections) : next;
+    return sections === prev.sections ? prev : { ...prev, sections };
+  }, source, sectionId);
+
+  const commitBibliography = (label: string, next: (prev: BibEntry[]) => BibEntry[]) =>
+    commitDocument(label, prev => {
+      const bibliography = next(prev.bibliography);
+      return bibliography === prev.bibliography ? prev : { ...prev, bibliography };
+    }, 'structure');
+
+  const addBibEntry = (entry: BibEntry, label: string) => commitBibliography(label, prev => mergeIntoBibliography(entry, prev).bibliography);
+
+  // Switching profiles, or editing the active one, restyles the citations to its reference style.
+  const handleJournalChange = (target: JournalProfile) => {
+    if (JSON.stringify(target) === JSON.stringify(journal)) return;
+    const label = target.id === journal.id ? `Edited journal profile ${target.name}` : `Switched journal to ${target.name}`;
+    commitDocument(label, prev => applyCitationStyle(prev, target), 'structure');
+  };
+
+  const stepHistory = (direction: 'undo' | 'redo', steps: number) => {
+    let state = undoState;
+    let target: DocumentState | null = null;
+    let sectionId: string | undefined;
+    for (let i = 0; i < steps; i++) {
+      const result = direction === 'undo' ? undo(state) : redo(state);
+      if (!result) break;
+      state = result.state;
+      target = direction === 'undo' ? result.entry.before : result.entry.after;
+      sectionId = result.entry.sectionId;
+    }
+    if (!target) return;
+    documentRef.current = target;
+    setSections(target.sections);
+    setBibliography(target.bibliography);
+    setJournal(target.journal);
+    setUndoState(state);
+    setPreviewingIssue(null);
+    if (sectionId && target.sections.some(s => s.id === sectionId)) setActiveSectionId(sectionId);
+    else if (!target.sections.some(s => s.id === activeSectionId)) setActiveSectionId(target.sections[0]?.id || '');
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      // Other inputs (titles, chat box) keep their native undo; the manuscript editors use ours.
+      const target = e.target as HTMLElement;
+      const isField = target.tagName === 'INPUT' || (target.tagName === 'TEXTAREA' && !target.dataset.manuscriptEditor);
+      if (isField) return;
+      e.preventDefault();
+      stepHistory(key === 'y' || e.shiftKey ? 'redo' : 'undo', 1);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const buildManuscript = (): Manuscript | null => manuscriptMeta && {
+    ...manuscriptMeta,
+    sections,
+    journal,
+    bibliography,
+    agentThreads: threads,
+    activeThreadId,
+    analysisResult,
+    updatedAt: Date.now()
+  };
+
+  const loadManuscript = (m: Manuscript) => {
+    hydratingRef.current = true;
+    // Manuscripts saved before the bibliography store keep their references as plain text.
+    const bib = m.bibliography ?? extractBibliography(m.sections);
+    // Manuscripts saved before journal profiles store a built-in profile's id.
+    const profile = resolveProfile(m.journal);
+    const loadedSections = m.bibliography ? m.sections : syncReferencesSection(m.sections, bib, profile);
+    setManuscriptMeta({ id: m.id, title: m.title, createdAt: m.createdAt });
+    setSections(loadedSections);
+    setBibliography(bib);
+    setUndoState(EMPTY_UNDO);
+    setActiveSectionId(loadedSections[0]?.id || '');
+    setJournal(profile);
+    supersedeStream(analysisStreamRef);
+    supersedeStream(agentStreamRef);
+    const loaded = threadsFromManuscript(m);
+    setThreads(loaded.threads);
+    setActiveThreadId(loaded.activeId);
+    setAnalysisResult(m.analysisResult);
+    setPreviewingIssue(null);
+    setSelection(null);
+    setSaveStatus('saved');
+    setActiveManuscriptId(m.id);
+  };
+
+  const flushSave = async () => {
+    const current = buildManuscript();
+    if (!current || saveStatus !== 'pending') return;
+    await saveManuscript(current);
+    setSaveStatus('saved');
+  };
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const activeId = getActiveManuscriptId();
+        const existing = (activeId && await getManuscript(activeId)) || (await listManuscripts())[0];
+        if (existing) { loadManuscript(existing); return; }
+        const starter = newManuscript({ title: 'Untitled Manuscript', sections: INITIAL_SECTIONS, journal: DEFAULT_PROFILE });
+        await saveManuscript(starter);
+        loadManuscript(starter);
+      } catch (e) {
+        console.error("Failed to open workspace", e);
+        setSaveStatus('error');
+      }
+    })();
+  }, []);
+
+  useEffect(() => subscribeBudget(setBudgetAlert), []);
+
+  useEffect(() => setUsageManuscript(manuscriptMeta?.id), [manuscriptMeta?.id]);
+
+  useEffect(() => {
+    if (!manuscriptMeta) return;
+    if (hydratingRef.current) { hydratingRef.current = false; return; }
+    setSaveStatus('pending');
+    const timer = setTimeout(() => {
+      const current = buildManuscript();
+      if (!current) return;
+      saveManuscript(current).then(() => setSaveStatus('saved')).catch((e) => { console.error("Autosave failed", e); setSaveStatus('error'); });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [sections, journal, bibliography, threads, activeThreadId, analysisResult, manuscriptMeta]);
+
+  useEffect(() => {
+    if (saveStatus === 'saved') return;
+    const warn = (e: BeforeUnloadEvent) => { e.preventDefault(); e.returnValue = ''; };
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [saveStatus]);
+
+  const refreshManuscriptList = async () => setManuscriptList(await listManuscripts());
+
+  const openProjects = async () => {
+    await flushSave();
+    await refreshManuscriptList();
+    setIsProjectsOpen(true);
+  };
+
+  const handleOpenManuscript = async (id: string) => {
+    await flushSave();
+    const m = await getManuscript(id);
+    if (m) loadManuscript(m);
+    setIsProjectsOpen(false);
+  };
+
+  const handleCreateManuscript = async () => {
+    await flushSave();
+    const m = newManuscript({ title: 'Untitled Manuscript', sections: BLANK_SECTIONS, journal });
+    await saveManuscript(m);
+    loadManuscript(m);
+    setIsProjectsOpen(false);
+  };
+
+  const handleDuplicateManuscript = async (id: string) => {
+    await flushSave();
+    await duplicateManuscript(id);
+    await refreshManuscriptList();
+  };
+
+  const handleDeleteManuscript = async (id: string) => {
+    await deleteManuscript(id);
+    const remaining = await listManuscripts();
+    setManuscriptList(remaining);
+    if (id !== manuscriptMeta?.id) return;
+    if (remaining[0]) { loadManuscript(remaining[0]); return; }
+    const m = newManuscript({ title: 'Untitled Manuscript', sections: BLANK_SECTIONS, journal });
+    await saveManuscript(m);
+    loadManuscript(m);
+  };
+
+  const takeSnapshot = async (label: string, kind: Snapshot['kind'] = 'auto') => {
+    if (!manuscriptMeta) return;
+    try {
+      await saveSnapshot({ manuscriptId: manuscriptMeta.id, label, kind, sections, bibliography, journal });
+      if (isHistoryOpen) setSnapshots(await listSnapshots(manuscriptMeta.id));
+    } catch (e) { console.error("Failed to save snapshot", e); }
+  };
+
+  const openHistory = async () => {
+    if (!manuscriptMeta) return;
+    setSnapshots(await listSnapshots(manuscriptMeta.id));
+    setIsHistoryOpen(true);
+  };
+
+  const handleRestoreSnapshot = async (snapshot: Snapshot) => {
+    await takeSnapshot(`Before restoring "${snapshot.label}"`);
+    commitDocument(`Restored "${snapshot.label}"`, prev => ({
+      sections: snapshot.sections,
+      bibliography: snapshot.bibliography ?? prev.bibliography,
+      // Markers in the snapshot are written in the style it was taken under.
+      journal: snapshot.journal ? resolveProfile(snapshot.journal) : prev.journal
+    }), 'structure');
+    if (!snapshot.sections.some(s => s.id === activeSectionId)) setActiveSectionId(snapshot.sections[0]?.id || '');
+    setPreviewingIssue(null);
+    setIsHistoryOpen(false);
+  };
+
+  const handleRestoreSnapshotSection = async (snapshot: Snapshot, sectionId: string) => {
+    const restored = snapshot.sections.find(s => s.id === sectionId);
+    if (!restored) return;
+    await takeSnapshot(`Before restoring "${restored.title}" from "${snapshot.label}"`);
+    if (restored.generated === 'references') {
+      // Generated text cannot be restored on its own; bring back the entries it was rendered from.
+      if (snapshot.bibliography) commitBibliography(`Restored bibliography from "${snapshot.label}"`, () => snapshot.bibliography!);
+      setSnapshots(await listSnapshots(snapshot.manuscriptId));
+      return;
+    }
+    commitSections(`Restored section "${restored.title}"`, prev => {
+      if (prev.some(s => s.id === sectionId)) return prev.map(s => s.id === sectionId ? restored : s);
+      // The section was deleted since: put it back after its predecessor in the snapshot.
+      const snapIdx = snapshot.sections.findIndex(s => s.id === sectionId);
+      const anchorId = snapshot.sections.slice(0, snapIdx).reverse().find(s => prev.some(p => p.id === s.id))?.id;
+      const insertAt = anchorId ? prev.findIndex(p => p.id === anchorId) + 1 : 0;
+      return [...prev.slice(0, insertAt), restored, ...prev.slice(insertAt)];
+    }, 'structure', sectionId);
+    setSnapshots(await listSnapshots(snapshot.manuscriptId));
+  };
+
+  const handleDeleteSnapshot = async (id: string) => {
+    await deleteSnapshot(id);
+    if (manuscriptMeta) setSnapshots(await listSnapshots(manuscriptMeta.id));
+  };
+
+  const handleModeChange = (m: EditorMode) => {
+    supersedeStream(analysisStreamRef);
+    setMode(m);
+    setAnalysisResult(null);
+    setPreviewingIssue(null);
+    if (m === EditorMode.AGENT) setAgentVisible(true);
+  };
+
+  const hasContent = () => sections.some(s => s.content.trim().length > 0);
+
+  const handleClearDocument = () => {
+    if (hasContent() && !confirm("Clear every section of this manuscript? A snapshot is kept in Version History.")) return;
+    takeSnapshot("Before clearing manuscript");
+    commitDocument("Cleared manuscript", prev => ({ ...prev, sections: BLANK_SECTIONS, bibliography: [] }), 'structure');
+    setActiveSectionId(BLANK_SECTIONS[0].id);
+    setAnalysisResult(null);
+  };
 
   const handleScroll = () => { if (textareaRef.current && backdropRef.current) backdropRef.current.scrollTop = textareaRef.current.scrollTop; };
 
@@ -93,38 +479,51 @@ function App() {
     setMicroEditLoading(true);
     try {
       const newText = await microEdit(selection.text, instruction);
-      updateDocumentAtSelection(newText);
+      takeSnapshot(`Before micro-edit: ${instruction}`);
+      if (trackChanges) updateDocumentAtSelection(markSuggestion(selection.text, newText, `Micro-edit: ${instruction}`), `Suggested micro-edit: ${instruction}`);
+      else updateDocumentAtSelection(newText, `Micro-edit: ${instruction}`);
+    } catch (err) {
+      console.error(err);
+      alert(`The edit could not be made. ${(err as Error).message}`);
     } finally { setMicroEditLoading(false); }
   };
 
-  const handleAddReference = (fullRef: string) => {
-    setSections(prev => {
-      const newState = [...prev];
-      let refsIdx = newState.findIndex(s => s.title.toLowerCase().includes('reference'));
-      if (refsIdx === -1) {
-         newState.push({ id: 'refs-auto', title: 'References', content: '' });
-         refsIdx = newState.length - 1;
-      }
-      const s = newState[refsIdx];
-      const separator = s.content.trim() ? '\n' : '';
-      newState[refsIdx] = { ...s, content: s.content.trim() + separator + fullRef };
-      return newState;
-    });
+  const handleImportPaper = (paper: RelatedPaper) => {
+    addBibEntry(fromRelatedPaper(paper), `Added reference: ${paper.title.substring(0, 40)}${paper.title.length > 40 ? '...' : ''}`);
   };
 
-  const handleCiteAtSelection = (marker: string) => {
+  // Adds the works to the bibliography and cites them after the selection in one undoable step.
+  // The marker comes from the citation engine, so it always matches the target journal's style.
+  const citeAtSelection = (works: BibEntry[], label: string) => {
+    if (!selection) return;
+    const targetId = isFullDocMode && !selection.sectionId ? undefined : selection.sectionId || activeSectionId;
+    commitDocument(label, prev => {
+      let bibliography = prev.bibliography;
+      const cited = works.map(work => {
+        const result = mergeIntoBibliography(work, bibliography);
+        bibliography = result.bibliography;
+        return result.entry;
+      });
+      const marker = formatInTextCitation(cited, bibliography, prev.journal);
+      const sections = spliceAtSelection(prev.sections, `${selection.text} ${marker}`);
+      // Numbered styles renumber once the new marker's position in the text is known.
+      return applyCitationStyle({ ...prev, sections, bibliography }, prev.journal);
+    }, 'ai', targetId);
+  };
+
+  const handleCiteAtSelection = (paper: RelatedPaper) => {
     if (!selection) {
       alert("Please select a sentence in the editor first.");
       return;
     }
-    const updatedSegment = selection.text + " " + marker;
-    updateDocumentAtSelection(updatedSegment, true);
+    takeSnapshot(`Before citing ${paper.title}`);
+    citeAtSelection([fromRelatedPaper(paper)], `Cited ${paper.title.substring(0, 40)}${paper.title.length > 40 ? '...' : ''}`);
   };
 
   const handleSuggestPlacements = async (paper: RelatedPaper) => {
     if (!analysisResult?.discovery) return;
     try {
-      const placements = await findCitationPlacements(paper, fullText);
+      const placements = await findCitationPlacements(paper, sections);
       setAnalysisResult(prev => {
         if (!prev || !prev.discovery) return prev;
         return {
@@ -132,17 +531,23 @@ function App() {
           discovery: prev.discovery.map(p => p.id === paper.id ? { ...p, suggestedPlacements: placements } : p)
         };
       });
-    } catch (e) { console.error(e); }
+    } catch (e) {
+      console.error(e);
+      alert(`Placements could not be suggested. ${(e as Error).message}`);
+      // An empty list stops the panel waiting; expanding the paper again asks once more.
+      setAnalysisResult(prev => prev?.discovery ? { ...prev, discovery: prev.discovery.map(p => p.id === paper.id ? { ...p, suggestedPlacements: [] } : p) } : prev);
+    }
   };
 
   const handleSuggestCitations = async () => {
     if (!selection) return;
     setMicroEditLoading(true);
     try {
-        const { citationMarker, references, relatedPapers } = await suggestCitations(selection.text);
-        const updatedSegment = selection.text + " " + (citationMarker || "");
-        updateDocumentAtSelection(updatedSegment, true);
-        references.forEach(ref => handleAddReference(ref));
+        const { references, relatedPapers } = await suggestCitations(selection.text);
+        if (references.length > 0) {
+          takeSnapshot("Before AI citation");
+          citeAtSelection(references.map(ref => createEntry(parseReference(ref))), `Inserted AI citation (${references.length} ${references.length === 1 ? 'work' : 'works'})`);
+        }
         setAnalysisResult({
           stats: { wordCount: 0, aiProbabilityScore: 0, readabilityScore: 0 },
           issues: [],
@@ -153,84 +558,444 @@ function App() {
         setMode(EditorMode.DISCOVERY);
         setSelection(null);
         setShowMicroEditTooltip(false);
-    } catch (err) { console.error(err); } finally { setMicroEditLoading(false); }
+    } catch (err) {
+      console.error(err);
+      alert(`Sources could not be found. ${(err as Error).message}`);
+    } finally { setMicroEditLoading(false); }
   };
 
-  const updateDocumentAtSelection = (newSegment: string, skipSelectionReset = false) => {
-    if (!selection) return;
+  const spliceAtSelection = (prev: PaperSection[], newSegment: string): PaperSection[] => {
+    if (!selection) return prev;
     if (isFullDocMode && !selection.sectionId) {
       const before = fullText.substring(0, selection.start);
       const after = fullText.substring(selection.end);
-      setSections(modularizeText(before + newSegment + after));
-    } else {
-      const targetId = selection.sectionId || activeSectionId;
-      setSections(prev => prev.map(s => s.id === targetId ? { ...s, content: s.content.substring(0, selection.start) + newSegment + s.content.substring(selection.end) } : s));
+      return modularizeText(before + newSegment + after);
     }
+    const targetId = selection.sectionId || activeSectionId;
+    return prev.map(s => s.id === targetId ? { ...s, content: s.content.substring(0, selection.start) + newSegment + s.content.substring(selection.end) } : s);
+  };
+
+  const updateDocumentAtSelection = (newSegment: string, label: string, skipSelectionReset = false) => {
+    if (!selection) return;
+    const targetId = isFullDocMode && !selection.sectionId ? undefined : selection.sectionId || activeSectionId;
+    commitSections(label, prev => spliceAtSelection(prev, newSegment), 'ai', targetId);
     if (!skipSelectionReset) { setSelection(null); setShowMicroEditTooltip(false); }
   };
 
-  const handleImport = () => {
-    if (!importText.trim()) return;
-    const newSections = modularizeText(importText);
-    setSections(newSections);
+  const confirmReplace = () => !hasContent() || confirm("Importing replaces the sections of the current manuscript. A snapshot is kept in Version History. Continue?");
+
+  // Sources that link citations to entries (LaTeX keys) bring their own bibliography; others are parsed from the text.
+  const replaceSections = (newSections: PaperSection[], label: string, bibliography?: BibEntry[]) => {
+    takeSnapshot("Before import");
+    commitDocument(label, prev => bibliography
+      ? applyCitationStyle({ ...prev, sections: newSections, bibliography }, prev.journal)
+      : { ...prev, sections: newSections, bibliography: extractBibliography(newSections) }, 'structure');
     setActiveSectionId(newSections[0].id);
     setIsImportModalOpen(false);
+  };
+
+  const handleImport = () => {
+    if (!importText.trim() || !confirmReplace()) return;
+    replaceSections(modularizeText(importText), "Imported manuscript");
     setImportText("");
   };
 
-  const handlePreviewFix = (issue: AnalysisIssue) => {
-    if (!issue.snippet || fullText.indexOf(issue.snippet) === -1) return;
+  const handleFileImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires onChange.
+    e.target.value = '';
+    if (!file || !confirmReplace()) return;
+    setImportLoading(true);
+    try {
+      const data = await file.arrayBuffer();
+      const imported = /\.docx$/i.test(file.name) ? await importDocx(data) : await importLatex(data, file.name, journal);
+      replaceSections(imported.sections, `Imported ${file.name}`, imported.bibliography);
+      if (imported.title && manuscriptMeta) setManuscriptMeta({ ...manuscriptMeta, title: imported.title });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Could not read this file.");
+    } finally { setImportLoading(false); }
+  };
+
+  // Issues keep the position they were raised at; these views follow the text through later edits.
+  const liveAnalysis = useMemo(() => analysisResult && { ...analysisResult, issues: reanchorIssues(analysisResult.issues, sections) }, [analysisResult, sections]);
+  const activeThread = threads.find(t => t.id === activeThreadId) || threads[0];
+  const liveChat = useMemo(() => (activeThread?.messages || []).map(m => m.proposals ? { ...m, proposals: reanchorIssues(m.proposals, sections) } : m), [activeThread, sections]);
+  const livePreview = useMemo(() => previewingIssue && reanchorIssue(previewingIssue, sections), [previewingIssue, sections]);
+
+  const handleLocateIssue = (issue: AnalysisIssue) => {
+    const anchor = reanchorIssue(issue, sections).anchor;
+    if (!anchor) return;
+    setIsFullDocMode(false);
+    setActiveSectionId(anchor.sectionId);
     setPreviewingIssue(issue);
+    // The section's text mounts on the next frame; a collapsed caret scrolls it into view without opening the micro-edit bar.
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(anchor.start, anchor.start);
+    });
   };
 
-  const handleConfirmFix = (issue: AnalysisIssue) => {
-    if (!issue.snippet || !issue.replacement) return;
-    setSections(prev => prev.map(s => s.content.includes(issue.snippet!) ? { ...s, content: s.content.replace(issue.snippet!, issue.replacement!) } : s));
+  const handlePreviewFix = (issue: AnalysisIssue) => {
+    if (reanchorIssue(issue, sections).anchor) handleLocateIssue(issue);
+  };
+
+  // With track changes on, the fix goes in as a suggestion attributed to the tool that proposed it.
+  const handleConfirmFix = (issue: AnalysisIssue, origin: string) => {
+    // A stale issue's text is gone; applying it anywhere else would rewrite the wrong passage.
+    const live = reanchorIssue(issue, documentRef.current.sections);
+    if (!live.anchor || !live.snippet || issue.replacement === undefined) return;
+    const { sectionId, start, end } = live.anchor;
+    const replacement = trackChanges ? markSuggestion(live.snippet, issue.replacement, `${origin}: ${issue.title}`) : issue.replacement;
+    takeSnapshot(`Before fix: ${issue.title}`);
+    commitSections(`${trackChanges ? 'Suggested' : 'Applied'} fix: ${issue.title}`, prev =>
+      prev.map(s => s.id === sectionId ? { ...s, content: s.content.substring(0, start) + replacement + s.content.substring(end) } : s)
+    , 'ai', sectionId);
     setPreviewingIssue(null);
     if (analysisResult) setAnalysisResult({ ...analysisResult, issues: analysisResult.issues.filter(i => i.id !== issue.id) });
   };
 
-  const handleAgentMessage = async (msgContent: string) => {
-    setChatHistory(prev => [...prev, { role: 'user', content: msgContent, timestamp: Date.now() }]);
+  // Structural findings carry an editor operation rather than replacement text.
+  const handleApplyIssueFix = (issue: AnalysisIssue) => {
+    if (!issue.fix) return;
+    let next: DocumentState;
+    try {
+      next = applyAction(issue.fix, documentRef.current);
+    } catch (e) {
+      alert(`The fix no longer fits the manuscript: ${(e as Error).message}`);
+      return;
+    }
+    takeSnapshot(`Before fix: ${issue.title}`);
+    commitDocument(`Applied fix: ${issue.title}`, () => next, 'structure');
+    setAnalysisResult(prev => prev && { ...prev, issues: prev.issues.filter(i => i.id !== issue.id) });
+  };
+
+  // All selected fixes land in one commit, so a single undo reverts the whole batch.
+  const handleApplyFixes = (issues: AnalysisIssue[], origin: string) => {
+    const { fixes } = planFixes(issues, documentRef.current.sections);
+    setBulkFixIssues(null);
+    if (fixes.length === 0) return;
+    const label = `${trackChanges ? 'Suggested' : 'Applied'} ${fixes.length} fix${fixes.length === 1 ? '' : 'es'}`;
+    takeSnapshot(`Before ${label.toLowerCase()}`);
+    commitSections(label, prev => applyFixes(prev, fixes, ({ issue }) =>
+      trackChanges ? markSuggestion(issue.snippet!, issue.replacement!, `${origin}: ${issue.title}`) : issue.replacement!
+    ), 'ai', fixes.every(f => f.anchor.sectionId === fixes[0].anchor.sectionId) ? fixes[0].anchor.sectionId : undefined);
+    setPreviewingIssue(null);
+    const applied = new Set(fixes.map(f => f.issue.id));
+    if (analysisResult) setAnalysisResult({ ...analysisResult, issues: analysisResult.issues.filter(i => !applied.has(i.id)) });
+  };
+
+  const handleUpdatePlan = (steps: ReorganizationStep[]) => setAnalysisResult(prev => prev && { ...prev, reorganization: steps });
+
+  // The included steps land as one undoable edit; steps that no longer fit are marked failed and left out.
+  const handleApplyPlan = () => {
+    const steps = analysisResult?.reorganization || [];
+    const included = steps.filter(s => !s.excluded && s.status === 'pending');
+    if (included.length === 0) return;
+    const { doc, errors } = runPlan(steps, documentRef.current);
+    const applied = included.filter(s => !errors[s.id]).length;
+    if (applied > 0) {
+      takeSnapshot('Before reorganization');
+      commitDocument(`Reorganized: ${applied} step${applied === 1 ? '' : 's'}`, () => doc, 'ai');
+    }
+    handleUpdatePlan(steps.map(s => s.excluded || s.status !== 'pending' ? s : errors[s.id] ? { ...s, status: 'failed', result: errors[s.id] } : { ...s, status: 'applied' }));
+  };
+
+  // Outline edits from the Sidebar. Each is one step in the edit history, like any other change.
+  const sectionTitle = (id: string) => documentRef.current.sections.find(s => s.id === id)?.title || '';
+
+  const handleAddSection = (afterId?: string) => {
+    const { sections: next, id } = addSection(documentRef.current.sections, afterId, 'New Section');
+    commitSections('Added section', next, 'structure', id);
+    setActiveSectionId(id);
+    return id;
+  };
+
+  const handleRenameSection = (id: string, title: string) =>
+    commitSections(`Renamed "${sectionTitle(id)}" to "${title}"`, prev => prev.map(s => s.id === id ? { ...s, title } : s), 'structure', id);
+
+  const handleDeleteSection = (id: string) => {
+    const section = documentRef.current.sections.find(s => s.id === id);
+    if (!section) return;
+    if (documentRef.current.sections.filter(s => !s.generated).length <= 1) { alert('A manuscript needs at least one section.'); return; }
+    if (section.content.trim() && !confirm(`Delete "${section.title}" and its text? You can undo this.`)) return;
+    const index = documentRef.current.sections.indexOf(section);
+    commitSections(`Deleted section: ${section.title}`, prev => deleteSection(prev, id), 'structure');
+    if (activeSectionId === id) setActiveSectionId(documentRef.current.sections[Math.max(0, index - 1)]?.id || '');
+  };
+
+  const handleMoveSection = (id: string, targetId: string, place: 'before' | 'after') =>
+    commitSections(`Moved section: ${sectionTitle(id)}`, prev => moveBlock(prev, id, targetId, place), 'structure', id);
+
+  const handleShiftSection = (id: string, delta: 1 | -1) =>
+    commitSections(`${delta > 0 ? 'Indented' : 'Outdented'} section: ${sectionTitle(id)}`, prev => shiftLevel(prev, id, delta), 'structure', id);
+
+  // Splits the section being edited at the cursor, never inside a tracked suggestion's markup.
+  const handleSplitSection = (id: string) => {
+    const section = documentRef.current.sections.find(s => s.id === id);
+    const offset = !isFullDocMode && id === activeSectionId ? textareaRef.current?.selectionStart : undefined;
+    if (!section || offset === undefined || offset <= 0 || offset >= section.content.length) {
+      alert('Place the cursor in the text where the new section should start, then split.');
+      return undefined;
+    }
+    if (findSuggestionsInText(section.content).some(m => offset > m.start && offset < m.end)) {
+      alert('The cursor is inside a tracked change. Accept or reject it first, or move the cursor.');
+      return undefined;
+    }
+    const result = splitSectionAt(documentRef.current.sections, id, offset, 'New Section');
+    if (!result) return undefined;
+    commitSections(`Split section: ${section.title}`, result.sections, 'structure', id);
+    setActiveSectionId(result.id);
+    return result.id;
+  };
+
+  const handleMergeWithNext = (id: string) => {
+    const sections = documentRef.current.sections;
+    const next = sections[sections.findIndex(s => s.id === id) + 1];
+    if (next) commitSections(`Merged "${next.title}" into "${sectionTitle(id)}"`, prev => mergeWithNext(prev, id), 'structure', id);
+  };
+
+  const handleResolveSuggestions = (action: 'accept' | 'reject', ids?: string[]) => {
+    const count = ids ? ids.length : suggestions.length;
+    const only = count === 1 ? suggestions.find(s => !ids || s.id === ids[0]) : undefined;
+    const label = only ? `${action === 'accept' ? 'Accepted' : 'Rejected'} suggestion: ${only.source}` : `${action === 'accept' ? 'Accepted' : 'Rejected'} ${count} suggestions`;
+    commitSections(label, prev => resolveSuggestions(prev, action, ids), 'structure', only?.sectionId);
+  };
+
+  const handleLocateSuggestion = (suggestion: Suggestion) => {
+    setIsSuggestionsOpen(false);
+    setIsFullDocMode(false);
+    setActiveSectionId(suggestion.sectionId);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(suggestion.start, suggestion.start);
+    });
+  };
+
+  const updateThread = (id: string, update: (thread: AgentThread) => AgentThread) =>
+    setThreads(prev => prev.map(t => t.id === id ? { ...update(t), updatedAt: Date.now() } : t));
+
+  const appendToThread = (id: string, message: ChatMessage) => updateThread(id, t => ({ ...t, messages: [...t.messages, message] }));
+
+  const handleNewThread = () => {
+    const thread = newThread();
+    setThreads(prev => [...prev, thread]);
+    setActiveThreadId(thread.id);
+  };
+
+  // A manuscript always keeps at least one thread to type into.
+  const handleDeleteThread = (id: string) => {
+    const remaining = threads.filter(t => t.id !== id);
+    const next = remaining.length ? remaining : [newThread()];
+    setThreads(next);
+    if (id === activeThreadId) setActiveThreadId(next[next.length - 1].id);
+  };
+
+  // A retry asks the question again without adding it to the thread a second time.
+  const handleAgentMessage = async (msgContent: string, retry = false) => {
+    if (!activeThread) return;
+    // On a retry the question is already in the thread, possibly followed by replies from read rounds;
+    // agentChat adds the question itself, so the history stops just before it.
+    const asked = retry ? activeThread.messages.findLastIndex(m => m.role === 'user' && m.content === msgContent) : -1;
+    let thread = asked >= 0 ? { ...activeThread, messages: activeThread.messages.slice(0, asked) } : activeThread;
+    const threadId = thread.id;
+    setAgentError(null);
+    if (!retry) updateThread(threadId, t => ({
+      ...t,
+      title: t.messages.length === 0 && t.title === DEFAULT_THREAD_TITLE ? titleFromMessage(msgContent) : t.title,
+      messages: [...t.messages, { role: 'user', content: msgContent, timestamp: Date.now() }]
+    }));
     setAgentLoading(true);
+    const controller = new AbortController();
+    agentStreamRef.current = controller;
+    let draft = '';
     try {
-      const response = await agentChat(msgContent, chatHistory, fullText, journal);
-      setChatHistory(prev => [...prev, { role: 'assistant', content: response.content, proposals: response.proposals, timestamp: Date.now() }]);
-    } finally { setAgentLoading(false); }
+      // Long threads are condensed first, so the model gets a summary plus the latest turns verbatim.
+      const cutoff = summaryCutoff(thread);
+      if (cutoff > 0) {
+        const summary = await summarizeConversation(thread.summary, thread.messages.slice(thread.summarizedCount || 0, cutoff)).catch(() => null);
+        if (summary) {
+          thread = { ...thread, summary, summarizedCount: cutoff };
+          updateThread(threadId, t => ({ ...t, summary, summarizedCount: cutoff }));
+        }
+      }
+      // Reads run at once and go back to the agent, which then answers with what it read.
+      let toolResults: string | undefined;
+      for (let round = 1; ; round++) {
+        draft = '';
+        const response = await agentChat(msgContent, thread, documentRef.current.sections, journal, {
+          signal: controller.signal,
+          bibliography,
+          toolResults,
+          onPartial: (partial) => { draft = partial.content; if (agentStreamRef.current === controller) setAgentDraft({ threadId, text: draft }); }
+        });
+        if (agentStreamRef.current !== controller) return;
+        const reads = runReads(response.actions, documentRef.current.sections);
+        appendToThread(threadId, { role: 'assistant', content: response.content, proposals: response.proposals, actions: reads.actions, timestamp: Date.now() });
+        if (!reads.results || round >= MAX_READ_ROUNDS) break;
+        toolResults = reads.results;
+        setAgentDraft(null);
+      }
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        if (agentStreamRef.current === controller) setAgentError({ threadId, message: (e as Error).message, question: msgContent });
+        return;
+      }
+      // A stopped reply keeps the text that had arrived; its proposals are dropped because they may be cut short.
+      if (agentStreamRef.current === controller && draft) appendToThread(threadId, { role: 'assistant', content: `${draft} …(stopped)`, timestamp: Date.now() });
+    } finally {
+      if (agentStreamRef.current === controller) agentStreamRef.current = null;
+      setAgentLoading(false);
+      setAgentDraft(null);
+    }
   };
 
-  const runAnalysis = async () => {
-    setAnalysisResult({ stats: { wordCount: 0, aiProbabilityScore: 0, readabilityScore: 0 }, issues: [], generalFeedback: '', loading: true });
+  const updateAction = (id: string, patch: Partial<AgentAction>) => setThreads(prev => prev.map(t => ({
+    ...t,
+    messages: t.messages.map(m => m.actions?.some(a => a.id === id) ? { ...m, actions: m.actions.map(a => a.id === id ? { ...a, ...patch } : a) } : m)
+  })));
+
+  // Each confirmed step is its own undoable edit. Returns false when the step no longer fits the document.
+  const handleAgentAction = (action: AgentAction, decision: 'apply' | 'skip') => {
+    if (decision === 'skip') { updateAction(action.id, { status: 'skipped' }); return true; }
+    try {
+      const next = applyAction(action, documentRef.current);
+      if (action.tool === 'runAnalysis') {
+        handleModeChange(action.mode as EditorMode);
+        runAnalysis(action.mode as EditorMode);
+      } else {
+        takeSnapshot(`Before agent step: ${describeAction(action)}`);
+        commitDocument(`Agent: ${describeAction(action)}`, () => next, 'ai');
+      }
+      updateAction(action.id, { status: 'applied', result: undefined });
+      return true;
+    } catch (e) {
+      updateAction(action.id, { status: 'failed', result: (e as Error).message });
+      return false;
+    }
+  };
+
+  // Steps run in order and stop at the first one that fails, since later steps usually depend on it.
+  const handleApplyAllActions = (actions: AgentAction[]) => {
+    for (const action of actions.filter(a => a.status === 'pending')) {
+      if (!handleAgentAction(action, 'apply')) break;
+    }
+  };
+
+  const runAnalysis = async (target: EditorMode = mode) => {
+    const emptyStats = { wordCount: 0, aiProbabilityScore: 0, readabilityScore: 0 };
+    setAnalysisResult({ stats: emptyStats, issues: [], generalFeedback: '', loading: true });
+    const controller = new AbortController();
+    analysisStreamRef.current = controller;
+    const { signal } = controller;
+    // Streamed and section-by-section modes show findings as they arrive; stopping keeps them as the result.
+    let partial: { stats?: PaperStats, issues: AnalysisIssue[], generalFeedback: string, reorganization?: ReorganizationStep[], progress?: ChunkProgress[] } = { issues: [], generalFeedback: '' };
+    const showPartial = (next: typeof partial) => {
+      partial = next;
+      if (analysisStreamRef.current === controller) setAnalysisResult({ stats: emptyStats, ...next, loading: true });
+    };
     try {
       let result;
-      if (mode === EditorMode.DE_AI) result = await analyzeDeAI(fullText);
-      else if (mode === EditorMode.REVIEW) result = await performJournalReview(fullText, journal);
-      else if (mode === EditorMode.FORMAT) result = await checkFormatting(fullText, journal);
-      else if (mode === EditorMode.REORGANIZE) result = { generalFeedback: await reorganizePaper(fullText, journal), issues: [] };
+      if (target === EditorMode.DE_AI) {
+        // Statistics are local and deterministic; the LLM only adds judgement-based issues when it is reachable.
+        const local = analyzeStylometry(sections);
+        let llmError: string | undefined;
+        const llm = await analyzeDeAI(sections, journal, { signal, onPartial: (p) => showPartial({ ...mergeStylometry(local, p), progress: p.progress }) })
+          .catch(e => { if (signal.aborted) throw e; llmError = (e as Error).message; return null; });
+        result = { ...mergeStylometry(local, llm), error: llmError || describeFailures(llm?.progress) };
+      }
+      else if (target === EditorMode.REVIEW) {
+        const review = await performJournalReview(sections, journal, { signal, onPartial: showPartial });
+        result = { ...review, error: describeFailures(review.progress) };
+      }
+      else if (target === EditorMode.FORMAT) result = checkFormat(sections, bibliography, journal);
+      else if (target === EditorMode.REORGANIZE) {
+        const plan = await reorganizePaper(sections, journal, { signal, onPartial: (p) => showPartial({ issues: [], generalFeedback: p.summary, reorganization: p.steps }) });
+        result = { generalFeedback: plan.summary, issues: [], reorganization: plan.steps };
+      }
+      else if (target === EditorMode.CITATIONS) result = checkCitations(sections, bibliography, journal);
       
-      setAnalysisResult({ stats: result.stats || { wordCount: 0, aiProbabilityScore: 0, readabilityScore: 0 }, issues: result.issues || [], generalFeedback: result.generalFeedback || result.feedback || "", loading: false });
-    } catch (e) { setAnalysisResult(null); }
+      if (analysisStreamRef.current !== controller) return;
+      setAnalysisResult({ stats: result.stats || emptyStats, issues: result.issues || [], generalFeedback: result.generalFeedback || result.feedback || "", reorganization: result.reorganization, error: result.error, loading: false });
+    } catch (e) {
+      // Whatever arrived before a stop or a failure stays on screen; a failure also says what went wrong.
+      if (analysisStreamRef.current === controller) setAnalysisResult({ stats: emptyStats, ...partial, progress: undefined, error: signal.aborted ? undefined : (e as Error).message, loading: false });
+    } finally {
+      if (analysisStreamRef.current === controller) analysisStreamRef.current = null;
+    }
+  };
+
+  const handleSaveSettings = (settings: LLMSettings) => {
+    saveLLMSettings(settings);
+    setLlmSettings(settings);
+    setIsSettingsOpen(false);
   };
 
-  const exportPaper = (modular: boolean) => {
-    const text = modular ? sections.map(s => `# ${s.title}\n\n${s.content}`).join('\n\n') : fullText;
-    const blob = new Blob([text], { type: 'text/markdown' });
+  const downloadBlob = (blob: Blob, fileName: string) => {
     const a = document.createElement('a');
     a.href = URL.createObjectURL(blob);
-    a.download = 'scholar_paper.md';
+    a.download = fileName;
     a.click();
   };
 
+  // Suggestions kept in Markdown stay as CriticMarkup, which is what the editor stores them as.
+  const exportPaper = (view: SuggestionView) => {
+    const text = flattenSections(sections, view).map(s => `${headingMark(s)} ${s.title}\n\n${s.content}`).join('\n\n');
+    downloadBlob(new Blob([text], { type: 'text/markdown' }), 'scholar_paper.md');
+  };
+
+  const handleExport = async (options: ExportOptions) => {
+    const title = manuscriptMeta?.title || 'Untitled Manuscript';
+    const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'scholar_paper';
+    const doc = documentRef.current;
+    if (options.format === 'markdown') exportPaper(options.suggestions);
+    else if (options.format === 'latex') {
+      const view = options.suggestions === 'include' ? 'accepted' : options.suggestions;
+      downloadBlob(await exportLatexZip({ ...doc, sections: flattenSections(doc.sections, view) }, title), `${slug}_latex.zip`);
+    }
+    else if (options.format === 'docx') downloadBlob(await renderDocx(doc, title, options), `${slug}.docx`);
+    else if (options.format === 'html') downloadBlob(new Blob([renderHtml(doc, title, options)], { type: 'text/html' }), `${slug}.html`);
+    else {
+      // The browser's print dialog produces the PDF; the window must open before any await or it is blocked as a popup.
+      const printWindow = window.open(URL.createObjectURL(new Blob([renderHtml(doc, title, options, true)], { type: 'text/html' })), '_blank');
+      if (!printWindow) throw new Error('Allow pop-ups for this site to print the manuscript to PDF.');
+    }
+  };
+
   const renderHighlights = () => {
     const activeContent = isFullDocMode ? fullText : activeSection.content;
-    const issue = previewingIssue;
-    if (!issue || !issue.snippet || !activeContent.includes(issue.snippet)) return <div className="text-transparent whitespace-pre-wrap font-serif text-lg leading-relaxed px-4 md:px-8 py-8">{activeContent}</div>;
-    const pos = activeContent.indexOf(issue.snippet);
+    const anchor = livePreview?.anchor;
+    if (anchor && !isFullDocMode && anchor.sectionId === activeSectionId) {
+      const { start, end } = anchor;
+      return (
+        <div className="whitespace-pre-wrap font-serif text-lg leading-relaxed px-4 md:px-8 py-8">
+          <span className="text-transparent">{activeContent.substring(0, start)}</span>
+          <mark className="bg-indigo-300 text-transparent rounded-sm">{activeContent.substring(start, end)}</mark>
+          <span className="text-transparent">{activeContent.substring(end)}</span>
+        </div>
+      );
+    }
+    // Tracked suggestions are tinted behind the raw CriticMarkup: red for removed text, green for added.
+    const marks = findSuggestionsInText(activeContent);
+    if (marks.length === 0) return <div className="text-transparent whitespace-pre-wrap font-serif text-lg leading-relaxed px-4 md:px-8 py-8">{activeContent}</div>;
+    let last = 0;
     return (
-      <div className="whitespace-pre-wrap font-serif text-lg leading-relaxed px-4 md:px-8 py-8">
-        <span className="text-transparent">{activeContent.substring(0, pos)}</span>
-        <mark className="bg-indigo-300 text-transparent rounded-sm">{activeContent.substring(pos, pos + issue.snippet.length)}</mark>
-        <span className="text-transparent">{activeContent.substring(pos + issue.snippet.length)}</span>
+      <div className="text-transparent whitespace-pre-wrap font-serif text-lg leading-relaxed px-4 md:px-8 py-8">
+        {marks.map(m => {
+          const before = activeContent.substring(last, m.start);
+          // "{~~" or "{--" plus the removed text, then the added part up to the closing marker.
+          const removedEnd = m.kind === 'insert' ? m.start : m.start + 3 + m.original.length;
+          const markupEnd = m.kind === 'replace' ? removedEnd + 2 + m.replacement.length + 3 : m.kind === 'insert' ? m.start + 6 + m.replacement.length : removedEnd + 3;
+          last = m.end;
+          return (
+            <React.Fragment key={m.start}>
+              {before}
+              <mark className="text-transparent bg-red-200 rounded-sm" title={m.source}>{activeContent.substring(m.start, removedEnd)}</mark>
+              <mark className={`text-transparent rounded-sm ${m.kind === 'delete' ? 'bg-red-200' : 'bg-green-200'}`} title={m.source}>{activeContent.substring(removedEnd, markupEnd)}</mark>
+              <mark className="text-transparent bg-slate-200 rounded-sm" title={m.source}>{activeContent.substring(markupEnd, m.end)}</mark>
+            </React.Fragment>
+          );
+        })}
+        {activeContent.substring(last)}
       </div>
     );
   };
@@ -240,26 +1005,61 @@ function App() {
       {sidebarOpen && <div className="fixed inset-0 bg-black/50 z-40 md:hidden" onClick={() => setSidebarOpen(false)} />}
       <Sidebar 
         currentMode={mode} 
-        setMode={(m) => { setMode(m); setAnalysisResult(null); setPreviewingIssue(null); if (m === EditorMode.AGENT) setAgentVisible(true); }} 
+        setMode={handleModeChange} 
         isOpen={sidebarOpen} 
         setIsOpen={setSidebarOpen}
         sections={sections}
         activeSectionId={activeSectionId}
         setActiveSectionId={setActiveSectionId}
+        onAddSection={handleAddSection}
+        onRenameSection={handleRenameSection}
+        onDeleteSection={handleDeleteSection}
+        onMoveSection={handleMoveSection}
+        onShiftSection={handleShiftSection}
+        onSplitSection={handleSplitSection}
+        onMergeWithNext={handleMergeWithNext}
+        engineLabel={llmSettings.tasks.agent.provider === 'mock' ? PROVIDER_LABELS.mock : `${llmSettings.tasks.agent.model} Active`}
       />
       
       <div className="flex-1 flex flex-col relative min-w-0">
         <div className="h-16 bg-white border-b border-slate-200 flex items-center px-4 md:px-6 justify-between shrink-0 z-20">
-            <div className="flex items-center gap-3">
+            <div className="flex items-center gap-3 min-w-0">
                 <button onClick={() => setSidebarOpen(!sidebarOpen)} className="md:hidden p-2 text-slate-600"><Menu className="w-5 h-5" /></button>
+                <button onClick={openProjects} className="p-2 text-slate-600 hover:text-indigo-600" title="Manuscripts"><FolderOpen className="w-5 h-5" /></button>
+                <input
+                  value={manuscriptMeta?.title || ''}
+                  onChange={(e) => manuscriptMeta && setManuscriptMeta({ ...manuscriptMeta, title: e.target.value })}
+                  placeholder="Untitled Manuscript"
+                  className="hidden md:block text-sm font-bold text-slate-800 bg-transparent outline-none border-b border-transparent focus:border-indigo-300 min-w-0 w-48"
+                />
+                <span className="hidden md:flex items-center gap-1 text-[10px] font-bold uppercase text-slate-400" title={saveStatus === 'error' ? 'Autosave failed' : undefined}>
+                  {saveStatus === 'error' ? <CloudOff className="w-3.5 h-3.5 text-red-500" /> : <Cloud className="w-3.5 h-3.5" />}
+                  {saveStatus === 'saved' ? 'Saved' : saveStatus === 'pending' ? 'Saving...' : 'Not saved'}
+                </span>
                 <button onClick={() => setIsFullDocMode(!isFullDocMode)} className={`p-1.5 rounded-full px-3 border flex items-center gap-2 ${isFullDocMode ? 'bg-indigo-600 text-white' : 'bg-slate-100'}`}>
                     <BookOpen className="w-4 h-4" /><span className="text-[10px] font-bold uppercase">{isFullDocMode ? 'Exit Full View' : 'Full Document'}</span>
                 </button>
+                <button onClick={() => setTrackChanges(!trackChanges)} className={`p-1.5 rounded-full px-3 border flex items-center gap-2 ${trackChanges ? 'bg-emerald-600 text-white' : 'bg-slate-100'}`} title="Insert AI edits as suggestions to accept or reject">
+                    <FileDiff className="w-4 h-4" /><span className="text-[10px] font-bold uppercase">{trackChanges ? 'Tracking Changes' : 'Track Changes'}</span>
+                </button>
             </div>
             <div className="flex gap-2">
+                <button onClick={() => setIsSuggestionsOpen(true)} className="relative p-2 text-slate-600 hover:text-indigo-600" title="Review suggestions">
+                  <FileDiff className="w-5 h-5" />
+                  {suggestions.length > 0 && <span className="absolute top-0.5 right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-indigo-600 text-white text-[9px] font-bold flex items-center justify-center">{suggestions.length}</span>}
+                </button>
+                <UndoControls state={undoState} onUndo={(steps) => stepHistory('undo', steps)} onRedo={(steps) => stepHistory('redo', steps)} />
                 <button onClick={() => setIsImportModalOpen(true)} className="p-2 text-slate-600 hover:text-indigo-600"><Upload className="w-5 h-5" /></button>
-                <button onClick={() => exportPaper(false)} className="p-2 text-slate-600 hover:text-indigo-600"><Download className="w-5 h-5" /></button>
-                <button onClick={() => setSections(INITIAL_SECTIONS)} className="p-2 text-slate-600 hover:text-red-500"><Eraser className="w-5 h-5" /></button>
+                <button onClick={() => setIsExportOpen(true)} className="p-2 text-slate-600 hover:text-indigo-600" title="Export"><Download className="w-5 h-5" /></button>
+                <button onClick={() => setIsDashboardOpen(true)} className="p-2 text-slate-600 hover:text-indigo-600" title="Section analytics"><BarChart3 className="w-5 h-5" /></button>
+                <button onClick={() => setIsBibliographyOpen(true)} className="p-2 text-slate-600 hover:text-indigo-600" title="Bibliography"><Library className="w-5 h-5" /></button>
+                <button onClick={openHistory} className="p-2 text-slate-600 hover:text-indigo-600" title="Version history"><History className="w-5 h-5" /></button>
+                <button onClick={handleClearDocument} className="p-2 text-slate-600 hover:text-red-500" title="Clear manuscript"><Eraser className="w-5 h-5" /></button>
+                <button onClick={() => setIsUsageOpen(true)} className={`relative p-2 hover:text-indigo-600 ${budgetAlert ? 'text-amber-500' : 'text-slate-600'}`} title={budgetAlert || 'AI usage'}>
+                  <Gauge className="w-5 h-5" />
+                  {budgetAlert && <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-amber-500" />}
+                </button>
+                <button onClick={() => setIsSettingsOpen(true)} className="p-2 text-slate-600 hover:text-indigo-600" title="AI Providers"><Cpu className="w-5 h-5" /></button>
             </div>
         </div>
 
@@ -270,16 +1070,24 @@ function App() {
                 ref={textareaRef} 
                 className="absolute inset-0 w-full h-full p-4 md:p-8 outline-none font-serif text-lg leading-relaxed bg-transparent text-slate-800 resize-none z-10 overflow-auto mix-blend-multiply" 
                 value={activeSection.content} 
-                onChange={(e) => setSections(prev => prev.map(s => s.id === activeSectionId ? { ...s, content: e.target.value } : s))} 
+                readOnly={activeSection.generated === 'references'}
+                data-manuscript-editor="true"
+                onChange={(e) => commitSections(`Typing in ${activeSection.title}`, prev => prev.map(s => s.id === activeSectionId ? { ...s, content: e.target.value } : s), 'typing', activeSectionId)} 
                 onScroll={handleScroll} 
                 onSelect={handleSelect}
               />
-            ) : (
+            ) : null}
+            {!isFullDocMode && activeSection.generated === 'references' && (
+              <button onClick={() => setIsBibliographyOpen(true)} className="absolute top-3 right-4 z-20 px-3 py-1.5 bg-indigo-50 border border-indigo-200 text-indigo-700 text-[10px] font-bold rounded-full flex items-center gap-1.5 shadow-sm">
+                <Library className="w-3 h-3" /> Generated from Bibliography · Edit entries
+              </button>
+            )}
+            {isFullDocMode && (
               <div className="absolute inset-0 w-full h-full p-4 md:p-8 outline-none z-10 overflow-auto space-y-12">
                  {sections.map(s => (
                    <div key={s.id}>
                       <div className="flex items-center gap-3 mb-4 opacity-50"><div className="h-px flex-1 bg-slate-200"></div><span className="text-[10px] font-black uppercase tracking-widest">{s.title}</span><div className="h-px flex-1 bg-slate-200"></div></div>
-                      <textarea className="w-full min-h-[100px] outline-none font-serif text-lg bg-transparent resize-none overflow-hidden" value={s.content} rows={s.content.split('\n').length + 1} onSelect={(e) => handleSelect(e, s.id)} onChange={(e) => setSections(prev => prev.map(sec => sec.id === s.id ? { ...sec, content: e.target.value } : sec))} />
+                      <textarea className="w-full min-h-[100px] outline-none font-serif text-lg bg-transparent resize-none overflow-hidden" value={s.content} rows={s.content.split('\n').length + 1} readOnly={s.generated === 'references'} onSelect={(e) => handleSelect(e, s.id)} data-manuscript-editor="true" onChange={(e) => commitSections(`Typing in ${s.title}`, prev => prev.map(sec => sec.id === s.id ? { ...sec, content: e.target.value } : sec), 'typing', s.id)} />
                    </div>
                  ))}
                  <div className="h-32"></div>
@@ -303,16 +1111,97 @@ function App() {
         <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm">
            <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl overflow-hidden flex flex-col">
               <div className="p-6 bg-slate-900 text-white flex justify-between items-center"><h3 className="text-xl font-bold">Import Paper</h3><button onClick={() => setIsImportModalOpen(false)}><X className="w-6 h-6"/></button></div>
-              <div className="p-6"><textarea className="w-full h-80 p-4 bg-slate-50 border-2 border-dashed border-slate-200 rounded-2xl outline-none font-mono text-sm" value={importText} onChange={(e) => setImportText(e.target.value)} placeholder="# Section Title..." /></div>
+              <div className="p-6 space-y-4">
+                <input ref={fileInputRef} type="file" accept=".docx,.tex,.zip" className="hidden" onChange={handleFileImport} />
+                <button onClick={() => fileInputRef.current?.click()} disabled={importLoading} className="w-full py-4 border-2 border-dashed border-indigo-200 bg-indigo-50/50 hover:bg-indigo-50 rounded-2xl text-sm font-bold text-indigo-700 flex items-center justify-center gap-2 disabled:opacity-60">
+                  {importLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileUp className="w-4 h-4" />} {importLoading ? 'Reading document...' : 'Upload Word (.docx) or LaTeX (.tex, .zip with .bib)'}
+                </button>
+                <div className="flex items-center gap-3 text-[10px] font-bold uppercase tracking-widest text-slate-400"><div className="h-px flex-1 bg-slate-200"></div>or paste text<div className="h-px flex-1 bg-slate-200"></div></div>
+                <textarea className="w-full h-64 p-4 bg-slate-50 border-2 border-dashed border-slate-200 rounded-2xl outline-none font-mono text-sm" value={importText} onChange={(e) => setImportText(e.target.value)} placeholder="# Section Title..." />
+              </div>
               <div className="p-6 bg-slate-50 flex gap-3"><button onClick={() => setIsImportModalOpen(false)} className="flex-1 py-3 text-sm font-bold text-slate-500">Cancel</button><button onClick={handleImport} className="flex-[2] py-3 bg-indigo-600 text-white text-sm font-bold rounded-xl shadow-lg">Process & Modularize</button></div>
            </div>
         </div>
       )}
 
+      {isProjectsOpen && (
+        <ProjectsModal
+          manuscripts={manuscriptList}
+          activeId={manuscriptMeta?.id || null}
+          onOpen={handleOpenManuscript}
+          onCreate={handleCreateManuscript}
+          onDuplicate={handleDuplicateManuscript}
+          onDelete={handleDeleteManuscript}
+          onClose={() => setIsProjectsOpen(false)}
+        />
+      )}
+
+      {isBibliographyOpen && (
+        <BibliographyPanel
+          entries={bibliography}
+          journal={journal}
+          onAdd={(fields) => addBibEntry(createEntry(fields), `Added reference: ${fields.title.substring(0, 40)}`)}
+          onUpdate={(entry) => commitBibliography(`Edited reference: ${entry.title.substring(0, 40)}`, prev => prev.map(e => e.id === entry.id ? entry : e))}
+          onDelete={(id) => commitDocument(`Deleted reference: ${bibliography.find(e => e.id === id)?.title.substring(0, 40) || id}`, prev => replaceBibliography(prev, prev.bibliography.filter(e => e.id !== id)), 'structure')}
+          onMerge={(keepId, dropId) => commitDocument("Merged duplicate references", prev => {
+            const keep = prev.bibliography.find(e => e.id === keepId);
+            const drop = prev.bibliography.find(e => e.id === dropId);
+            if (!keep || !drop) return prev;
+            const merged = prev.bibliography.filter(e => e.id !== dropId).map(e => e.id === keepId ? mergeEntries(keep, drop) : e);
+            return replaceBibliography(prev, merged, { [dropId]: keepId });
+          }, 'structure')}
+          onClose={() => setIsBibliographyOpen(false)}
+        />
+      )}
+
+      {isHistoryOpen && (
+        <HistoryPanel
+          snapshots={snapshots}
+          currentSections={sections}
+          onCreateCheckpoint={(label) => takeSnapshot(label, 'manual')}
+          onRestoreAll={handleRestoreSnapshot}
+          onRestoreSection={handleRestoreSnapshotSection}
+          onDelete={handleDeleteSnapshot}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {isDashboardOpen && (
+        <SectionDashboard
+          sections={sections}
+          bibliography={bibliography}
+          journal={journal}
+          onSelectSection={(id) => { setIsFullDocMode(false); setActiveSectionId(id); setIsDashboardOpen(false); }}
+          onClose={() => setIsDashboardOpen(false)}
+        />
+      )}
+      {bulkFixIssues && (
+        <BulkFixModal
+          issues={bulkFixIssues}
+          sections={sections}
+          trackChanges={trackChanges}
+          onApply={(issues) => handleApplyFixes(issues, ANALYSIS_SOURCES[mode] || 'Analysis')}
+          onClose={() => setBulkFixIssues(null)}
+        />
+      )}
+      {isSuggestionsOpen && (
+        <SuggestionsPanel
+          sections={sections}
+          suggestions={suggestions}
+          onResolve={handleResolveSuggestions}
+          onLocate={handleLocateSuggestion}
+          onClose={() => setIsSuggestionsOpen(false)}
+        />
+      )}
+      {isProfilesOpen && <JournalProfilesModal active={journal} onUse={handleJournalChange} onDownload={(profile) => downloadBlob(new Blob([exportProfile(profile)], { type: 'application/json' }), `${profile.name.replace(/[^\w-]+/g, '_')}.json`)} onClose={() => setIsProfilesOpen(false)} />}
+      {isExportOpen && <ExportModal journal={journal} suggestionCount={suggestions.length} onExport={handleExport} onClose={() => setIsExportOpen(false)} />}
+      {isUsageOpen && <UsageModal activeManuscriptId={manuscriptMeta?.id} onClose={() => setIsUsageOpen(false)} />}
+      {isSettingsOpen && <SettingsModal settings={llmSettings} onSave={handleSaveSettings} onClose={() => setIsSettingsOpen(false)} />}
+
       {agentVisible && !agentMinimized && (
         <div className="fixed z-[100] inset-0 md:inset-auto md:bottom-6 md:right-6 md:w-[420px] md:h-[650px] md:max-h-[85vh]">
           <div className="w-full h-full bg-white md:rounded-2xl shadow-2xl flex flex-col overflow-hidden border border-slate-200">
-            <AgentPanel messages={chatHistory} onSendMessage={handleAgentMessage} loading={agentLoading} onPreviewProposal={handlePreviewFix} onApplyProposal={handleConfirmFix} onCancelPreview={() => setPreviewingIssue(null)} previewingId={previewingIssue?.id} journal={journal} onMinimize={() => setAgentMinimized(true)} onClose={() => setAgentVisible(false)} />
+            <AgentPanel messages={liveChat} threads={threads} activeThreadId={activeThread?.id || ''} onSelectThread={setActiveThreadId} onNewThread={handleNewThread} onRenameThread={(id, title) => updateThread(id, t => ({ ...t, title }))} onDeleteThread={handleDeleteThread} onSendMessage={(msg) => handleAgentMessage(msg)} loading={agentLoading} error={agentError?.threadId === activeThread?.id ? agentError?.message : undefined} onRetry={() => agentError && handleAgentMessage(agentError.question, true)} draft={agentDraft?.threadId === activeThread?.id ? agentDraft?.text : undefined} onCancel={() => agentStreamRef.current?.abort()} onPreviewProposal={handlePreviewFix} onApplyProposal={(issue) => handleConfirmFix(issue, 'Agent')} onPreviewAction={(action) => previewAction(action, documentRef.current)} onAction={handleAgentAction} onApplyAllActions={handleApplyAllActions} onCancelPreview={() => setPreviewingIssue(null)} previewingId={previewingIssue?.id} journal={journal} onMinimize={() => setAgentMinimized(true)} onClose={() => setAgentVisible(false)} />
           </div>
         </div>
       )}
@@ -320,17 +1209,25 @@ function App() {
       {mode !== EditorMode.WRITE && mode !== EditorMode.AGENT && (
         <AnalysisPanel 
           mode={mode} 
-          result={analysisResult} 
+          result={liveAnalysis} 
           journal={journal} 
-          setJournal={setJournal} 
-          onAnalyze={runAnalysis} 
-          previewingIssue={previewingIssue} 
+          setJournal={handleJournalChange}
+          onManageProfiles={() => setIsProfilesOpen(true)} 
+          onAnalyze={() => runAnalysis()} 
+          previewingIssue={livePreview} 
           onPreview={handlePreviewFix} 
           onCancelPreview={() => setPreviewingIssue(null)} 
-          onConfirmFix={handleConfirmFix} 
-          onAddReference={handleAddReference}
+          onConfirmFix={(issue) => handleConfirmFix(issue, ANALYSIS_SOURCES[mode] || 'Analysis')} 
+          onAddReference={handleImportPaper}
           onCiteAtSelection={handleCiteAtSelection}
           onSuggestPlacements={handleSuggestPlacements}
+          onLocate={handleLocateIssue}
+          onApplyFixes={setBulkFixIssues}
+          onApplyIssueFix={handleApplyIssueFix}
+          onPreviewPlan={(steps) => previewPlan(steps, documentRef.current)}
+          onUpdatePlan={handleUpdatePlan}
+          onApplyPlan={handleApplyPlan}
+          onCancel={mode === EditorMode.DE_AI || mode === EditorMode.REVIEW || mode === EditorMode.REORGANIZE ? () => analysisStreamRef.current?.abort() : undefined}
           onCloseMobile={() => setMode(EditorMode.WRITE)} 
         />
       )}
@@ -1,5 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ChatMessage, AnalysisIssue, JournalStyle } from '../types';
+import { ChatMessage, AnalysisIssue, JournalProfile, AgentThread, AgentAction } from '../types';
+import { ActionPreview, describeAction, TOOL_LABELS } from '../services/agentToolService';
+import DiffView from './DiffView';
 import { 
   Send, 
   Loader2, 
@@ -9,42 +11,127 @@ import {
   Eye, 
   X,
   Info,
-  Minus
+  Minus,
+  Square,
+  MessagesSquare,
+  ChevronDown,
+  Plus,
+  Pencil,
+  Trash2,
+  Wrench,
+  Check,
+  AlertTriangle,
+  RefreshCw
 } from 'lucide-react';
 
 interface AgentPanelProps {
   messages: ChatMessage[];
+  threads: AgentThread[];
+  activeThreadId: string;
+  onSelectThread: (id: string) => void;
+  onNewThread: () => void;
+  onRenameThread: (id: string, title: string) => void;
+  onDeleteThread: (id: string) => void;
   onSendMessage: (msg: string) => void;
   loading: boolean;
+  // The reply as it streams in; empty until the first words arrive.
+  draft?: string;
+  // Why the last question got no answer; retrying asks it again.
+  error?: string;
+  onRetry?: () => void;
+  onCancel?: () => void;
   onPreviewProposal: (issue: AnalysisIssue) => void;
   onApplyProposal: (issue: AnalysisIssue) => void;
   onCancelPreview: () => void;
   previewingId?: string | null;
-  journal: JournalStyle;
+  // What a step would change in the current document; recomputed each time it is opened.
+  onPreviewAction: (action: AgentAction) => ActionPreview;
+  onAction: (action: AgentAction, decision: 'apply' | 'skip') => boolean | void;
+  onApplyAllActions: (actions: AgentAction[]) => void;
+  journal: JournalProfile;
   onMinimize?: () => void;
   onClose?: () => void;
 }
 
+const STATUS_STYLES: Record<AgentAction['status'], string> = {
+  pending: 'bg-indigo-50 text-indigo-600',
+  applied: 'bg-green-50 text-green-700',
+  skipped: 'bg-slate-100 text-slate-500',
+  failed: 'bg-red-50 text-red-600'
+};
+
+const StepPreview: React.FC<{ preview: ActionPreview }> = ({ preview }) => {
+  if (preview.error) {
+    return (
+      <div className="flex items-start gap-1.5 text-[10px] text-red-700 bg-red-50 border border-red-100 rounded-lg p-2">
+        <AlertTriangle className="w-3 h-3 shrink-0 mt-0.5" /> {preview.error}
+      </div>
+    );
+  }
+  const empty = !preview.outline && preview.changes.length === 0 && preview.addedReferences === 0;
+  return (
+    <div className="space-y-2">
+      {preview.outline && (
+        <div className="grid grid-cols-2 gap-2">
+          {(['before', 'after'] as const).map(side => (
+            <div key={side} className="bg-slate-50 border border-slate-100 rounded-lg p-2">
+              <div className="text-[9px] font-bold uppercase tracking-widest text-slate-400 mb-1">{side === 'before' ? 'Outline now' : 'Outline after'}</div>
+              <ol className="text-[10px] text-slate-700 space-y-0.5 list-decimal list-inside">
+                {preview.outline![side].map((title, i) => <li key={i} className="truncate">{title}</li>)}
+              </ol>
+            </div>
+          ))}
+        </div>
+      )}
+      {preview.changes.map((change, i) => (
+        <div key={i} className="border border-slate-100 rounded-lg overflow-hidden">
+          <div className="px-2 py-1 bg-slate-50 text-[9px] font-bold uppercase tracking-widest text-slate-400">{change.title}</div>
+          <DiffView parts={change.parts} className="p-2 !text-[11px] max-h-48 overflow-y-auto" />
+        </div>
+      ))}
+      {preview.addedReferences > 0 && <p className="text-[10px] text-slate-500">+{preview.addedReferences} bibliography {preview.addedReferences === 1 ? 'entry' : 'entries'}</p>}
+      {empty && <p className="text-[10px] text-slate-400 italic">Nothing in the text changes.</p>}
+    </div>
+  );
+};
+
 const AgentPanel: React.FC<AgentPanelProps> = ({
   messages,
+  threads,
+  activeThreadId,
+  onSelectThread,
+  onNewThread,
+  onRenameThread,
+  onDeleteThread,
   onSendMessage,
   loading,
+  draft,
+  error,
+  onRetry,
+  onCancel,
   onPreviewProposal,
   onApplyProposal,
   onCancelPreview,
   previewingId,
+  onPreviewAction,
+  onAction,
+  onApplyAllActions,
   journal,
   onMinimize,
   onClose
 }) => {
   const [input, setInput] = useState("");
+  const [threadsOpen, setThreadsOpen] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [openStepId, setOpenStepId] = useState<string | null>(null);
+  const activeThread = threads.find(t => t.id === activeThreadId);
   const scrollRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [messages, loading]);
+  }, [messages, loading, draft, error]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -64,7 +151,7 @@ const AgentPanel: React.FC<AgentPanelProps> = ({
           </div>
           <div>
             <h2 className="text-sm font-bold tracking-tight">Scholar Agent</h2>
-            <p className="text-[10px] text-slate-400">Mode: {journal}</p>
+            <p className="text-[10px] text-slate-400">Mode: {journal.name}</p>
           </div>
         </div>
         <div className="flex items-center gap-1">
@@ -89,8 +176,54 @@ const AgentPanel: React.FC<AgentPanelProps> = ({
         </div>
       </div>
 
+      {/* Threads */}
+      <div className="relative px-3 py-2 border-b border-slate-200 bg-white shrink-0 flex items-center gap-2">
+        <MessagesSquare className="w-4 h-4 text-slate-400 shrink-0" />
+        <button type="button" onClick={() => setThreadsOpen(!threadsOpen)} className="flex-1 min-w-0 flex items-center gap-1 text-left text-xs font-semibold text-slate-700 hover:text-indigo-600">
+          <span className="truncate">{activeThread?.title}</span>
+          <ChevronDown className={`w-3 h-3 shrink-0 transition-transform ${threadsOpen ? 'rotate-180' : ''}`} />
+        </button>
+        <button type="button" onClick={() => { onNewThread(); setThreadsOpen(false); }} className="p-1.5 text-slate-400 hover:text-indigo-600" title="New thread"><Plus className="w-4 h-4" /></button>
+        {threadsOpen && (
+          <div className="absolute left-2 right-2 top-full mt-1 z-20 bg-white border border-slate-200 rounded-xl shadow-xl p-1.5 max-h-72 overflow-y-auto">
+            {threads.map(t => (
+              <div key={t.id} className={`flex items-center gap-1 rounded-lg px-2 py-1.5 ${t.id === activeThreadId ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}>
+                {renamingId === t.id ? (
+                  <input
+                    autoFocus
+                    defaultValue={t.title}
+                    onBlur={(e) => { if (e.target.value.trim()) onRenameThread(t.id, e.target.value.trim()); setRenamingId(null); }}
+                    onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); if (e.key === 'Escape') setRenamingId(null); }}
+                    className="flex-1 min-w-0 text-xs px-1.5 py-0.5 border border-indigo-300 rounded outline-none"
+                  />
+                ) : (
+                  <button type="button" onClick={() => { onSelectThread(t.id); setThreadsOpen(false); }} className="flex-1 min-w-0 text-left">
+                    <div className="text-xs font-semibold text-slate-800 truncate">{t.title}</div>
+                    <div className="text-[9px] text-slate-400">{t.messages.length} messages · {new Date(t.updatedAt).toLocaleDateString()}</div>
+                  </button>
+                )}
+                <button type="button" onClick={() => setRenamingId(t.id)} className="p-1 text-slate-300 hover:text-indigo-600" title="Rename"><Pencil className="w-3 h-3" /></button>
+                <button
+                  type="button"
+                  onClick={() => { if (t.messages.length === 0 || confirm(`Delete the thread "${t.title}"? This cannot be undone.`)) onDeleteThread(t.id); }}
+                  className="p-1 text-slate-300 hover:text-red-500"
+                  title="Delete"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Messages */}
       <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-4">
+        {activeThread?.summary && (
+          <div className="text-[10px] text-slate-400 italic text-center px-4" title={activeThread.summary}>
+            The agent sees the first {activeThread.summarizedCount} messages as a summary.
+          </div>
+        )}
         {messages.length === 0 && (
           <div className="text-center py-12 px-6">
             <div className="w-16 h-16 bg-indigo-100 rounded-2xl flex items-center justify-center mx-auto mb-6 rotate-3">
@@ -98,7 +231,7 @@ const AgentPanel: React.FC<AgentPanelProps> = ({
             </div>
             <h3 className="text-base font-bold text-slate-800 mb-2">Academic Assistant</h3>
             <p className="text-xs text-slate-500 leading-relaxed">
-              I can help you polish your paper for <strong>{journal}</strong> standards. Try asking:
+              I can help you polish your paper for <strong>{journal.name}</strong> standards. Try asking:
             </p>
             <div className="mt-4 space-y-2">
               <button type="button" onClick={() => setInput("Review my abstract for clarity.")} className="w-full p-2 text-[10px] text-left text-slate-600 bg-white border border-slate-200 rounded-lg hover:border-indigo-400 transition-colors">"Review my abstract for clarity."</button>
@@ -128,11 +261,15 @@ const AgentPanel: React.FC<AgentPanelProps> = ({
                         <div className="bg-indigo-100 p-1 rounded">
                            <Info className="w-3 h-3 text-indigo-600" />
                         </div>
-                        <span className="text-xs font-bold text-slate-900">{p.title}</span>
+                        <span className="text-xs font-bold text-slate-900 flex-1">{p.title}</span>
+                        {p.stale && <span className="text-[9px] font-bold uppercase tracking-wider text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded">Stale</span>}
                       </div>
                       <p className="text-[11px] text-slate-500 mb-3 leading-relaxed">{p.description}</p>
+                      {p.anchor?.approximate && <p className="text-[10px] text-amber-700 italic mb-2">The passage changed since this was proposed; review before applying.</p>}
                       
-                      {isPreviewing ? (
+                      {p.stale ? (
+                        <p className="text-[10px] text-slate-400 italic">The passage this edit targets is no longer in the manuscript.</p>
+                      ) : isPreviewing ? (
                         <div className="space-y-3 mb-2 animate-in zoom-in-95 duration-200">
                            <div className="space-y-1">
                              <div className="text-[9px] font-bold text-red-500 uppercase tracking-widest ml-1">Current</div>
@@ -165,12 +302,73 @@ const AgentPanel: React.FC<AgentPanelProps> = ({
                 })}
               </div>
             )}
+            {/* Agent Steps */}
+            {m.actions && m.actions.length > 0 && (
+              <div className="mt-3 w-full space-y-2 animate-in fade-in slide-in-from-top-2">
+                {m.actions.map((a, step) => {
+                  const isOpen = openStepId === a.id && a.status === 'pending';
+                  return (
+                    <div key={a.id} className={`bg-white border p-3 rounded-xl shadow-md transition-all ${isOpen ? 'ring-2 ring-indigo-500 border-indigo-200' : 'border-slate-200'}`}>
+                      <div className="flex items-center gap-2 mb-1">
+                        <div className="bg-indigo-100 p-1 rounded">
+                          <Wrench className="w-3 h-3 text-indigo-600" />
+                        </div>
+                        <span className="text-[9px] font-bold uppercase tracking-wider text-slate-400">Step {step + 1} · {TOOL_LABELS[a.tool]}</span>
+                        <span className={`ml-auto text-[9px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded ${STATUS_STYLES[a.status]}`}>{a.status}</span>
+                      </div>
+                      <div className="text-xs font-bold text-slate-900">{describeAction(a)}</div>
+                      {a.summary && <p className="text-[11px] text-slate-500 mt-1 leading-relaxed">{a.summary}</p>}
+                      {a.result && <p className={`text-[10px] mt-1 italic ${a.status === 'failed' ? 'text-red-600' : 'text-slate-400'}`}>{a.result}</p>}
+                      {a.status === 'pending' && (
+                        isOpen ? (
+                          <div className="mt-2 space-y-2 animate-in zoom-in-95 duration-200">
+                            <StepPreview preview={onPreviewAction(a)} />
+                            <div className="flex gap-2">
+                              <button type="button" onClick={() => { onAction(a, 'skip'); setOpenStepId(null); }} className="flex-1 py-1.5 text-[10px] font-bold bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 transition-colors">Skip</button>
+                              <button type="button" onClick={() => { onAction(a, 'apply'); setOpenStepId(null); }} className="flex-1 py-1.5 text-[10px] font-bold bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-all shadow-lg active:scale-95">Apply</button>
+                            </div>
+                          </div>
+                        ) : (
+                          <div className="flex gap-2 mt-2">
+                            <button type="button" onClick={() => onAction(a, 'skip')} className="px-3 py-2 text-[10px] font-bold text-slate-500 rounded-lg hover:bg-slate-100 transition-colors">Skip</button>
+                            <button
+                              type="button"
+                              onClick={() => setOpenStepId(a.id)}
+                              className="flex-1 py-2 bg-indigo-50 text-indigo-700 text-[10px] font-bold rounded-lg flex items-center justify-center gap-2 hover:bg-indigo-100 transition-colors border border-indigo-100"
+                            >
+                              <Eye className="w-3 h-3" /> Preview Step
+                            </button>
+                          </div>
+                        )
+                      )}
+                    </div>
+                  );
+                })}
+                {m.actions.filter(a => a.status === 'pending').length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => { onApplyAllActions(m.actions!.filter(a => a.status === 'pending')); setOpenStepId(null); }}
+                    className="w-full py-2 bg-indigo-600 text-white text-[10px] font-bold rounded-lg flex items-center justify-center gap-2 hover:bg-indigo-700 transition-colors shadow-md"
+                  >
+                    <Check className="w-3 h-3" /> Apply all {m.actions.filter(a => a.status === 'pending').length} steps in order
+                  </button>
+                )}
+              </div>
+            )}
             <span className="text-[9px] font-bold uppercase tracking-wider text-slate-400 mt-1.5 flex items-center gap-1.5">
               {m.role === 'user' ? 'Author' : 'Scholar Agent'}
             </span>
           </div>
         ))}
-        {loading && (
+        {loading && draft && (
+          <div className="flex flex-col items-start">
+            <div className="max-w-[90%] p-3 rounded-2xl text-sm shadow-sm leading-relaxed bg-white text-slate-800 border border-slate-200 rounded-bl-none">
+              {draft}<span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-indigo-400 animate-pulse" />
+            </div>
+            <span className="text-[9px] font-bold uppercase tracking-wider text-slate-400 mt-1.5">Scholar Agent · writing</span>
+          </div>
+        )}
+        {loading && !draft && (
           <div className="flex items-center gap-3 text-slate-400 italic text-xs py-2">
             <div className="flex gap-1">
               <span className="w-1.5 h-1.5 bg-indigo-400 rounded-full animate-bounce"></span>
@@ -180,6 +378,18 @@ const AgentPanel: React.FC<AgentPanelProps> = ({
             Thinking...
           </div>
         )}
+        {!loading && error && (
+          <div className="flex items-start gap-2 p-3 rounded-2xl text-xs bg-red-50 text-red-700 border border-red-100">
+            <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+            <div className="flex-1 min-w-0">
+              <p className="font-bold mb-0.5">The agent could not answer</p>
+              <p className="leading-relaxed break-words">{error}</p>
+            </div>
+            {onRetry && (
+              <button onClick={onRetry} className="shrink-0 px-2.5 py-1 bg-white border border-red-200 rounded-full text-[10px] font-bold hover:bg-red-100 flex items-center gap-1"><RefreshCw className="w-3 h-3" /> Retry</button>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Input Area */}
@@ -193,13 +403,24 @@ const AgentPanel: React.FC<AgentPanelProps> = ({
             placeholder="Talk to the agent..."
             className="flex-1 bg-transparent border-none py-2 px-4 text-sm focus:outline-none disabled:opacity-50"
           />
-          <button 
-            type="submit"
-            disabled={loading || !input.trim()}
-            className="p-2.5 bg-indigo-600 text-white rounded-full hover:bg-indigo-700 disabled:bg-slate-300 transition-all shadow-md active:scale-90"
-          >
-            <Send className="w-4 h-4" />
-          </button>
+          {loading && onCancel ? (
+            <button 
+              type="button"
+              onClick={onCancel}
+              className="p-2.5 bg-slate-700 text-white rounded-full hover:bg-red-500 transition-all shadow-md active:scale-90"
+              title="Stop generating"
+            >
+              <Square className="w-4 h-4 fill-current" />
+            </button>
+          ) : (
+            <button 
+              type="submit"
+              disabled={loading || !input.trim()}
+              className="p-2.5 bg-indigo-600 text-white rounded-full hover:bg-indigo-700 disabled:bg-slate-300 transition-all shadow-md active:scale-90"
+            >
+              <Send className="w-4 h-4" />
+            </button>
+          )}
         </div>
       </form>
     </div>
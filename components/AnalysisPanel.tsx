@@ -1,6 +1,10 @@
 
 import React, { useState } from 'react';
-import { EditorMode, AnalysisResult, JournalStyle, AnalysisIssue, RelatedPaper, CitationPlacement } from '../types';
+import { EditorMode, AnalysisResult, JournalProfile, AnalysisIssue, RelatedPaper, CitationPlacement, ReorganizationStep } from '../types';
+import { PlanPreview } from '../services/reorganizationService';
+import ReorganizationPlan from './ReorganizationPlan';
+import { allProfiles } from '../services/journalProfileService';
+import { describeAction } from '../services/agentToolService';
 import { 
   AlertTriangle, 
   CheckCircle, 
@@ -21,23 +25,37 @@ import {
   Quote,
   LocateFixed,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  ListChecks,
+  Square,
+  SlidersHorizontal,
+  Wrench,
+  Circle
 } from 'lucide-react';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
 
 interface AnalysisPanelProps {
   mode: EditorMode;
   result: AnalysisResult | null;
-  journal: JournalStyle;
-  setJournal: (j: JournalStyle) => void;
+  journal: JournalProfile;
+  setJournal: (j: JournalProfile) => void;
+  onManageProfiles: () => void;
   onAnalyze: () => void;
   previewingIssue: AnalysisIssue | null;
   onPreview: (issue: AnalysisIssue) => void;
   onCancelPreview: () => void;
   onConfirmFix: (issue: AnalysisIssue) => void;
-  onAddReference?: (ref: string) => void;
-  onCiteAtSelection?: (marker: string) => void;
+  onAddReference?: (paper: RelatedPaper) => void;
+  onCiteAtSelection?: (paper: RelatedPaper) => void;
   onSuggestPlacements?: (paper: RelatedPaper) => void;
+  onLocate?: (issue: AnalysisIssue) => void;
+  onApplyIssueFix?: (issue: AnalysisIssue) => void;
+  onApplyFixes?: (issues: AnalysisIssue[]) => void;
+  onPreviewPlan?: (steps: ReorganizationStep[]) => PlanPreview;
+  onUpdatePlan?: (steps: ReorganizationStep[]) => void;
+  onApplyPlan?: () => void;
+  // Stops a streaming analysis, keeping what has arrived.
+  onCancel?: () => void;
   onCloseMobile?: () => void;
 }
 
@@ -46,6 +64,7 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
   result, 
   journal, 
   setJournal, 
+  onManageProfiles,
   onAnalyze,
   previewingIssue,
   onPreview,
@@ -54,9 +73,30 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
   onAddReference,
   onCiteAtSelection,
   onSuggestPlacements,
+  onLocate,
+  onApplyIssueFix,
+  onApplyFixes,
+  onPreviewPlan,
+  onUpdatePlan,
+  onApplyPlan,
+  onCancel,
   onCloseMobile
 }) => {
   const [expandedPaper, setExpandedPaper] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  // A manuscript keeps its own copy of its profile, which may come from another browser's custom profiles.
+  const saved = allProfiles();
+  const profiles = saved.some(p => p.id === journal.id) ? saved : [...saved, journal];
+
+  const fixable = (result?.issues || []).filter(i => !i.stale && i.snippet && i.replacement !== undefined);
+  const selected = fixable.filter(i => selectedIds.includes(i.id));
+  const toggleSelected = (id: string) => setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  const selectType = (type: AnalysisIssue['type']) => {
+    const ids = fixable.filter(i => i.type === type).map(i => i.id);
+    const all = ids.every(id => selectedIds.includes(id));
+    setSelectedIds(prev => all ? prev.filter(id => !ids.includes(id)) : Array.from(new Set([...prev, ...ids])));
+  };
   
   const getHeader = () => {
     switch(mode) {
@@ -65,17 +105,19 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
       case EditorMode.FORMAT: return "Style Compliance";
       case EditorMode.REORGANIZE: return "Structural Feedback";
       case EditorMode.DISCOVERY: return "Research Discovery";
+      case EditorMode.CITATIONS: return "Citation Integrity";
       default: return "Assistant";
     }
   };
 
   const getDescription = () => {
      switch(mode) {
-      case EditorMode.DE_AI: return "Detects LLM patterns and suggests more human phrasing.";
+      case EditorMode.DE_AI: return "Measures readability and sentence rhythm locally, flags stock LLM phrasing and suggests more human alternatives.";
       case EditorMode.REVIEW: return "Simulates a harsh journal reviewer to find gaps.";
-      case EditorMode.FORMAT: return "Checks citations and style rules.";
-      case EditorMode.REORGANIZE: return "Optimizes flow for the target journal.";
+      case EditorMode.FORMAT: return "Checks length, sections, headings, citations, numbers and figure order against the target journal's rules.";
+      case EditorMode.REORGANIZE: return "Plans section moves, merges and splits for the target journal. Adjust the plan, then apply all or part of it.";
       case EditorMode.DISCOVERY: return "Explore related literature and background research.";
+      case EditorMode.CITATIONS: return "Matches every in-text citation against the bibliography. Runs offline.";
       default: return "";
     }
   };
@@ -87,6 +129,15 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
       { name: 'AI Probability', value: result.stats.aiProbabilityScore, color: result.stats.aiProbabilityScore > 50 ? '#ef4444' : '#22c55e' },
       { name: 'Human', value: 100 - result.stats.aiProbabilityScore, color: '#e2e8f0' },
     ];
+    const { stats } = result;
+    const metrics = [
+      { label: 'Words', value: stats.wordCount, hint: 'Words in the body text, references excluded' },
+      { label: 'Sentences', value: stats.sentenceCount ?? '–', hint: 'Sentences in prose paragraphs' },
+      { label: 'Flesch', value: stats.readabilityScore, hint: 'Flesch reading ease: higher is easier; 30-50 is typical for papers' },
+      { label: 'Fog', value: stats.gunningFog ?? '–', hint: 'Gunning Fog index: years of schooling needed to follow the text' },
+      { label: 'Avg length', value: stats.meanSentenceLength ?? '–', hint: `Mean words per sentence (variance ${stats.sentenceLengthVariance ?? '–'})` },
+      { label: 'Burstiness', value: stats.burstiness ?? '–', hint: 'Sentence-length burstiness: values near -1 mean a uniform, machine-like rhythm' },
+    ];
 
     return (
       <div className="bg-white rounded-lg p-4 shadow-sm border border-slate-200 mb-6">
@@ -117,7 +168,45 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
               </span>
             </div>
         </div>
-        <p className="text-xs text-center text-slate-500 mt-1">Probability of AI Generation</p>
+        <p className="text-xs text-center text-slate-500 mt-1">Stylometric AI-likeness (computed locally)</p>
+        <div className="grid grid-cols-3 gap-2 mt-4">
+          {metrics.map(m => (
+            <div key={m.label} className="bg-slate-50 rounded-md p-2 text-center" title={m.hint}>
+              <div className="text-sm font-bold text-slate-800">{m.value}</div>
+              <div className="text-[9px] font-semibold uppercase tracking-wide text-slate-400">{m.label}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  // Long analyses run one section at a time; each row is one model call.
+  const renderProgress = () => {
+    if (!result?.loading || !result.progress?.length) return null;
+    const { progress } = result;
+    const finished = progress.filter(p => p.status === 'done' || p.status === 'failed').length;
+
+    return (
+      <div className="bg-white rounded-lg p-4 shadow-sm border border-slate-200">
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-semibold text-slate-700">Section by Section</h4>
+          <span className="text-xs text-slate-400">{finished} of {progress.length}</span>
+        </div>
+        <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden mb-3">
+          <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(finished / progress.length) * 100}%` }} />
+        </div>
+        <ul className="space-y-1.5">
+          {progress.map(p => (
+            <li key={p.id} className={`flex items-center gap-2 text-xs ${p.status === 'pending' ? 'text-slate-400' : 'text-slate-600'}`}>
+              {p.status === 'running' && <Loader2 className="w-3 h-3 animate-spin text-indigo-500 shrink-0" />}
+              {p.status === 'done' && <Check className="w-3 h-3 text-green-500 shrink-0" />}
+              {p.status === 'failed' && <span title="This part could not be analysed"><AlertTriangle className="w-3 h-3 text-amber-500 shrink-0" /></span>}
+              {p.status === 'pending' && <Circle className="w-3 h-3 text-slate-300 shrink-0" />}
+              <span className="truncate">{p.label}</span>
+            </li>
+          ))}
+        </ul>
       </div>
     );
   };
@@ -163,7 +252,7 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
 
               <div className="flex flex-col gap-2">
                 <button 
-                  onClick={() => onCiteAtSelection?.(paper.citationMarker)}
+                  onClick={() => onCiteAtSelection?.(paper)}
                   className="w-full py-2 text-[11px] font-bold bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-all flex items-center justify-center gap-2 shadow-sm"
                 >
                   <Quote className="w-3.5 h-3.5" /> Cite at Selection
@@ -171,7 +260,7 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
                 
                 <div className="flex gap-2">
                   <button 
-                    onClick={() => onAddReference?.(paper.fullReference)}
+                    onClick={() => onAddReference?.(paper)}
                     className="flex-1 py-1.5 text-[10px] font-bold bg-white border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-50 transition-all flex items-center justify-center gap-1.5"
                   >
                     <Plus className="w-3 h-3" /> Add to Refs
@@ -206,7 +295,7 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
                   <div className="text-xs text-slate-400 italic py-2">No ideal placements found in this section.</div>
                 ) : (
                   paper.suggestedPlacements.map((placement, i) => (
-                    <div key={i} className="bg-white border border-slate-200 p-2.5 rounded-lg shadow-xs group/item cursor-pointer hover:border-indigo-400" onClick={() => onCiteAtSelection?.(paper.citationMarker)}>
+                    <div key={i} className="bg-white border border-slate-200 p-2.5 rounded-lg shadow-xs group/item cursor-pointer hover:border-indigo-400" onClick={() => onCiteAtSelection?.(paper)}>
                       <p className="text-[10px] text-slate-500 font-bold mb-1 group-hover/item:text-indigo-600">Why here?</p>
                       <p className="text-[11px] text-slate-700 leading-relaxed italic mb-2">"...{placement.snippet}..."</p>
                       <div className="text-[10px] text-slate-500 leading-snug bg-slate-50 p-1.5 rounded border border-slate-100">
@@ -242,47 +331,104 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
         {mode !== EditorMode.DISCOVERY && (
           <div className="mt-4 space-y-3">
             <div>
-              <label className="block text-xs font-semibold text-slate-600 mb-1">Target Journal</label>
+              <div className="flex items-center justify-between mb-1">
+                <label className="block text-xs font-semibold text-slate-600">Target Journal</label>
+                <button onClick={onManageProfiles} className="text-[11px] font-semibold text-indigo-600 hover:text-indigo-800 flex items-center gap-1"><SlidersHorizontal className="w-3 h-3"/> Profiles</button>
+              </div>
               <select 
-                value={journal}
-                onChange={(e) => setJournal(e.target.value as JournalStyle)}
+                value={journal.id}
+                onChange={(e) => { const next = profiles.find(p => p.id === e.target.value); if (next) setJournal(next); }}
                 className="w-full text-sm p-2 border border-slate-300 rounded-md bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
               >
-                {Object.values(JournalStyle).map(j => (
-                  <option key={j} value={j}>{j}</option>
+                {profiles.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
                 ))}
               </select>
             </div>
 
-            <button onClick={onAnalyze} disabled={result?.loading} className={`w-full py-2 px-4 rounded-md flex items-center justify-center gap-2 font-medium text-sm transition-all ${result?.loading ? 'bg-slate-100 text-slate-400 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700 text-white shadow-sm hover:shadow'}`}>
-              {result?.loading ? <><Loader2 className="w-4 h-4 animate-spin"/> Analyzing...</> : <><RefreshCw className="w-4 h-4"/> Run Analysis</>}
-            </button>
+            <div className="flex gap-2">
+              <button onClick={onAnalyze} disabled={result?.loading} className={`flex-1 py-2 px-4 rounded-md flex items-center justify-center gap-2 font-medium text-sm transition-all ${result?.loading ? 'bg-slate-100 text-slate-400 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700 text-white shadow-sm hover:shadow'}`}>
+                {result?.loading ? <><Loader2 className="w-4 h-4 animate-spin"/> Analyzing...</> : <><RefreshCw className="w-4 h-4"/> Run Analysis</>}
+              </button>
+              {result?.loading && onCancel && (
+                <button onClick={onCancel} className="py-2 px-3 rounded-md flex items-center gap-1.5 text-sm font-medium border border-slate-300 text-slate-600 hover:border-red-300 hover:text-red-600 transition-all" title="Stop and keep the findings so far"><Square className="w-3 h-3 fill-current"/> Stop</button>
+              )}
+            </div>
           </div>
         )}
       </div>
 
       {/* Results Content */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {renderProgress()}
+        {result?.error && !result.loading && mode !== EditorMode.DISCOVERY && (
+          <div className="bg-red-50 border border-red-100 rounded-lg p-3 text-sm text-red-800">
+            <h4 className="font-semibold mb-1 flex items-center gap-2"><AlertTriangle className="w-3 h-3"/> {result.issues.length > 0 || result.generalFeedback ? 'Analysis Incomplete' : 'Analysis Failed'}</h4>
+            <p className="text-xs leading-relaxed mb-2">{result.error}</p>
+            <button onClick={onAnalyze} className="text-xs font-semibold text-red-700 hover:text-red-900 flex items-center gap-1"><RefreshCw className="w-3 h-3"/> Try Again</button>
+          </div>
+        )}
         {renderStats()}
         {renderDiscovery()}
-        {result && !result.loading && result.generalFeedback && mode !== EditorMode.DISCOVERY && (
+        {result && result.generalFeedback && mode !== EditorMode.DISCOVERY && (
           <div className="bg-indigo-50 border border-indigo-100 rounded-lg p-3 text-sm text-indigo-900">
             <h4 className="font-semibold mb-1 flex items-center gap-2"><Sparkles className="w-3 h-3"/> Summary</h4>
             {result.generalFeedback}
           </div>
         )}
-        {result && !result.loading && result.issues.length > 0 && mode !== EditorMode.DISCOVERY ? (
+        {result?.reorganization && result.reorganization.length > 0 && mode === EditorMode.REORGANIZE && onPreviewPlan && (
+          <ReorganizationPlan
+            steps={result.reorganization}
+            preview={onPreviewPlan(result.reorganization)}
+            loading={result.loading}
+            onChange={(steps) => onUpdatePlan?.(steps)}
+            onApply={() => onApplyPlan?.()}
+          />
+        )}
+        {result && result.issues.length > 0 && mode !== EditorMode.DISCOVERY ? (
           <div className="space-y-3">
              <h3 className="text-xs font-bold uppercase tracking-wider text-slate-500 mb-2">Findings ({result.issues.length})</h3>
+             {onApplyFixes && !result.loading && fixable.length > 1 && (
+               <div className="bg-white p-3 rounded-lg border border-slate-200 shadow-sm space-y-2">
+                 <div className="flex flex-wrap items-center gap-1.5">
+                   <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mr-1">Select</span>
+                   {(['error', 'warning', 'info'] as const).map(type => {
+                     const count = fixable.filter(i => i.type === type).length;
+                     if (count === 0) return null;
+                     const active = fixable.filter(i => i.type === type).every(i => selectedIds.includes(i.id));
+                     return (
+                       <button key={type} onClick={() => selectType(type)} className={`px-2 py-1 text-[10px] font-bold rounded-md border transition-all ${active ? 'bg-indigo-600 text-white border-indigo-600' : 'border-slate-200 text-slate-600 hover:border-indigo-300'}`}>
+                         {type === 'error' ? 'Errors' : type === 'warning' ? 'Warnings' : 'Info'} ({count})
+                       </button>
+                     );
+                   })}
+                   {selected.length > 0 && <button onClick={() => setSelectedIds([])} className="text-[10px] text-slate-400 hover:text-slate-600 ml-auto">Clear</button>}
+                 </div>
+                 <button onClick={() => onApplyFixes(selected)} disabled={selected.length === 0} className="w-full py-1.5 text-xs bg-indigo-600 text-white rounded font-semibold flex items-center justify-center gap-2 disabled:opacity-40"><ListChecks className="w-3 h-3" /> Review & Apply {selected.length || ''} Selected</button>
+               </div>
+             )}
              {result.issues.map((issue) => (
                <div key={issue.id} className={`bg-white p-3 rounded-lg border shadow-sm transition-all duration-300 group ${previewingIssue?.id === issue.id ? 'border-indigo-500 ring-2 ring-indigo-100' : 'border-slate-200 hover:border-indigo-300'}`}>
                   <div className="flex items-start gap-2 mb-1">
+                    {onApplyFixes && fixable.includes(issue) && (
+                      <input type="checkbox" checked={selectedIds.includes(issue.id)} onChange={() => toggleSelected(issue.id)} className="mt-1 shrink-0 accent-indigo-600" title="Select for bulk apply" />
+                    )}
                     {issue.type === 'error' && <AlertTriangle className="w-4 h-4 text-red-500 shrink-0 mt-0.5" />}
                     {issue.type === 'warning' && <AlertTriangle className="w-4 h-4 text-amber-500 shrink-0 mt-0.5" />}
-                    <h5 className="text-sm font-semibold text-slate-800">{issue.title}</h5>
+                    {issue.type === 'info' && <Info className="w-4 h-4 text-sky-500 shrink-0 mt-0.5" />}
+                    <h5 className="text-sm font-semibold text-slate-800 flex-1">{issue.title}</h5>
+                    {issue.stale && <span className="text-[9px] font-bold uppercase tracking-wider text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded shrink-0">Stale</span>}
+                    {issue.anchor && onLocate && (
+                      <button onClick={() => onLocate(issue)} className="p-1 -m-1 text-slate-400 hover:text-indigo-600 shrink-0" title={issue.location ? `Show in ${issue.location}` : 'Show in text'}><LocateFixed className="w-3.5 h-3.5" /></button>
+                    )}
                   </div>
                   <p className="text-xs text-slate-600 mb-2">{issue.description}</p>
-                  {issue.suggestion && (
+                  {issue.stale && <p className="text-[11px] text-slate-500 italic">The passage this refers to has been edited or removed since the analysis. Re-run it to check again.</p>}
+                  {issue.anchor?.approximate && <p className="text-[11px] text-amber-700 italic">The passage changed since the analysis; review the fix before applying it.</p>}
+                  {issue.fix && onApplyIssueFix && !result.loading && (
+                    <button onClick={() => onApplyIssueFix(issue)} className="w-full mt-2 py-1.5 text-xs bg-white border border-indigo-200 text-indigo-700 rounded transition-all flex items-center justify-center gap-2 hover:bg-indigo-50" title={issue.fix.summary}><Wrench className="w-3 h-3 shrink-0" /> <span className="truncate">{describeAction(issue.fix)}</span></button>
+                  )}
+                  {issue.suggestion && !issue.stale && (
                     <div className="mt-2 pt-2 border-t border-slate-100">
                        {previewingIssue?.id === issue.id ? (
                          <div className="space-y-2 mb-3">
@@ -302,7 +448,7 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
                </div>
              ))}
           </div>
-        ) : (!result?.loading && mode !== EditorMode.DISCOVERY && <div className="text-center py-10 text-slate-400"><p className="text-sm">Run analysis to see results.</p></div>)}
+        ) : (!result?.loading && !result?.error && !result?.reorganization && mode !== EditorMode.DISCOVERY && <div className="text-center py-10 text-slate-400"><p className="text-sm">Run analysis to see results.</p></div>)}
       </div>
     </div>
   );
@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { BibEntry, BibEntryType, JournalProfile } from '../types';
+import { parseReference, findDuplicate, isDuplicate } from '../services/bibliographyService';
+import { previewReference } from '../services/citationStyleService';
+import { X, Library, Plus, Trash2, Save, Search, AlertTriangle, Merge } from 'lucide-react';
+
+interface BibliographyPanelProps {
+  entries: BibEntry[];
+  journal: JournalProfile;
+  onAdd: (fields: Omit<BibEntry, 'id'>) => void;
+  onUpdate: (entry: BibEntry) => void;
+  onDelete: (id: string) => void;
+  onMerge: (keepId: string, dropId: string) => void;
+  onClose: () => void;
+}
+
+const ENTRY_TYPES: { value: BibEntryType, label: string }[] = [
+  { value: 'article', label: 'Journal Article' },
+  { value: 'inproceedings', label: 'Conference Paper' },
+  { value: 'book', label: 'Book' },
+  { value: 'misc', label: 'Other' }
+];
+
+const FIELD_CLASS = "w-full text-sm p-2 border border-slate-300 rounded-md outline-none focus:ring-2 focus:ring-indigo-500";
+
+const BibliographyPanel: React.FC<BibliographyPanelProps> = ({ entries, journal, onAdd, onUpdate, onDelete, onMerge, onClose }) => {
+  const [query, setQuery] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<BibEntry | null>(null);
+  const [rawInput, setRawInput] = useState("");
+
+  const filtered = useMemo(() => {
+    const q = query.toLowerCase().trim();
+    if (!q) return entries;
+    return entries.filter(e => [e.title, e.venue, e.year, e.doi || '', e.key || '', ...e.authors].some(f => f.toLowerCase().includes(q)));
+  }, [entries, query]);
+
+  const duplicatePairs = useMemo(() => {
+    const pairs: [BibEntry, BibEntry][] = [];
+    entries.forEach((a, i) => entries.slice(i + 1).forEach(b => { if (isDuplicate(a, b)) pairs.push([a, b]); }));
+    return pairs;
+  }, [entries]);
+
+  const select = (entry: BibEntry) => {
+    setSelectedId(entry.id);
+    setDraft({ ...entry });
+  };
+
+  const draftDuplicate = draft ? findDuplicate(draft, entries, draft.id) : undefined;
+
+  const handleParseAndAdd = () => {
+    if (!rawInput.trim()) return;
+    const parsed = parseReference(rawInput);
+    const dup = findDuplicate(parsed, entries);
+    if (dup && !confirm(`This looks like a duplicate of "${dup.title}". Add anyway?`)) return;
+    onAdd(parsed);
+    setRawInput("");
+  };
+
+  const updateDraft = <K extends keyof BibEntry>(key: K, value: BibEntry[K]) => draft && setDraft({ ...draft, [key]: value });
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-5xl overflow-hidden flex flex-col h-[85vh]">
+        <div className="p-6 bg-slate-900 text-white flex justify-between items-center shrink-0">
+          <h3 className="text-xl font-bold flex items-center gap-2"><Library className="w-5 h-5 text-indigo-400" /> Bibliography <span className="text-sm font-normal text-slate-400">({entries.length})</span></h3>
+          <button onClick={onClose}><X className="w-6 h-6" /></button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Entry list */}
+          <div className="w-96 border-r border-slate-200 flex flex-col shrink-0">
+            <div className="p-3 border-b border-slate-200 space-y-2">
+              <textarea value={rawInput} onChange={(e) => setRawInput(e.target.value)} placeholder="Paste a formatted reference to add it..." className={`${FIELD_CLASS} h-16 text-xs resize-none`} />
+              <button onClick={handleParseAndAdd} disabled={!rawInput.trim()} className="w-full py-1.5 text-xs font-bold bg-indigo-600 text-white rounded-md disabled:bg-slate-300 flex items-center justify-center gap-1.5"><Plus className="w-3.5 h-3.5" /> Parse & Add</button>
+              <div className="relative">
+                <Search className="w-3.5 h-3.5 text-slate-400 absolute left-2.5 top-2.5" />
+                <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Filter entries..." className={`${FIELD_CLASS} text-xs pl-8`} />
+              </div>
+            </div>
+
+            {duplicatePairs.length > 0 && (
+              <div className="p-3 bg-amber-50 border-b border-amber-100 space-y-2">
+                <div className="text-[10px] font-bold uppercase tracking-wider text-amber-700 flex items-center gap-1.5"><AlertTriangle className="w-3 h-3" /> Likely duplicates</div>
+                {duplicatePairs.map(([a, b]) => (
+                  <div key={`${a.id}-${b.id}`} className="flex items-center gap-2 text-[11px] text-amber-900">
+                    <span className="flex-1 truncate">{a.title}</span>
+                    <button onClick={() => onMerge(a.id, b.id)} className="px-2 py-0.5 bg-white border border-amber-200 rounded font-bold flex items-center gap-1"><Merge className="w-3 h-3" /> Merge</button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto p-2 space-y-1">
+              {filtered.length === 0 && <div className="text-center py-10 text-xs text-slate-400">No entries.</div>}
+              {filtered.map(e => (
+                <button key={e.id} onClick={() => select(e)} className={`w-full text-left p-2.5 rounded-lg border transition-all ${e.id === selectedId ? 'border-indigo-300 bg-indigo-50' : 'border-transparent hover:bg-slate-50'}`}>
+                  <div className="text-xs font-semibold text-slate-800 line-clamp-2">{e.title || 'Untitled'}</div>
+                  <div className="text-[10px] text-slate-500 truncate">{e.authors.join('; ') || 'No authors'} · {e.year || 'n.d.'}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 flex flex-col min-w-0">
+            {draft ? (
+              <>
+                <div className="flex-1 overflow-y-auto p-6 space-y-3">
+                  {draftDuplicate && (
+                    <div className="bg-amber-50 border border-amber-100 rounded-lg p-3 text-xs text-amber-900 flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4 shrink-0" /> Matches existing entry "{draftDuplicate.title}".
+                    </div>
+                  )}
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-xs font-semibold text-slate-600 mb-1">Type</label>
+                      <select value={draft.type} onChange={(e) => updateDraft('type', e.target.value as BibEntryType)} className={`${FIELD_CLASS} bg-white`}>
+                        {ENTRY_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-semibold text-slate-600 mb-1">Year</label>
+                      <input value={draft.year} onChange={(e) => updateDraft('year', e.target.value)} className={FIELD_CLASS} />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-semibold text-slate-600 mb-1">Authors <span className="font-normal text-slate-400">(one per line, "Last, First")</span></label>
+                    <textarea value={draft.authors.join('\n')} onChange={(e) => updateDraft('authors', e.target.value.split('\n'))} className={`${FIELD_CLASS} h-24 font-mono text-xs`} />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-semibold text-slate-600 mb-1">Title</label>
+                    <input value={draft.title} onChange={(e) => updateDraft('title', e.target.value)} className={FIELD_CLASS} />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-semibold text-slate-600 mb-1">{draft.type === 'book' ? 'Publisher' : draft.type === 'inproceedings' ? 'Proceedings' : 'Journal'}</label>
+                    <input value={draft.venue} onChange={(e) => updateDraft('venue', e.target.value)} className={FIELD_CLASS} />
+                  </div>
+                  <div className="grid grid-cols-3 gap-3">
+                    <div><label className="block text-xs font-semibold text-slate-600 mb-1">Volume</label><input value={draft.volume || ''} onChange={(e) => updateDraft('volume', e.target.value || undefined)} className={FIELD_CLASS} /></div>
+                    <div><label className="block text-xs font-semibold text-slate-600 mb-1">Issue</label><input value={draft.issue || ''} onChange={(e) => updateDraft('issue', e.target.value || undefined)} className={FIELD_CLASS} /></div>
+                    <div><label className="block text-xs font-semibold text-slate-600 mb-1">Pages</label><input value={draft.pages || ''} onChange={(e) => updateDraft('pages', e.target.value || undefined)} className={FIELD_CLASS} /></div>
+                  </div>
+                  <div className="grid grid-cols-3 gap-3">
+                    <div><label className="block text-xs font-semibold text-slate-600 mb-1">Cite key</label><input value={draft.key || ''} onChange={(e) => updateDraft('key', e.target.value.replace(/\s/g, '') || undefined)} placeholder="Generated on export" className={`${FIELD_CLASS} font-mono text-xs`} /></div>
+                    <div><label className="block text-xs font-semibold text-slate-600 mb-1">DOI</label><input value={draft.doi || ''} onChange={(e) => updateDraft('doi', e.target.value || undefined)} className={`${FIELD_CLASS} font-mono text-xs`} /></div>
+                    <div><label className="block text-xs font-semibold text-slate-600 mb-1">URL</label><input value={draft.url || ''} onChange={(e) => updateDraft('url', e.target.value || undefined)} className={`${FIELD_CLASS} font-mono text-xs`} /></div>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-semibold text-slate-600 mb-1">Preview <span className="font-normal text-slate-400">({journal.name})</span></label>
+                    <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg text-sm font-serif text-slate-700">{previewReference({ ...draft, authors: draft.authors.filter(a => a.trim()) }, journal)}</div>
+                  </div>
+                </div>
+                <div className="p-4 border-t border-slate-200 flex gap-3">
+                  <button onClick={() => { if (confirm(`Delete "${draft.title}" from the bibliography?`)) { onDelete(draft.id); setDraft(null); setSelectedId(null); } }} className="py-2 px-4 text-sm font-bold text-red-500 flex items-center gap-2"><Trash2 className="w-4 h-4" /> Delete</button>
+                  <div className="flex-1" />
+                  <button onClick={() => onUpdate({ ...draft, authors: draft.authors.map(a => a.trim()).filter(Boolean) })} className="py-2 px-6 bg-indigo-600 text-white text-sm font-bold rounded-xl shadow-lg flex items-center gap-2"><Save className="w-4 h-4" /> Save Entry</button>
+                </div>
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-sm text-slate-400 px-10 text-center">Select an entry to edit it. The References section is generated from this list.</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BibliographyPanel;
@@ -0,0 +1,87 @@
+import React, { useMemo } from 'react';
+import { AnalysisIssue, PaperSection } from '../types';
+import { planFixes, PlannedFix } from '../services/anchorService';
+import { diffWords } from '../services/diffService';
+import DiffView from './DiffView';
+import { X, ListChecks, AlertTriangle } from 'lucide-react';
+
+interface BulkFixModalProps {
+  issues: AnalysisIssue[];
+  sections: PaperSection[];
+  trackChanges: boolean;
+  onApply: (issues: AnalysisIssue[]) => void;
+  onClose: () => void;
+}
+
+const CONTEXT = 60;
+
+// The fix with a little of the surrounding sentence on each side, cut at word boundaries.
+const contextDiff = (fix: PlannedFix, content: string) => {
+  const { start, end } = fix.anchor;
+  const from = start > CONTEXT ? content.indexOf(' ', start - CONTEXT) + 1 : 0;
+  const to = end + CONTEXT < content.length ? content.lastIndexOf(' ', end + CONTEXT) : content.length;
+  const before = (from > 0 ? '…' : '') + content.substring(from, start);
+  const after = content.substring(end, Math.max(end, to)) + (to < content.length ? '…' : '');
+  return diffWords(before + fix.issue.snippet + after, before + fix.issue.replacement + after);
+};
+
+const BulkFixModal: React.FC<BulkFixModalProps> = ({ issues, sections, trackChanges, onApply, onClose }) => {
+  const plan = useMemo(() => planFixes(issues, sections), [issues, sections]);
+  const bySection = sections
+    .map(section => ({ section, fixes: plan.fixes.filter(f => f.anchor.sectionId === section.id) }))
+    .filter(g => g.fixes.length > 0);
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl overflow-hidden flex flex-col h-[85vh]">
+        <div className="p-6 bg-slate-900 text-white flex justify-between items-center shrink-0">
+          <div>
+            <h3 className="text-xl font-bold flex items-center gap-2"><ListChecks className="w-5 h-5 text-indigo-400" /> Apply {plan.fixes.length} Fixes</h3>
+            <p className="text-[10px] text-slate-400 mt-1">{issues.length} selected · {plan.skipped.length} skipped · one undo step</p>
+          </div>
+          <button onClick={onClose}><X className="w-6 h-6" /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {plan.skipped.length > 0 && (
+            <div className="border border-amber-200 bg-amber-50 rounded-xl p-3 space-y-1.5">
+              <h4 className="text-xs font-bold uppercase tracking-wider text-amber-700">Skipped</h4>
+              {plan.skipped.map(s => (
+                <div key={s.issue.id} className="flex items-start gap-2 text-xs text-amber-900">
+                  <AlertTriangle className="w-3.5 h-3.5 text-amber-500 shrink-0 mt-0.5" />
+                  <span><span className="font-semibold">{s.issue.title}:</span> {s.reason}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {bySection.map(({ section, fixes }) => (
+            <div key={section.id}>
+              <h4 className="text-xs font-bold uppercase tracking-wider text-slate-500 mb-2">{section.title} ({fixes.length})</h4>
+              <div className="space-y-2">
+                {fixes.map(fix => (
+                  <div key={fix.issue.id} className="border border-slate-200 rounded-xl overflow-hidden">
+                    <div className="px-3 py-2 bg-slate-50 border-b border-slate-200 flex items-center gap-2">
+                      <span className="text-xs font-semibold text-slate-700 flex-1 truncate">{fix.issue.title}</span>
+                      {fix.anchor.approximate && <span className="text-[10px] text-amber-700 italic shrink-0">text changed since analysis</span>}
+                    </div>
+                    <DiffView parts={contextDiff(fix, section.content)} className="p-3" />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+          {plan.fixes.length === 0 && <div className="text-center py-10 text-sm text-slate-400">None of the selected findings can be applied to the current text.</div>}
+        </div>
+
+        <div className="p-6 bg-slate-50 flex gap-3 shrink-0">
+          <button onClick={onClose} className="flex-1 py-3 text-sm font-bold text-slate-500">Cancel</button>
+          <button onClick={() => onApply(plan.fixes.map(f => f.issue))} disabled={plan.fixes.length === 0} className="flex-[2] py-3 bg-indigo-600 text-white text-sm font-bold rounded-xl shadow-lg disabled:opacity-50">
+            {trackChanges ? `Suggest ${plan.fixes.length} Changes` : `Apply ${plan.fixes.length} Fixes`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkFixModal;
@@ -0,0 +1,19 @@
+import React from 'react';
+import { DiffPart } from '../types';
+
+interface DiffViewProps {
+  parts: DiffPart[];
+  className?: string;
+}
+
+const DiffView: React.FC<DiffViewProps> = ({ parts, className }) => (
+  <div className={`whitespace-pre-wrap font-serif text-sm leading-relaxed text-slate-700 ${className || ''}`}>
+    {parts.map((p, i) => {
+      if (p.type === 'insert') return <ins key={i} className="bg-green-100 text-green-900 no-underline rounded-sm">{p.text}</ins>;
+      if (p.type === 'delete') return <del key={i} className="bg-red-100 text-red-800 rounded-sm">{p.text}</del>;
+      return <span key={i}>{p.text}</span>;
+    })}
+  </div>
+);
+
+export default DiffView;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { ExportFormat, ExportOptions, JournalProfile, SuggestionView } from '../types';
+import { defaultExportOptions, describeTemplate } from '../services/exportService';
+import { X, Download, FileText, FileType, Printer, Globe, Sigma, Loader2 } from 'lucide-react';
+
+interface ExportModalProps {
+  journal: JournalProfile;
+  suggestionCount: number;
+  onExport: (options: ExportOptions) => Promise<void>;
+  onClose: () => void;
+}
+
+const FORMATS: { value: ExportFormat, label: string, hint: string, icon: React.ElementType }[] = [
+  { value: 'docx', label: 'Word', hint: '.docx', icon: FileType },
+  { value: 'pdf', label: 'PDF', hint: 'print dialog', icon: Printer },
+  { value: 'html', label: 'HTML', hint: 'print-ready', icon: Globe },
+  { value: 'latex', label: 'LaTeX', hint: '.tex + .bib', icon: Sigma },
+  { value: 'markdown', label: 'Markdown', hint: '.md', icon: FileText }
+];
+
+const FIELD_CLASS = 'w-full text-sm p-2 border border-slate-300 rounded-md outline-none focus:ring-2 focus:ring-indigo-500';
+
+const ExportModal: React.FC<ExportModalProps> = ({ journal, suggestionCount, onExport, onClose }) => {
+  const [options, setOptions] = useState<ExportOptions>(() => defaultExportOptions(journal));
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Layout options only apply to the formats this app typesets itself.
+  const templated = options.format === 'docx' || options.format === 'pdf' || options.format === 'html';
+
+  const toggle = (key: 'doubleSpacing' | 'lineNumbers' | 'titlePage' | 'floatsAtEnd' | 'anonymize') => setOptions({ ...options, [key]: !options[key] });
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      await onExport(options);
+      onClose();
+    } catch (e) {
+      setError((e as Error).message || 'Export failed.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const checkbox = (key: 'doubleSpacing' | 'lineNumbers' | 'titlePage' | 'floatsAtEnd' | 'anonymize', label: string, hint: string) => (
+    <label className={`flex items-start gap-2 p-2 rounded-lg ${templated ? 'cursor-pointer hover:bg-slate-50' : 'opacity-40'}`}>
+      <input type="checkbox" checked={options[key]} disabled={!templated} onChange={() => toggle(key)} className="mt-0.5 accent-indigo-600" />
+      <span>
+        <span className="block text-xs font-semibold text-slate-700">{label}</span>
+        <span className="block text-[10px] text-slate-400">{hint}</span>
+      </span>
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 bg-slate-900 text-white flex justify-between items-center">
+          <div>
+            <h3 className="text-xl font-bold flex items-center gap-2"><Download className="w-5 h-5 text-indigo-400" /> Export Manuscript</h3>
+            <p className="text-[10px] text-slate-400 mt-1">{journal.name} template · {describeTemplate(journal)}</p>
+          </div>
+          <button onClick={onClose}><X className="w-6 h-6" /></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-5">
+          <div className="grid grid-cols-5 gap-2">
+            {FORMATS.map(f => (
+              <button
+                key={f.value}
+                onClick={() => setOptions({ ...options, format: f.value })}
+                className={`p-3 rounded-xl border flex flex-col items-center gap-1 transition-all ${options.format === f.value ? 'border-indigo-400 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-500 hover:border-indigo-200'}`}
+              >
+                <f.icon className="w-5 h-5" />
+                <span className="text-xs font-bold">{f.label}</span>
+                <span className="text-[9px] text-slate-400">{f.hint}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-1">
+            {checkbox('doubleSpacing', 'Double spacing', 'Otherwise the journal\'s own spacing')}
+            {checkbox('lineNumbers', 'Line numbers', 'Continuous, in the left margin')}
+            {checkbox('titlePage', 'Title page', 'Title, authors and word count')}
+            {checkbox('floatsAtEnd', 'Tables & figures at end', 'Leaves "[Table 1 about here]" markers')}
+            {checkbox('anonymize', 'Anonymized review copy', 'Hides authors and acknowledgements')}
+          </div>
+
+          {suggestionCount > 0 && (
+            <div className="space-y-2">
+              <label className="block text-xs font-semibold text-slate-600">{suggestionCount} open {suggestionCount === 1 ? 'suggestion' : 'suggestions'}</label>
+              <select value={options.suggestions} onChange={(e) => setOptions({ ...options, suggestions: e.target.value as SuggestionView })} className={`${FIELD_CLASS} bg-white`}>
+                <option value="include">{options.format === 'latex' ? 'Keep as tracked changes (not supported in LaTeX; accepted text is used)' : options.format === 'markdown' ? 'Keep as CriticMarkup' : 'Keep as tracked changes'}</option>
+                <option value="accepted">Flatten: accept all</option>
+                <option value="original">Flatten: reject all</option>
+              </select>
+            </div>
+          )}
+
+          {templated && (
+            <div className="space-y-2">
+              <label className="block text-xs font-semibold text-slate-600">Authors <span className="font-normal text-slate-400">(comma separated{options.anonymize ? '; their surnames are blinded in the text' : ''})</span></label>
+              <input value={options.authors} onChange={(e) => setOptions({ ...options, authors: e.target.value })} placeholder="Ada Lovelace, Charles Babbage" className={FIELD_CLASS} />
+              {!options.anonymize && (
+                <>
+                  <label className="block text-xs font-semibold text-slate-600">Affiliations <span className="font-normal text-slate-400">(one per line)</span></label>
+                  <textarea value={options.affiliations} onChange={(e) => setOptions({ ...options, affiliations: e.target.value })} rows={2} className={`${FIELD_CLASS} resize-none`} />
+                </>
+              )}
+            </div>
+          )}
+
+          {error && <div className="text-xs text-red-600 bg-red-50 border border-red-100 rounded-lg p-3">{error}</div>}
+        </div>
+
+        <div className="p-6 bg-slate-50 flex gap-3">
+          <button onClick={onClose} className="flex-1 py-3 text-sm font-bold text-slate-500">Cancel</button>
+          <button onClick={handleExport} disabled={exporting} className="flex-[2] py-3 bg-indigo-600 text-white text-sm font-bold rounded-xl shadow-lg flex items-center justify-center gap-2 disabled:opacity-50">
+            {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />} Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportModal;
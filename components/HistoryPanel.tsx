@@ -0,0 +1,142 @@
+import React, { useMemo, useState } from 'react';
+import { PaperSection, Snapshot } from '../types';
+import { diffWords, countChanges } from '../services/diffService';
+import DiffView from './DiffView';
+import { X, History, Bookmark, Bot, RotateCcw, Trash2, Plus } from 'lucide-react';
+
+interface HistoryPanelProps {
+  snapshots: Snapshot[];
+  currentSections: PaperSection[];
+  onCreateCheckpoint: (label: string) => void;
+  onRestoreAll: (snapshot: Snapshot) => void;
+  onRestoreSection: (snapshot: Snapshot, sectionId: string) => void;
+  onDelete: (snapshotId: string) => void;
+  onClose: () => void;
+}
+
+type CompareTarget = 'current' | 'previous';
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  snapshots,
+  currentSections,
+  onCreateCheckpoint,
+  onRestoreAll,
+  onRestoreSection,
+  onDelete,
+  onClose
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(snapshots[0]?.id || null);
+  const [compareTo, setCompareTo] = useState<CompareTarget>('current');
+  const [checkpointLabel, setCheckpointLabel] = useState("");
+
+  const selectedIdx = snapshots.findIndex(s => s.id === selectedId);
+  const selected = selectedIdx >= 0 ? snapshots[selectedIdx] : null;
+
+  // "current": what changed between the snapshot and today's document.
+  // "previous": what changed between the older snapshot and this one.
+  const sectionDiffs = useMemo(() => {
+    if (!selected) return [];
+    const base = compareTo === 'current' ? selected.sections : snapshots[selectedIdx + 1]?.sections || [];
+    const target = compareTo === 'current' ? currentSections : selected.sections;
+    const ids = [...base.map(s => s.id), ...target.filter(t => !base.some(b => b.id === t.id)).map(t => t.id)];
+    return ids.map(id => {
+      const before = base.find(s => s.id === id);
+      const after = target.find(s => s.id === id);
+      const parts = diffWords(before?.content || '', after?.content || '');
+      return {
+        id,
+        title: after?.title || before?.title || id,
+        status: !before ? 'added' : !after ? 'removed' : before.title !== after.title ? 'renamed' : 'kept',
+        parts,
+        changes: countChanges(parts),
+        inSnapshot: selected.sections.some(s => s.id === id)
+      };
+    });
+  }, [selected, selectedIdx, snapshots, currentSections, compareTo]);
+
+  const submitCheckpoint = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!checkpointLabel.trim()) return;
+    onCreateCheckpoint(checkpointLabel.trim());
+    setCheckpointLabel("");
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-5xl overflow-hidden flex flex-col h-[85vh]">
+        <div className="p-6 bg-slate-900 text-white flex justify-between items-center shrink-0">
+          <h3 className="text-xl font-bold flex items-center gap-2"><History className="w-5 h-5 text-indigo-400" /> Version History</h3>
+          <button onClick={onClose}><X className="w-6 h-6" /></button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Timeline */}
+          <div className="w-72 border-r border-slate-200 flex flex-col shrink-0">
+            <form onSubmit={submitCheckpoint} className="p-3 border-b border-slate-200 flex gap-2">
+              <input value={checkpointLabel} onChange={(e) => setCheckpointLabel(e.target.value)} placeholder="Name a checkpoint..." className="flex-1 min-w-0 text-xs p-2 border border-slate-300 rounded-md outline-none focus:ring-2 focus:ring-indigo-500" />
+              <button type="submit" disabled={!checkpointLabel.trim()} className="p-2 bg-indigo-600 text-white rounded-md disabled:bg-slate-300"><Plus className="w-4 h-4" /></button>
+            </form>
+            <div className="flex-1 overflow-y-auto p-2 space-y-1">
+              {snapshots.length === 0 && <div className="text-center py-10 text-xs text-slate-400">Snapshots appear here before every AI edit.</div>}
+              {snapshots.map(s => (
+                <button
+                  key={s.id}
+                  onClick={() => setSelectedId(s.id)}
+                  className={`w-full text-left p-2.5 rounded-lg border transition-all ${s.id === selectedId ? 'border-indigo-300 bg-indigo-50' : 'border-transparent hover:bg-slate-50'}`}
+                >
+                  <div className="flex items-center gap-2">
+                    {s.kind === 'manual' ? <Bookmark className="w-3.5 h-3.5 text-amber-500 shrink-0" /> : <Bot className="w-3.5 h-3.5 text-slate-400 shrink-0" />}
+                    <span className="text-xs font-semibold text-slate-800 truncate">{s.label}</span>
+                  </div>
+                  <div className="text-[10px] text-slate-400 mt-0.5 ml-5">{new Date(s.createdAt).toLocaleString()}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Diff */}
+          <div className="flex-1 flex flex-col min-w-0">
+            {selected ? (
+              <>
+                <div className="p-4 border-b border-slate-200 flex flex-wrap items-center gap-3 shrink-0">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-bold text-slate-800 truncate">{selected.label}</div>
+                    <div className="text-[10px] text-slate-500">{selected.kind === 'manual' ? 'Checkpoint' : 'Automatic snapshot'} · {selected.sections.length} sections</div>
+                  </div>
+                  <select value={compareTo} onChange={(e) => setCompareTo(e.target.value as CompareTarget)} className="text-xs p-2 border border-slate-300 rounded-md bg-white outline-none">
+                    <option value="current">Compare with current document</option>
+                    <option value="previous">Compare with previous snapshot</option>
+                  </select>
+                  <button onClick={() => onRestoreAll(selected)} className="py-2 px-3 text-xs font-bold bg-indigo-600 text-white rounded-md flex items-center gap-1.5"><RotateCcw className="w-3.5 h-3.5" /> Restore Document</button>
+                  <button onClick={() => { onDelete(selected.id); setSelectedId(null); }} className="p-2 text-slate-400 hover:text-red-500" title="Delete snapshot"><Trash2 className="w-4 h-4" /></button>
+                </div>
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                  {sectionDiffs.map(d => (
+                    <div key={d.id} className="border border-slate-200 rounded-xl overflow-hidden">
+                      <div className="px-3 py-2 bg-slate-50 border-b border-slate-200 flex items-center gap-2">
+                        <span className="text-xs font-bold text-slate-700 flex-1 truncate">{d.title}</span>
+                        {d.status !== 'kept' && <span className="text-[9px] font-black uppercase tracking-widest text-amber-600">{d.status}</span>}
+                        <span className="text-[10px] font-mono text-green-600">+{d.changes.added}</span>
+                        <span className="text-[10px] font-mono text-red-500">-{d.changes.removed}</span>
+                        {d.inSnapshot && (
+                          <button onClick={() => onRestoreSection(selected, d.id)} className="text-[10px] font-bold text-indigo-600 hover:underline">Restore section</button>
+                        )}
+                      </div>
+                      {d.changes.added + d.changes.removed === 0
+                        ? <div className="p-3 text-xs text-slate-400 italic">No changes.</div>
+                        : <DiffView parts={d.parts} className="p-3" />}
+                    </div>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-sm text-slate-400">Select a snapshot to compare.</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
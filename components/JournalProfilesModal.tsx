@@ -0,0 +1,248 @@
+import React, { useRef, useState } from 'react';
+import { JournalProfile, ReferenceStyle } from '../types';
+import { BUILT_IN_PROFILES, REFERENCE_STYLE_LABELS, copyProfile, getCustomProfiles, importProfile, normalizeProfile, saveCustomProfiles } from '../services/journalProfileService';
+import { X, SlidersHorizontal, Copy, Trash2, Upload, Download, Lock, Check, AlertTriangle } from 'lucide-react';
+
+interface JournalProfilesModalProps {
+  active: JournalProfile;
+  onUse: (profile: JournalProfile) => void;
+  onDownload: (profile: JournalProfile) => void;
+  onClose: () => void;
+}
+
+type CountField = 'wordLimit' | 'maxFigures' | 'maxTables' | 'maxReferences';
+type RangeField = 'abstractWords' | 'keywords';
+type ListField = 'abstractStructure' | 'requiredSections';
+
+const inputClass = 'w-full text-sm p-2 border border-slate-300 rounded-md outline-none focus:ring-2 focus:ring-indigo-500 disabled:bg-slate-50 disabled:text-slate-500';
+const labelClass = 'block text-xs font-semibold text-slate-600 mb-1';
+
+const JournalProfilesModal: React.FC<JournalProfilesModalProps> = ({ active, onUse, onDownload, onClose }) => {
+  const [custom, setCustom] = useState<JournalProfile[]>(getCustomProfiles);
+  const [selectedId, setSelectedId] = useState(active.id);
+  // Unsaved edits to the selected custom profile.
+  const [draft, setDraft] = useState<JournalProfile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const profiles = [...BUILT_IN_PROFILES, ...custom];
+  // The manuscript's own copy stands in when its profile is not saved in this browser.
+  const stored = profiles.find(p => p.id === selectedId) || (selectedId === active.id ? active : profiles[0]);
+  const profile = draft && draft.id === stored.id ? draft : stored;
+  const readOnly = !!profile.builtIn || !custom.some(p => p.id === profile.id);
+  const inUse = profile.id === active.id && JSON.stringify(profile) === JSON.stringify(active);
+
+  const select = (id: string) => {
+    if (draft && !window.confirm('Discard your unsaved changes to this profile?')) return;
+    setSelectedId(id);
+    setDraft(null);
+    setError(null);
+  };
+
+  const update = (patch: Partial<JournalProfile>) => setDraft({ ...profile, ...patch });
+
+  const persist = (next: JournalProfile[]) => {
+    saveCustomProfiles(next);
+    setCustom(next);
+  };
+
+  const addCopy = (profile: JournalProfile) => {
+    const copy = normalizeProfile(profile);
+    persist([...custom, copy]);
+    setSelectedId(copy.id);
+    setDraft(null);
+    setError(null);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    let saved: JournalProfile;
+    try {
+      saved = normalizeProfile(draft);
+    } catch (e) {
+      setError((e as Error).message);
+      return;
+    }
+    persist(custom.map(p => p.id === saved.id ? saved : p));
+    setDraft(null);
+    setError(null);
+    // The manuscript holds a copy of its profile, so edits to the one in use are applied to it as well.
+    if (saved.id === active.id) onUse(saved);
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete the profile "${profile.name}"? Manuscripts that use it keep their own copy.`)) return;
+    persist(custom.filter(p => p.id !== profile.id));
+    setSelectedId(active.id === profile.id ? BUILT_IN_PROFILES[0].id : active.id);
+    setDraft(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires onChange.
+    e.target.value = '';
+    if (!file) return;
+    try {
+      addCopy(importProfile(await file.text()));
+    } catch (err) {
+      setError(`Could not import ${file.name}: ${(err as Error).message}`);
+    }
+  };
+
+  const count = (field: CountField, label: string) => (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <input type="number" min={1} value={profile[field] ?? ''} disabled={readOnly} placeholder="No limit"
+        onChange={(e) => update({ [field]: e.target.value === '' ? undefined : Number(e.target.value) })} className={inputClass} />
+    </div>
+  );
+
+  const range = (field: RangeField, label: string) => {
+    const [lo, hi] = profile[field] || [];
+    const set = (index: 0 | 1, value: string) => {
+      const next: (number | undefined)[] = [lo, hi];
+      next[index] = value === '' ? undefined : Number(value);
+      update({ [field]: next[0] === undefined && next[1] === undefined ? undefined : [next[0] ?? 0, next[1] ?? 0] });
+    };
+    return (
+      <div>
+        <label className={labelClass}>{label}</label>
+        <div className="flex items-center gap-2">
+          <input type="number" min={0} value={lo ?? ''} disabled={readOnly} placeholder="Min" onChange={(e) => set(0, e.target.value)} className={inputClass} />
+          <span className="text-slate-400">–</span>
+          <input type="number" min={0} value={hi ?? ''} disabled={readOnly} placeholder="Max" onChange={(e) => set(1, e.target.value)} className={inputClass} />
+        </div>
+      </div>
+    );
+  };
+
+  const list = (field: ListField, label: string, hint: string) => (
+    <div>
+      <label className={labelClass}>{label} <span className="font-normal text-slate-400">({hint})</span></label>
+      <textarea rows={4} value={profile[field].join('\n')} disabled={readOnly}
+        onChange={(e) => update({ [field]: e.target.value.split('\n') })} className={`${inputClass} font-mono text-xs`} />
+    </div>
+  );
+
+  const setTemplate = (patch: Partial<JournalProfile['template']>) => update({ template: { ...profile.template, ...patch } });
+
+  const flag = (key: 'titlePage' | 'lineNumbers' | 'floatsAtEnd' | 'numberedHeadings' | 'hangingReferences', label: string) => (
+    <label className="flex items-center gap-2 text-xs text-slate-700">
+      <input type="checkbox" checked={profile.template[key]} disabled={readOnly} onChange={(e) => setTemplate({ [key]: e.target.checked })} className="accent-indigo-600" /> {label}
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-4xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 bg-slate-900 text-white flex justify-between items-center">
+          <h3 className="text-xl font-bold flex items-center gap-2"><SlidersHorizontal className="w-5 h-5 text-indigo-400" /> Journal Profiles</h3>
+          <button onClick={onClose}><X className="w-6 h-6" /></button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <div className="w-56 shrink-0 border-r border-slate-200 p-3 space-y-1 overflow-y-auto">
+            {[...profiles, ...(profiles.some(p => p.id === active.id) ? [] : [active])].map(p => (
+              <button key={p.id} onClick={() => select(p.id)} className={`w-full text-left px-3 py-2 rounded-lg text-sm flex items-center gap-2 ${p.id === profile.id ? 'bg-indigo-50 text-indigo-700 font-semibold' : 'text-slate-700 hover:bg-slate-50'}`}>
+                <span className="flex-1 truncate" title={p.name}>{p.name}</span>
+                {p.builtIn && <Lock className="w-3 h-3 text-slate-300 shrink-0" />}
+                {p.id === active.id && <Check className="w-3.5 h-3.5 text-green-600 shrink-0" />}
+              </button>
+            ))}
+            <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+            <button onClick={() => fileInputRef.current?.click()} className="w-full mt-2 py-2 border-2 border-dashed border-indigo-200 rounded-lg text-xs font-bold text-indigo-700 flex items-center justify-center gap-1.5 hover:bg-indigo-50">
+              <Upload className="w-3.5 h-3.5" /> Import JSON
+            </button>
+          </div>
+
+          <div className="flex-1 p-6 space-y-5 overflow-y-auto">
+            <div className="flex items-center gap-2">
+              <input value={profile.name} disabled={readOnly} onChange={(e) => update({ name: e.target.value })} className={`${inputClass} text-base font-bold`} />
+              <button onClick={() => addCopy(copyProfile(profile))} className="p-2 text-slate-500 hover:text-indigo-600" title="Duplicate"><Copy className="w-4 h-4" /></button>
+              <button onClick={() => onDownload(profile)} className="p-2 text-slate-500 hover:text-indigo-600" title="Export as JSON"><Download className="w-4 h-4" /></button>
+              {!readOnly && <button onClick={handleDelete} className="p-2 text-slate-500 hover:text-red-600" title="Delete"><Trash2 className="w-4 h-4" /></button>}
+            </div>
+            {readOnly && (
+              <div className="bg-slate-50 border border-slate-200 rounded-lg p-3 text-xs text-slate-600 flex items-center justify-between gap-3">
+                <span>{profile.builtIn ? 'Built-in profiles cannot be changed.' : 'This profile came with the manuscript and is not saved in this browser.'} Duplicate it to make your own version.</span>
+                <button onClick={() => addCopy(profile.builtIn ? copyProfile(profile) : profile)} className="shrink-0 px-3 py-1.5 bg-white border border-slate-300 rounded-md font-semibold text-slate-700 hover:border-indigo-300 flex items-center gap-1.5">
+                  <Copy className="w-3 h-3" /> {profile.builtIn ? 'Duplicate to edit' : 'Save a copy'}
+                </button>
+              </div>
+            )}
+            {error && <div className="bg-red-50 border border-red-100 rounded-lg p-3 text-xs text-red-700 flex items-start gap-2"><AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" /> {error}</div>}
+
+            <div>
+              <h4 className="text-xs font-bold uppercase tracking-wider text-slate-500 mb-3">Length & Structure</h4>
+              <div className="grid grid-cols-2 gap-3">
+                {count('wordLimit', 'Body word limit')}
+                {range('abstractWords', 'Abstract words')}
+                {list('requiredSections', 'Required sections', 'one per line, in order')}
+                {list('abstractStructure', 'Abstract headings', 'one per line; empty for unstructured')}
+                {range('keywords', 'Keywords')}
+                {count('maxReferences', 'Max references')}
+                {count('maxFigures', 'Max figures')}
+                {count('maxTables', 'Max tables')}
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-xs font-bold uppercase tracking-wider text-slate-500 mb-3">References & Layout</h4>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClass}>Reference style</label>
+                  <select value={profile.referenceStyle} disabled={readOnly} onChange={(e) => update({ referenceStyle: e.target.value as ReferenceStyle })} className={`${inputClass} bg-white`}>
+                    {(Object.keys(REFERENCE_STYLE_LABELS) as ReferenceStyle[]).map(s => <option key={s} value={s}>{REFERENCE_STYLE_LABELS[s]}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Reference list title</label>
+                  <input value={profile.template.referencesTitle} disabled={readOnly} onChange={(e) => setTemplate({ referencesTitle: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Font</label>
+                  <div className="flex gap-2">
+                    <input value={profile.template.font} disabled={readOnly} onChange={(e) => setTemplate({ font: e.target.value })} className={inputClass} />
+                    <input type="number" min={8} max={16} value={profile.template.fontSizePt} disabled={readOnly} onChange={(e) => setTemplate({ fontSizePt: Number(e.target.value) })} className={`${inputClass} w-20`} title="Size in points" />
+                  </div>
+                </div>
+                <div>
+                  <label className={labelClass}>Line spacing</label>
+                  <select value={profile.template.lineSpacing} disabled={readOnly} onChange={(e) => setTemplate({ lineSpacing: Number(e.target.value) as 1 | 1.5 | 2 })} className={`${inputClass} bg-white`}>
+                    <option value={1}>Single</option>
+                    <option value={1.5}>1.5</option>
+                    <option value={2}>Double</option>
+                  </select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2 mt-3">
+                {flag('titlePage', 'Separate title page')}
+                {flag('lineNumbers', 'Line numbers')}
+                {flag('floatsAtEnd', 'Tables and figures at the end')}
+                {flag('hangingReferences', 'Hanging indent in references')}
+                {flag('numberedHeadings', 'Numbered headings')}
+                <label className="flex items-center gap-2 text-xs text-slate-700">
+                  <input type="checkbox" checked={profile.template.headingCase === 'upper'} disabled={readOnly} onChange={(e) => setTemplate({ headingCase: e.target.checked ? 'upper' : 'title' })} className="accent-indigo-600" /> Upper-case headings
+                </label>
+              </div>
+            </div>
+            <p className="text-[11px] text-slate-400">Expected section shares of the body are kept when you edit here; change them in the exported JSON.</p>
+          </div>
+        </div>
+
+        <div className="p-6 bg-slate-50 flex gap-3">
+          <button onClick={onClose} className="flex-1 py-3 text-sm font-bold text-slate-500">Close</button>
+          {draft ? (
+            <button onClick={handleSave} className="flex-[2] py-3 bg-indigo-600 text-white text-sm font-bold rounded-xl shadow-lg">Save Profile</button>
+          ) : (
+            <button onClick={() => { onUse(profile); onClose(); }} disabled={inUse} className="flex-[2] py-3 bg-indigo-600 text-white text-sm font-bold rounded-xl shadow-lg disabled:opacity-40">
+              {inUse ? 'In Use for This Manuscript' : profile.id === active.id ? 'Update This Manuscript\'s Copy' : 'Use for This Manuscript'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default JournalProfilesModal;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { Manuscript } from '../types';
+import { resolveProfile } from '../services/journalProfileService';
+import { X, FolderOpen, Plus, Copy, Trash2, FileText } from 'lucide-react';
+
+interface ProjectsModalProps {
+  manuscripts: Manuscript[];
+  activeId: string | null;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const countWords = (m: Manuscript) => m.sections.reduce((n, s) => n + s.content.split(/\s+/).filter(Boolean).length, 0);
+
+const ProjectsModal: React.FC<ProjectsModalProps> = ({ manuscripts, activeId, onOpen, onCreate, onDuplicate, onDelete, onClose }) => {
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 bg-slate-900 text-white flex justify-between items-center">
+          <h3 className="text-xl font-bold flex items-center gap-2"><FolderOpen className="w-5 h-5 text-indigo-400" /> Manuscripts</h3>
+          <button onClick={onClose}><X className="w-6 h-6" /></button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-1 space-y-2">
+          {manuscripts.length === 0 && (
+            <div className="text-center py-10 text-slate-400 text-sm">No saved manuscripts yet.</div>
+          )}
+          {manuscripts.map(m => (
+            <div key={m.id} className={`flex items-center gap-3 p-3 rounded-xl border transition-all ${m.id === activeId ? 'border-indigo-300 bg-indigo-50/50' : 'border-slate-200 hover:border-indigo-200'}`}>
+              <FileText className={`w-5 h-5 shrink-0 ${m.id === activeId ? 'text-indigo-500' : 'text-slate-400'}`} />
+              <button onClick={() => onOpen(m.id)} className="flex-1 text-left min-w-0">
+                <div className="text-sm font-bold text-slate-800 truncate">{m.title || 'Untitled Manuscript'}</div>
+                <div className="text-[10px] text-slate-500">
+                  {m.sections.length} sections · {countWords(m)} words · {resolveProfile(m.journal).name} · edited {new Date(m.updatedAt).toLocaleString()}
+                </div>
+              </button>
+              {m.id === activeId && <span className="text-[9px] font-black uppercase tracking-widest text-indigo-500">Open</span>}
+              <button onClick={() => onDuplicate(m.id)} className="p-2 text-slate-400 hover:text-indigo-600" title="Duplicate"><Copy className="w-4 h-4" /></button>
+              <button
+                onClick={() => { if (confirm(`Delete "${m.title || 'Untitled Manuscript'}"? This cannot be undone.`)) onDelete(m.id); }}
+                className="p-2 text-slate-400 hover:text-red-500"
+                title="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-6 bg-slate-50 flex gap-3">
+          <button onClick={onClose} className="flex-1 py-3 text-sm font-bold text-slate-500">Close</button>
+          <button onClick={onCreate} className="flex-[2] py-3 bg-indigo-600 text-white text-sm font-bold rounded-xl shadow-lg flex items-center justify-center gap-2"><Plus className="w-4 h-4" /> New Manuscript</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectsModal;
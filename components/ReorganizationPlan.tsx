@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { ReorganizationStep } from '../types';
+import { describeAction, TOOL_LABELS } from '../services/agentToolService';
+import { OutlineEntry, PlanPreview, withManualMove } from '../services/reorganizationService';
+import { GripVertical, LayoutTemplate, AlertTriangle, X, Check } from 'lucide-react';
+
+interface ReorganizationPlanProps {
+  steps: ReorganizationStep[];
+  preview: PlanPreview;
+  loading: boolean;
+  onChange: (steps: ReorganizationStep[]) => void;
+  onApply: () => void;
+}
+
+const OutlineItem: React.FC<{ entry: OutlineEntry, index: number }> = ({ entry, index }) => (
+  <>
+    <span className="text-slate-400 tabular-nums">{index + 1}.</span>
+    <span className={`flex-1 truncate ${entry.isNew ? 'text-green-700 font-semibold' : entry.changed ? 'text-indigo-700 font-semibold' : 'text-slate-700'}`} title={entry.title}>{entry.title}</span>
+    <span className="text-[9px] text-slate-400 tabular-nums shrink-0">{entry.words}w</span>
+  </>
+);
+
+const ReorganizationPlan: React.FC<ReorganizationPlanProps> = ({ steps, preview, loading, onChange, onApply }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const pending = steps.filter(s => s.status === 'pending' && !s.excluded);
+  const runnable = pending.filter(s => !preview.errors[s.id]);
+  const update = (id: string, patch: Partial<ReorganizationStep>) => onChange(steps.map(s => s.id === id ? { ...s, ...patch } : s));
+
+  // Dropping a section onto a row puts it in that row's place, after whatever now precedes it.
+  const handleDrop = (to: number) => {
+    if (dragIndex !== null && dragIndex !== to) {
+      const titles = preview.after.map(e => e.title);
+      const [moved] = titles.splice(dragIndex, 1);
+      titles.splice(to, 0, moved);
+      onChange(withManualMove(steps, moved, to === 0 ? null : titles[to - 1]));
+    }
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="bg-white border border-slate-200 rounded-lg p-2">
+          <div className="text-[9px] font-bold uppercase tracking-widest text-slate-400 mb-1.5">Now</div>
+          <ol className="space-y-0.5">
+            {preview.before.map((entry, i) => <li key={i} className="flex items-center gap-1.5 text-[11px] px-1 py-0.5"><OutlineItem entry={entry} index={i} /></li>)}
+          </ol>
+        </div>
+        <div className="bg-white border border-indigo-200 rounded-lg p-2">
+          <div className="text-[9px] font-bold uppercase tracking-widest text-indigo-500 mb-1.5" title="Drag a section to adjust the plan">After · drag to adjust</div>
+          <ol className="space-y-0.5">
+            {preview.after.map((entry, i) => (
+              <li
+                key={`${entry.title}-${i}`}
+                draggable={!loading}
+                onDragStart={() => setDragIndex(i)}
+                onDragOver={(e) => { e.preventDefault(); setOverIndex(i); }}
+                onDragEnd={() => { setDragIndex(null); setOverIndex(null); }}
+                onDrop={(e) => { e.preventDefault(); handleDrop(i); }}
+                className={`flex items-center gap-1 text-[11px] px-1 py-0.5 rounded cursor-grab active:cursor-grabbing ${dragIndex === i ? 'opacity-40' : ''} ${overIndex === i && dragIndex !== i ? 'bg-indigo-50 ring-1 ring-indigo-300' : 'hover:bg-slate-50'}`}
+              >
+                <GripVertical className="w-3 h-3 text-slate-300 shrink-0" />
+                <OutlineItem entry={entry} index={i} />
+              </li>
+            ))}
+          </ol>
+        </div>
+      </div>
+
+      <h3 className="text-xs font-bold uppercase tracking-wider text-slate-500 px-1 flex items-center gap-1.5">
+        <LayoutTemplate className="w-3 h-3" /> Plan ({steps.length} step{steps.length === 1 ? '' : 's'})
+      </h3>
+      {steps.map((step, i) => {
+        const error = step.status === 'pending' && !step.excluded ? preview.errors[step.id] : undefined;
+        return (
+          <div key={step.id} className={`bg-white p-3 rounded-lg border shadow-sm transition-all ${step.excluded ? 'border-slate-200 opacity-60' : error ? 'border-amber-200' : 'border-slate-200'}`}>
+            <div className="flex items-start gap-2">
+              {step.status === 'pending' && (
+                <input type="checkbox" checked={!step.excluded} disabled={loading} onChange={() => update(step.id, { excluded: !step.excluded })} className="mt-0.5 shrink-0 accent-indigo-600" title="Include in the plan" />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="text-[9px] font-bold uppercase tracking-wider text-slate-400">
+                  {i + 1} · {TOOL_LABELS[step.tool]}{step.paragraph ? ` · ¶${step.paragraph}` : ''}{step.manual ? ' · your adjustment' : ''}
+                </div>
+                <div className={`text-xs font-semibold text-slate-800 ${step.excluded ? 'line-through' : ''}`}>{describeAction(step)}</div>
+              </div>
+              {step.status === 'applied' && <span className="text-[9px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded bg-green-50 text-green-700 flex items-center gap-1 shrink-0"><Check className="w-2.5 h-2.5" /> Applied</span>}
+              {step.status === 'failed' && <span className="text-[9px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded bg-red-50 text-red-600 shrink-0">Failed</span>}
+              {step.manual && step.status === 'pending' && (
+                <button onClick={() => onChange(steps.filter(s => s.id !== step.id))} className="p-1 -m-1 text-slate-300 hover:text-red-500 shrink-0" title="Remove this adjustment"><X className="w-3.5 h-3.5" /></button>
+              )}
+            </div>
+            {step.summary && <p className="text-[11px] text-slate-500 mt-1 leading-relaxed">{step.summary}</p>}
+            {(error || step.result) && (
+              <p className={`text-[11px] mt-1 flex items-start gap-1 ${step.status === 'failed' ? 'text-red-600' : 'text-amber-700'}`}>
+                <AlertTriangle className="w-3 h-3 shrink-0 mt-0.5" /> {error ? `Will be skipped: ${error}` : step.result}
+              </p>
+            )}
+          </div>
+        );
+      })}
+
+      {pending.length > 0 && (
+        <button onClick={onApply} disabled={loading || runnable.length === 0} className="w-full py-2 text-xs bg-indigo-600 text-white rounded font-semibold flex items-center justify-center gap-2 disabled:opacity-40">
+          <Check className="w-3 h-3" /> Apply {runnable.length === steps.length ? 'Plan' : `${runnable.length} of ${steps.length} Steps`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ReorganizationPlan;
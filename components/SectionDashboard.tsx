@@ -0,0 +1,97 @@
+import React, { useMemo } from 'react';
+import { BibEntry, JournalProfile, PaperSection } from '../types';
+import { computeSectionMetrics, SectionMetricKey, SectionMetrics } from '../services/sectionMetricsService';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { X, BarChart3, AlertTriangle, Info, CheckCircle } from 'lucide-react';
+
+interface SectionDashboardProps {
+  sections: PaperSection[];
+  bibliography: BibEntry[];
+  journal: JournalProfile;
+  onSelectSection: (id: string) => void;
+  onClose: () => void;
+}
+
+const CHARTS: { key: SectionMetricKey, title: string, unit: string }[] = [
+  { key: 'wordCount', title: 'Word count', unit: 'words' },
+  { key: 'readability', title: 'Readability (Flesch)', unit: '' },
+  { key: 'meanSentenceLength', title: 'Avg sentence length', unit: 'words' },
+  { key: 'passiveRatio', title: 'Passive voice', unit: '% of sentences' },
+  { key: 'hedgeDensity', title: 'Hedge words', unit: 'per 100 words' },
+  { key: 'citationDensity', title: 'Citations', unit: 'per 100 words' }
+];
+
+const barColor = (row: SectionMetrics, key: SectionMetricKey) => {
+  const flag = row.flags.find(f => f.metric === key);
+  return !flag ? '#6366f1' : flag.severity === 'warning' ? '#ef4444' : '#f59e0b';
+};
+
+const shortTitle = (title: string) => title.length > 14 ? `${title.substring(0, 13)}…` : title;
+
+const SectionDashboard: React.FC<SectionDashboardProps> = ({ sections, bibliography, journal, onSelectSection, onClose }) => {
+  const rows = useMemo(() => computeSectionMetrics(sections, bibliography, journal), [sections, bibliography, journal]);
+  const flagged = rows.filter(r => r.flags.length > 0);
+  const totalWords = rows.reduce((n, r) => n + r.wordCount, 0);
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-5xl overflow-hidden flex flex-col h-[85vh]">
+        <div className="p-6 bg-slate-900 text-white flex justify-between items-center shrink-0">
+          <div>
+            <h3 className="text-xl font-bold flex items-center gap-2"><BarChart3 className="w-5 h-5 text-indigo-400" /> Section Analytics</h3>
+            <p className="text-[10px] text-slate-400 mt-1">{rows.length} sections · {totalWords} words · norms for {journal.name}</p>
+          </div>
+          <button onClick={onClose}><X className="w-6 h-6" /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {CHARTS.map(chart => (
+              <div key={chart.key} className="border border-slate-200 rounded-xl p-4">
+                <div className="flex items-baseline justify-between mb-2">
+                  <h4 className="text-sm font-semibold text-slate-700">{chart.title}</h4>
+                  <span className="text-[10px] text-slate-400">{chart.unit}</span>
+                </div>
+                <div className="h-40">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={rows.map(r => ({ name: shortTitle(r.title), value: chart.key === 'passiveRatio' ? Math.round(r.passiveRatio * 100) : r[chart.key] }))}>
+                      <XAxis dataKey="name" tick={{ fontSize: 10 }} interval={0} />
+                      <YAxis tick={{ fontSize: 10 }} width={36} />
+                      <Tooltip formatter={(value) => [`${value} ${chart.unit}`.trim(), chart.title]} />
+                      <Bar dataKey="value" radius={[4, 4, 0, 0]}>
+                        {rows.map(r => <Cell key={r.sectionId} fill={barColor(r, chart.key)} />)}
+                      </Bar>
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <h4 className="text-xs font-bold uppercase tracking-wider text-slate-500 mb-2">Outside journal norms</h4>
+            {flagged.length === 0 ? (
+              <div className="flex items-center gap-2 text-sm text-green-600 p-3 bg-green-50 rounded-xl"><CheckCircle className="w-4 h-4" /> Every section is within the usual ranges for {journal.name}.</div>
+            ) : (
+              <div className="space-y-2">
+                {flagged.map(r => (
+                  <button key={r.sectionId} onClick={() => onSelectSection(r.sectionId)} className="w-full text-left border border-slate-200 rounded-xl p-3 hover:border-indigo-300 transition-all">
+                    <div className="text-xs font-bold text-slate-800 mb-1">{r.title}</div>
+                    {r.flags.map((f, i) => (
+                      <div key={i} className="flex items-start gap-2 text-xs text-slate-600">
+                        {f.severity === 'warning' ? <AlertTriangle className="w-3.5 h-3.5 text-red-500 shrink-0 mt-0.5" /> : <Info className="w-3.5 h-3.5 text-amber-500 shrink-0 mt-0.5" />}
+                        <span><span className="font-semibold">{CHARTS.find(c => c.key === f.metric)?.title}:</span> {f.message}</span>
+                      </div>
+                    ))}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SectionDashboard;
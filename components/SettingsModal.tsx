@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { LLMProviderId, LLMSettings, LLMTask } from '../types';
+import { PROVIDER_LABELS, TASK_LABELS } from '../services/llmProvider';
+import { DEFAULT_LLM_SETTINGS, MODEL_COMPLEX, MODEL_FAST } from '../services/settingsService';
+import { X, Cpu, RotateCcw } from 'lucide-react';
+
+interface SettingsModalProps {
+  settings: LLMSettings;
+  onSave: (settings: LLMSettings) => void;
+  onClose: () => void;
+}
+
+const MODEL_SUGGESTIONS: Record<LLMProviderId, string[]> = {
+  gemini: [MODEL_COMPLEX, MODEL_FAST],
+  openai: ['gpt-4o', 'gpt-4o-mini', 'llama3.1:8b', 'qwen2.5:14b'],
+  mock: ['fixtures']
+};
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<LLMSettings>(settings);
+
+  const updateTask = (task: LLMTask, patch: Partial<LLMSettings['tasks'][LLMTask]>) => {
+    setDraft(prev => {
+      const current = prev.tasks[task];
+      const next = { ...current, ...patch };
+      // Switching provider invalidates the model name, so fall back to that provider's first suggestion.
+      if (patch.provider && patch.provider !== current.provider) next.model = MODEL_SUGGESTIONS[patch.provider][0];
+      return { ...prev, tasks: { ...prev.tasks, [task]: next } };
+    });
+  };
+
+  const usesProvider = (id: LLMProviderId) => (Object.keys(draft.tasks) as LLMTask[]).some(t => draft.tasks[t].provider === id);
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 bg-slate-900 text-white flex justify-between items-center">
+          <h3 className="text-xl font-bold flex items-center gap-2"><Cpu className="w-5 h-5 text-indigo-400" /> AI Providers</h3>
+          <button onClick={onClose}><X className="w-6 h-6" /></button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div>
+            <h4 className="text-xs font-bold uppercase tracking-wider text-slate-500 mb-3">Provider & Model per Task</h4>
+            <div className="space-y-3">
+              {(Object.keys(TASK_LABELS) as LLMTask[]).map(task => (
+                <div key={task} className="grid grid-cols-1 md:grid-cols-3 gap-2 items-center">
+                  <span className="text-sm font-semibold text-slate-700">{TASK_LABELS[task]}</span>
+                  <select
+                    value={draft.tasks[task].provider}
+                    onChange={(e) => updateTask(task, { provider: e.target.value as LLMProviderId })}
+                    className="text-sm p-2 border border-slate-300 rounded-md bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                  >
+                    {(Object.keys(PROVIDER_LABELS) as LLMProviderId[]).map(p => <option key={p} value={p}>{PROVIDER_LABELS[p]}</option>)}
+                  </select>
+                  <input
+                    list={`models-${draft.tasks[task].provider}`}
+                    value={draft.tasks[task].model}
+                    disabled={draft.tasks[task].provider === 'mock'}
+                    onChange={(e) => updateTask(task, { model: e.target.value })}
+                    className="text-sm p-2 border border-slate-300 rounded-md font-mono focus:ring-2 focus:ring-indigo-500 outline-none disabled:bg-slate-100 disabled:text-slate-400"
+                  />
+                </div>
+              ))}
+            </div>
+            {(Object.keys(MODEL_SUGGESTIONS) as LLMProviderId[]).map(p => (
+              <datalist key={p} id={`models-${p}`}>{MODEL_SUGGESTIONS[p].map(m => <option key={m} value={m} />)}</datalist>
+            ))}
+          </div>
+
+          {usesProvider('gemini') && (
+            <div className="space-y-2">
+              <h4 className="text-xs font-bold uppercase tracking-wider text-slate-500">Google Gemini</h4>
+              <label className="block text-xs font-semibold text-slate-600">API Key <span className="font-normal text-slate-400">(leave blank to use GEMINI_API_KEY from .env.local)</span></label>
+              <input type="password" value={draft.gemini.apiKey} onChange={(e) => setDraft({ ...draft, gemini: { apiKey: e.target.value } })} className="w-full text-sm p-2 border border-slate-300 rounded-md font-mono outline-none focus:ring-2 focus:ring-indigo-500" />
+            </div>
+          )}
+
+          {usesProvider('openai') && (
+            <div className="space-y-2">
+              <h4 className="text-xs font-bold uppercase tracking-wider text-slate-500">OpenAI-compatible Endpoint</h4>
+              <label className="block text-xs font-semibold text-slate-600">Base URL <span className="font-normal text-slate-400">(OpenAI, institutional gateway, Ollama or llama.cpp server)</span></label>
+              <input value={draft.openai.baseUrl} onChange={(e) => setDraft({ ...draft, openai: { ...draft.openai, baseUrl: e.target.value } })} placeholder="http://localhost:11434/v1" className="w-full text-sm p-2 border border-slate-300 rounded-md font-mono outline-none focus:ring-2 focus:ring-indigo-500" />
+              <label className="block text-xs font-semibold text-slate-600">API Key <span className="font-normal text-slate-400">(optional for local servers)</span></label>
+              <input type="password" value={draft.openai.apiKey} onChange={(e) => setDraft({ ...draft, openai: { ...draft.openai, apiKey: e.target.value } })} className="w-full text-sm p-2 border border-slate-300 rounded-md font-mono outline-none focus:ring-2 focus:ring-indigo-500" />
+            </div>
+          )}
+
+          {usesProvider('mock') && (
+            <div className="bg-amber-50 border border-amber-100 rounded-lg p-3 text-xs text-amber-900">
+              The offline demo provider answers from built-in fixtures. Results are deterministic and make no network calls.
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 bg-slate-50 flex gap-3">
+          <button onClick={() => setDraft(DEFAULT_LLM_SETTINGS)} className="py-3 px-4 text-sm font-bold text-slate-500 flex items-center gap-2"><RotateCcw className="w-4 h-4" /> Defaults</button>
+          <button onClick={onClose} className="flex-1 py-3 text-sm font-bold text-slate-500">Cancel</button>
+          <button onClick={() => onSave(draft)} className="flex-[2] py-3 bg-indigo-600 text-white text-sm font-bold rounded-xl shadow-lg">Save Settings</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
@@ -1,5 +1,5 @@
 
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { 
   FileText, 
   ShieldAlert, 
@@ -11,9 +11,20 @@ import {
   MessageSquare,
   ChevronRight,
   Hash,
-  Search
+  Search,
+  BookCheck,
+  Plus,
+  Pencil,
+  Trash2,
+  Scissors,
+  Merge,
+  GripVertical,
+  ListIndentIncrease,
+  ListIndentDecrease
 } from 'lucide-react';
 import { EditorMode, PaperSection } from '../types';
+import { MAX_LEVEL, sectionLevel, wordCount } from '../services/outlineService';
+import { flattenText } from '../services/suggestionService';
 
 interface SidebarProps {
   currentMode: EditorMode;
@@ -23,6 +34,15 @@ interface SidebarProps {
   sections: PaperSection[];
   activeSectionId: string;
   setActiveSectionId: (id: string) => void;
+  // Outline edits; the ones that create a section return its id so it opens for renaming.
+  onAddSection: (afterId?: string) => string | undefined;
+  onRenameSection: (id: string, title: string) => void;
+  onDeleteSection: (id: string) => void;
+  onMoveSection: (id: string, targetId: string, place: 'before' | 'after') => void;
+  onShiftSection: (id: string, delta: 1 | -1) => void;
+  onSplitSection: (id: string) => string | undefined;
+  onMergeWithNext: (id: string) => void;
+  engineLabel: string;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ 
@@ -32,8 +52,21 @@ const Sidebar: React.FC<SidebarProps> = ({
   setIsOpen, 
   sections, 
   activeSectionId, 
-  setActiveSectionId 
+  setActiveSectionId,
+  onAddSection,
+  onRenameSection,
+  onDeleteSection,
+  onMoveSection,
+  onShiftSection,
+  onSplitSection,
+  onMergeWithNext,
+  engineLabel
 }) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string, place: 'before' | 'after' } | null>(null);
+  const words = useMemo(() => new Map(sections.map(s => [s.id, wordCount(flattenText(s.content, 'accepted'))])), [sections]);
+
   const menuItems = [
     { mode: EditorMode.WRITE, icon: FileText, label: 'Write & Edit' },
     { mode: EditorMode.AGENT, icon: MessageSquare, label: 'Paper Agent' },
@@ -41,6 +74,7 @@ const Sidebar: React.FC<SidebarProps> = ({
     { mode: EditorMode.DE_AI, icon: ShieldAlert, label: 'De-AI Detector' },
     { mode: EditorMode.REVIEW, icon: Glasses, label: 'AI Peer Review' },
     { mode: EditorMode.FORMAT, icon: Settings2, label: 'Format Check' },
+    { mode: EditorMode.CITATIONS, icon: BookCheck, label: 'Citation Check' },
     { mode: EditorMode.REORGANIZE, icon: LayoutTemplate, label: 'Reorganize' },
   ];
 
@@ -104,35 +138,93 @@ const Sidebar: React.FC<SidebarProps> = ({
         <div className="flex-1 flex flex-col overflow-hidden min-h-0">
           <div className={`px-4 py-2 text-[10px] font-bold text-slate-500 uppercase tracking-widest flex items-center justify-between ${!isOpen && 'hidden'}`}>
              <span>Paper Structure</span>
-             <span className="bg-slate-800 px-1.5 py-0.5 rounded text-slate-400 font-mono">{sections.length}</span>
+             <div className="flex items-center gap-1.5">
+               <span className="bg-slate-800 px-1.5 py-0.5 rounded text-slate-400 font-mono">{sections.length}</span>
+               <button onClick={() => { const id = onAddSection(); if (id) setRenamingId(id); }} className="p-0.5 text-slate-500 hover:text-indigo-400" title="Add section"><Plus className="w-3.5 h-3.5" /></button>
+             </div>
           </div>
           
           <div className={`flex-1 overflow-y-auto py-2 no-scrollbar ${!isOpen && 'hidden md:block'}`}>
-            {sections.map((section) => (
-              <button
-                key={section.id}
-                onClick={() => {
-                  setActiveSectionId(section.id);
-                  if (currentMode !== EditorMode.WRITE) setMode(EditorMode.WRITE);
-                }}
-                className={`
-                  w-full flex items-center px-4 py-2.5 group transition-all
-                  ${activeSectionId === section.id 
-                    ? 'text-white bg-slate-900' 
-                    : 'text-slate-500 hover:text-slate-200 hover:bg-slate-900/50'}
-                `}
-              >
-                {isOpen ? (
-                  <>
-                    <Hash className={`w-3.5 h-3.5 mr-3 shrink-0 ${activeSectionId === section.id ? 'text-indigo-500' : 'text-slate-600'}`} />
-                    <span className="text-xs font-medium truncate flex-1 text-left">{section.title}</span>
-                    {activeSectionId === section.id && <ChevronRight className="w-3.5 h-3.5 text-indigo-500" />}
-                  </>
-                ) : (
-                  <div className={`w-1.5 h-1.5 rounded-full mx-auto ${activeSectionId === section.id ? 'bg-indigo-500 scale-150' : 'bg-slate-700'}`}></div>
-                )}
-              </button>
-            ))}
+            {sections.map((section, index) => {
+              const isActive = activeSectionId === section.id;
+              const level = sectionLevel(section);
+              const editable = !section.generated;
+              const next = sections[index + 1];
+              const drop = dropTarget?.id === section.id && dragId !== section.id ? dropTarget.place : null;
+              return (
+                <div key={section.id}>
+                  <div
+                    role="button"
+                    tabIndex={0}
+                    draggable={isOpen && editable && renamingId !== section.id}
+                    onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; setDragId(section.id); }}
+                    onDragOver={(e) => {
+                      if (!dragId) return;
+                      e.preventDefault();
+                      const rect = e.currentTarget.getBoundingClientRect();
+                      // Nothing goes below the generated References.
+                      const place = section.generated || e.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+                      if (dropTarget?.id !== section.id || dropTarget.place !== place) setDropTarget({ id: section.id, place });
+                    }}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      if (dragId && dropTarget && dragId !== dropTarget.id) onMoveSection(dragId, dropTarget.id, dropTarget.place);
+                      setDragId(null);
+                      setDropTarget(null);
+                    }}
+                    onDragEnd={() => { setDragId(null); setDropTarget(null); }}
+                    onClick={() => {
+                      setActiveSectionId(section.id);
+                      if (currentMode !== EditorMode.WRITE) setMode(EditorMode.WRITE);
+                    }}
+                    onKeyDown={(e) => { if (e.key === 'Enter' && renamingId !== section.id) setActiveSectionId(section.id); }}
+                    className={`
+                      w-full flex items-center py-2.5 pr-4 group transition-all cursor-pointer border-y-2
+                      ${drop === 'before' ? 'border-t-indigo-500' : 'border-t-transparent'} ${drop === 'after' ? 'border-b-indigo-500' : 'border-b-transparent'}
+                      ${dragId === section.id ? 'opacity-40' : ''}
+                      ${isActive 
+                        ? 'text-white bg-slate-900' 
+                        : 'text-slate-500 hover:text-slate-200 hover:bg-slate-900/50'}
+                    `}
+                    style={isOpen ? { paddingLeft: `${(level - 1) * 14 + 8}px` } : undefined}
+                  >
+                    {isOpen ? (
+                      <>
+                        <GripVertical className={`w-3 h-3 mr-1 shrink-0 ${editable ? 'text-slate-700 group-hover:text-slate-500 cursor-grab' : 'invisible'}`} />
+                        <Hash className={`w-3.5 h-3.5 mr-2 shrink-0 ${isActive ? 'text-indigo-500' : 'text-slate-600'} ${level > 1 ? 'scale-75' : ''}`} />
+                        {renamingId === section.id ? (
+                          <input
+                            autoFocus
+                            defaultValue={section.title}
+                            onClick={(e) => e.stopPropagation()}
+                            onBlur={(e) => { if (e.target.value.trim() && e.target.value.trim() !== section.title) onRenameSection(section.id, e.target.value.trim()); setRenamingId(null); }}
+                            onKeyDown={(e) => { e.stopPropagation(); if (e.key === 'Enter') e.currentTarget.blur(); if (e.key === 'Escape') setRenamingId(null); }}
+                            className="flex-1 min-w-0 text-xs px-1.5 py-0.5 bg-slate-800 text-white border border-indigo-500 rounded outline-none"
+                          />
+                        ) : (
+                          <span onDoubleClick={() => editable && setRenamingId(section.id)} className={`text-xs truncate flex-1 text-left ${level > 1 ? 'font-normal' : 'font-medium'}`} title={editable ? 'Double-click to rename' : undefined}>{section.title}</span>
+                        )}
+                        <span className="text-[9px] font-mono text-slate-600 ml-2 shrink-0" title="Words">{words.get(section.id)}</span>
+                        {isActive && <ChevronRight className="w-3.5 h-3.5 ml-1 text-indigo-500 shrink-0" />}
+                      </>
+                    ) : (
+                      <div className={`w-1.5 h-1.5 rounded-full mx-auto ${isActive ? 'bg-indigo-500 scale-150' : 'bg-slate-700'}`}></div>
+                    )}
+                  </div>
+                  {isOpen && isActive && editable && renamingId !== section.id && (
+                    <div className="flex items-center gap-0.5 pb-2 pr-4 bg-slate-900" style={{ paddingLeft: `${(level - 1) * 14 + 24}px` }}>
+                      <button onClick={() => setRenamingId(section.id)} className="p-1 rounded text-slate-500 hover:text-white hover:bg-slate-800" title="Rename"><Pencil className="w-3 h-3" /></button>
+                      <button onClick={() => onShiftSection(section.id, -1)} disabled={level === 1} className="p-1 rounded text-slate-500 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent" title="Promote to a higher level"><ListIndentDecrease className="w-3 h-3" /></button>
+                      <button onClick={() => onShiftSection(section.id, 1)} disabled={index === 0 || level >= MAX_LEVEL || level > sectionLevel(sections[index - 1])} className="p-1 rounded text-slate-500 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent" title="Make a subsection of the section above"><ListIndentIncrease className="w-3 h-3" /></button>
+                      <button onClick={() => { const id = onSplitSection(section.id); if (id) setRenamingId(id); }} className="p-1 rounded text-slate-500 hover:text-white hover:bg-slate-800" title="Split at the cursor"><Scissors className="w-3 h-3" /></button>
+                      <button onClick={() => onMergeWithNext(section.id)} disabled={!next || !!next.generated} className="p-1 rounded text-slate-500 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent" title={next && !next.generated ? `Merge with "${next.title}"` : 'No section below to merge with'}><Merge className="w-3 h-3" /></button>
+                      <button onClick={() => { const id = onAddSection(section.id); if (id) setRenamingId(id); }} className="p-1 rounded text-slate-500 hover:text-white hover:bg-slate-800" title="Add a section after this one"><Plus className="w-3 h-3" /></button>
+                      <button onClick={() => onDeleteSection(section.id)} className="p-1 ml-auto rounded text-slate-500 hover:text-red-400 hover:bg-slate-800" title="Delete section"><Trash2 className="w-3 h-3" /></button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
           </div>
         </div>
       </div>
@@ -140,7 +232,7 @@ const Sidebar: React.FC<SidebarProps> = ({
       <div className="p-4 border-t border-slate-800 shrink-0">
         <div className={`text-[10px] text-slate-600 transition-opacity duration-200 ${isOpen ? 'opacity-100' : 'opacity-0 md:hidden'}`}>
              <p className="font-mono">SCHOLAR-POLISH-ENGINE_V1</p>
-             <p className="mt-1">Gemini 3 Pro Active</p>
+             <p className="mt-1 truncate">{engineLabel}</p>
         </div>
       </div>
     </div>
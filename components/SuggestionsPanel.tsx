@@ -0,0 +1,65 @@
+import React, { useMemo, useState } from 'react';
+import { PaperSection, Suggestion } from '../types';
+import { diffWords } from '../services/diffService';
+import DiffView from './DiffView';
+import { X, FileDiff, Check, CheckCheck, Undo2, LocateFixed } from 'lucide-react';
+
+interface SuggestionsPanelProps {
+  sections: PaperSection[];
+  suggestions: Suggestion[];
+  onResolve: (action: 'accept' | 'reject', ids?: string[]) => void;
+  onLocate: (suggestion: Suggestion) => void;
+  onClose: () => void;
+}
+
+// "Micro-edit: Make it more academic" groups under "Micro-edit".
+const sourceGroup = (source: string) => source.split(':')[0].trim();
+
+const SuggestionsPanel: React.FC<SuggestionsPanelProps> = ({ sections, suggestions, onResolve, onLocate, onClose }) => {
+  const [sourceFilter, setSourceFilter] = useState('all');
+  const sources = useMemo(() => Array.from(new Set(suggestions.map(s => sourceGroup(s.source)))), [suggestions]);
+  const visible = sourceFilter === 'all' ? suggestions : suggestions.filter(s => sourceGroup(s.source) === sourceFilter);
+  const bulkIds = sourceFilter === 'all' ? undefined : visible.map(s => s.id);
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl overflow-hidden flex flex-col h-[85vh]">
+        <div className="p-6 bg-slate-900 text-white flex justify-between items-center shrink-0">
+          <h3 className="text-xl font-bold flex items-center gap-2"><FileDiff className="w-5 h-5 text-indigo-400" /> Suggestions</h3>
+          <button onClick={onClose}><X className="w-6 h-6" /></button>
+        </div>
+
+        <div className="p-4 border-b border-slate-200 flex flex-wrap items-center gap-3 shrink-0">
+          <select value={sourceFilter} onChange={(e) => setSourceFilter(e.target.value)} className="text-xs p-2 border border-slate-300 rounded-md bg-white outline-none">
+            <option value="all">All sources ({suggestions.length})</option>
+            {sources.map(s => <option key={s} value={s}>{s} ({suggestions.filter(x => sourceGroup(x.source) === s).length})</option>)}
+          </select>
+          <div className="flex-1" />
+          <button onClick={() => onResolve('reject', bulkIds)} disabled={visible.length === 0} className="py-2 px-3 text-xs font-bold border border-slate-300 text-slate-600 rounded-md flex items-center gap-1.5 hover:border-red-300 hover:text-red-600 disabled:opacity-40"><Undo2 className="w-3.5 h-3.5" /> Reject {sourceFilter === 'all' ? 'All' : 'Shown'}</button>
+          <button onClick={() => onResolve('accept', bulkIds)} disabled={visible.length === 0} className="py-2 px-3 text-xs font-bold bg-indigo-600 text-white rounded-md flex items-center gap-1.5 disabled:opacity-40"><CheckCheck className="w-3.5 h-3.5" /> Accept {sourceFilter === 'all' ? 'All' : 'Shown'}</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {visible.length === 0 && (
+            <div className="text-center py-10 text-sm text-slate-400">No open suggestions. With Track Changes on, AI fixes and micro-edits land here for review instead of overwriting the text.</div>
+          )}
+          {visible.map(s => (
+            <div key={s.id} className="border border-slate-200 rounded-xl overflow-hidden">
+              <div className="px-3 py-2 bg-slate-50 border-b border-slate-200 flex items-center gap-2">
+                <span className="text-[9px] font-black uppercase tracking-widest text-indigo-500 shrink-0">{s.kind === 'insert' ? 'Insertion' : s.kind === 'delete' ? 'Deletion' : 'Replacement'}</span>
+                <span className="text-xs font-semibold text-slate-700 flex-1 truncate" title={s.source}>{s.source}</span>
+                <span className="text-[10px] text-slate-400 truncate max-w-[10rem]">{sections.find(sec => sec.id === s.sectionId)?.title}</span>
+                <button onClick={() => onLocate(s)} className="p-1.5 text-slate-400 hover:text-indigo-600" title="Show in text"><LocateFixed className="w-3.5 h-3.5" /></button>
+                <button onClick={() => onResolve('reject', [s.id])} className="p-1.5 text-slate-400 hover:text-red-500" title="Reject"><X className="w-3.5 h-3.5" /></button>
+                <button onClick={() => onResolve('accept', [s.id])} className="p-1.5 text-slate-400 hover:text-green-600" title="Accept"><Check className="w-3.5 h-3.5" /></button>
+              </div>
+              <DiffView parts={diffWords(s.original, s.replacement)} className="p-3" />
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SuggestionsPanel;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { UndoState, EditSource } from '../types';
+import { Undo2, Redo2, ChevronDown, Bot, Keyboard, Layers } from 'lucide-react';
+
+interface UndoControlsProps {
+  state: UndoState;
+  onUndo: (steps: number) => void;
+  onRedo: (steps: number) => void;
+}
+
+const SOURCE_ICONS: Record<EditSource, React.FC<{ className?: string }>> = {
+  typing: Keyboard,
+  ai: Bot,
+  structure: Layers
+};
+
+const UndoControls: React.FC<UndoControlsProps> = ({ state, onUndo, onRedo }) => {
+  const [open, setOpen] = useState(false);
+  const lastDone = state.past[state.past.length - 1];
+  const nextRedo = state.future[0];
+  const pastNewestFirst = [...state.past].reverse();
+
+  return (
+    <div className="relative flex items-center">
+      <button onClick={() => onUndo(1)} disabled={!lastDone} className="p-2 text-slate-600 hover:text-indigo-600 disabled:text-slate-300" title={lastDone ? `Undo ${lastDone.label} (Ctrl+Z)` : 'Nothing to undo'}>
+        <Undo2 className="w-5 h-5" />
+      </button>
+      <button onClick={() => onRedo(1)} disabled={!nextRedo} className="p-2 text-slate-600 hover:text-indigo-600 disabled:text-slate-300" title={nextRedo ? `Redo ${nextRedo.label} (Ctrl+Shift+Z)` : 'Nothing to redo'}>
+        <Redo2 className="w-5 h-5" />
+      </button>
+      <button onClick={() => setOpen(!open)} disabled={!lastDone && !nextRedo} className="p-1 text-slate-400 hover:text-indigo-600 disabled:text-slate-200" title="Edit history">
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-30" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 top-10 z-40 w-72 max-h-96 overflow-y-auto bg-white border border-slate-200 rounded-xl shadow-2xl py-2">
+            {[...state.future].reverse().map((entry, i) => {
+              const Icon = SOURCE_ICONS[entry.source];
+              const steps = state.future.length - i;
+              return (
+                <button key={entry.id} onClick={() => { onRedo(steps); setOpen(false); }} className="w-full flex items-center gap-2 px-3 py-1.5 text-left text-xs text-slate-400 hover:bg-slate-50">
+                  <Icon className="w-3.5 h-3.5 shrink-0" /><span className="truncate">{entry.label}</span>
+                </button>
+              );
+            })}
+            {state.future.length > 0 && state.past.length > 0 && <div className="h-px bg-slate-200 my-1 mx-3" />}
+            {pastNewestFirst.map((entry, i) => {
+              const Icon = SOURCE_ICONS[entry.source];
+              return (
+                <button key={entry.id} onClick={() => { onUndo(i + 1); setOpen(false); }} className="w-full flex items-center gap-2 px-3 py-1.5 text-left text-xs text-slate-700 hover:bg-indigo-50">
+                  <Icon className="w-3.5 h-3.5 shrink-0 text-indigo-400" /><span className="truncate flex-1">{entry.label}</span>
+                  <span className="text-[9px] text-slate-400 shrink-0">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                </button>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UndoControls;
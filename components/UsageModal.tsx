@@ -0,0 +1,212 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { EditorMode, UsageBudget, UsageRecord } from '../types';
+import { clearUsageHistory, dayKey, formatCost, getUsageBudget, groupUsage, loadUsage, saveUsageBudget, totalUsage, UsageTotals } from '../services/usageService';
+import { clearCachedResponses, countCachedResponses, listManuscripts } from '../services/storageService';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { X, Gauge, Loader2, Trash2, Database } from 'lucide-react';
+
+interface UsageModalProps {
+  activeManuscriptId?: string;
+  onClose: () => void;
+}
+
+const MODE_LABELS: Record<EditorMode, string> = {
+  [EditorMode.WRITE]: 'Write & Edit',
+  [EditorMode.AGENT]: 'Paper Agent',
+  [EditorMode.DISCOVERY]: 'Research Discovery',
+  [EditorMode.DE_AI]: 'De-AI Detector',
+  [EditorMode.REVIEW]: 'AI Peer Review',
+  [EditorMode.FORMAT]: 'Format Check',
+  [EditorMode.CITATIONS]: 'Citation Check',
+  [EditorMode.REORGANIZE]: 'Reorganize'
+};
+
+const CHART_DAYS = 14;
+
+const formatTokens = (n: number) => n >= 1_000_000 ? `${(n / 1_000_000).toFixed(1)}M` : n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+
+const budgetInput = (value?: number) => value === undefined ? '' : String(value);
+
+// Blank, or anything that is not an amount, means no limit.
+const parseLimit = (text: string) => {
+  const n = Number(text);
+  return text.trim() && Number.isFinite(n) && n >= 0 ? n : undefined;
+};
+
+const UsageModal: React.FC<UsageModalProps> = ({ activeManuscriptId, onClose }) => {
+  const [records, setRecords] = useState<UsageRecord[] | null>(null);
+  const [titles, setTitles] = useState<Map<string, string>>(new Map());
+  const [cachedReplies, setCachedReplies] = useState(0);
+  const [budget, setBudget] = useState<UsageBudget>(getUsageBudget);
+  const [daily, setDaily] = useState(() => budgetInput(budget.daily));
+  const [perManuscript, setPerManuscript] = useState(() => budgetInput(budget.perManuscript));
+
+  useEffect(() => {
+    (async () => {
+      // A copy, so calls finishing while the panel is open do not change the list under it.
+      setRecords([...await loadUsage()]);
+      setTitles(new Map((await listManuscripts()).map(m => [m.id, m.title])));
+      setCachedReplies(await countCachedResponses());
+    })().catch(e => console.error("Failed to load usage", e));
+  }, []);
+
+  const today = dayKey(Date.now());
+  const list = records || [];
+  const totals = useMemo(() => ({
+    today: totalUsage(list.filter(r => dayKey(r.timestamp) === today)),
+    manuscript: totalUsage(list.filter(r => r.manuscriptId === activeManuscriptId)),
+    all: totalUsage(list)
+  }), [records, activeManuscriptId]);
+  const byMode = useMemo(() => groupUsage(list, r => r.mode), [records]);
+  const byManuscript = useMemo(() => groupUsage(list, r => r.manuscriptId || ''), [records]);
+  // Spending when any call was priced; tokens otherwise, so local and demo models still show a trend.
+  const chartCost = totals.all.cost > 0;
+  const byDay = useMemo(() => {
+    const days = new Map(groupUsage(list, r => dayKey(r.timestamp)));
+    return Array.from({ length: CHART_DAYS }, (_, i) => {
+      const date = new Date();
+      date.setDate(date.getDate() - (CHART_DAYS - 1 - i));
+      const key = dayKey(date.getTime());
+      const day = days.get(key);
+      return { name: key.slice(5), value: day ? (chartCost ? Number(day.cost.toFixed(4)) : day.inputTokens + day.outputTokens) : 0 };
+    });
+  }, [records]);
+  const estimated = list.filter(r => r.estimated).length;
+
+  const manuscriptName = (id: string) => id ? titles.get(id) || 'Deleted manuscript' : 'No manuscript open';
+
+  const handleClearHistory = async () => {
+    if (!confirm("Delete the whole usage history? Spending counted towards today's budget is reset too.")) return;
+    await clearUsageHistory();
+    setRecords([]);
+  };
+
+  const handleClearCache = async () => {
+    await clearCachedResponses();
+    setCachedReplies(0);
+  };
+
+  const handleSave = () => {
+    saveUsageBudget({ ...budget, daily: parseLimit(daily), perManuscript: parseLimit(perManuscript) });
+    onClose();
+  };
+
+  const renderTotal = (label: string, t: UsageTotals) => (
+    <div className="border border-slate-200 rounded-xl p-4">
+      <div className="text-[10px] font-bold uppercase tracking-wider text-slate-400">{label}</div>
+      <div className="text-2xl font-bold text-slate-800 mt-1">{formatCost(t.cost)}</div>
+      <div className="text-[10px] text-slate-500 mt-1">
+        {formatTokens(t.inputTokens + t.outputTokens)} tokens · {t.calls - t.cachedCalls} calls{t.cachedCalls > 0 && ` · ${t.cachedCalls} from cache`}
+      </div>
+    </div>
+  );
+
+  const renderTable = (heading: string, rows: [string, UsageTotals][], name: (key: string) => string) => (
+    <div>
+      <h4 className="text-xs font-bold uppercase tracking-wider text-slate-500 mb-2">{heading}</h4>
+      <div className="border border-slate-200 rounded-xl divide-y divide-slate-100">
+        {rows.map(([key, t]) => (
+          <div key={key} className="flex items-center gap-3 px-3 py-2 text-xs">
+            <span className="flex-1 font-semibold text-slate-700 truncate">{name(key)}</span>
+            <span className="w-16 text-right text-slate-500">{t.calls - t.cachedCalls} calls</span>
+            <span className="w-20 text-right text-slate-500">{formatTokens(t.inputTokens + t.outputTokens)} tok</span>
+            <span className="w-16 text-right font-bold text-slate-800">{formatCost(t.cost)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 bg-slate-900 text-white flex justify-between items-center">
+          <h3 className="text-xl font-bold flex items-center gap-2"><Gauge className="w-5 h-5 text-indigo-400" /> AI Usage</h3>
+          <button onClick={onClose}><X className="w-6 h-6" /></button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {!records ? (
+            <div className="flex items-center justify-center gap-2 text-sm text-slate-400 py-10"><Loader2 className="w-4 h-4 animate-spin" /> Loading usage…</div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                {renderTotal('Today', totals.today)}
+                {renderTotal('This manuscript', totals.manuscript)}
+                {renderTotal('All time', totals.all)}
+              </div>
+              <p className="text-[10px] text-slate-400 -mt-3">
+                Costs use the providers' list prices in US dollars; local, demo and unlisted models count as free.
+                {estimated > 0 && ` ${estimated} ${estimated === 1 ? 'call was' : 'calls were'} estimated from text length because the provider reported no token counts.`}
+              </p>
+
+              {list.length === 0 ? (
+                <div className="text-sm text-slate-400 text-center py-6">No AI calls recorded yet.</div>
+              ) : (
+                <>
+                  <div className="border border-slate-200 rounded-xl p-4">
+                    <div className="flex items-baseline justify-between mb-2">
+                      <h4 className="text-sm font-semibold text-slate-700">By day</h4>
+                      <span className="text-[10px] text-slate-400">last {CHART_DAYS} days, {chartCost ? 'US$' : 'tokens'}</span>
+                    </div>
+                    <div className="h-40">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={byDay}>
+                          <XAxis dataKey="name" tick={{ fontSize: 10 }} interval={1} />
+                          <YAxis tick={{ fontSize: 10 }} width={44} />
+                          <Tooltip formatter={(value) => [chartCost ? formatCost(Number(value)) : `${formatTokens(Number(value))} tokens`, 'Usage']} />
+                          <Bar dataKey="value" fill="#6366f1" radius={[4, 4, 0, 0]} />
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {renderTable('By mode', byMode, key => MODE_LABELS[key as EditorMode] || key)}
+                    {renderTable('By manuscript', byManuscript, manuscriptName)}
+                  </div>
+                </>
+              )}
+            </>
+          )}
+
+          <div className="space-y-3">
+            <h4 className="text-xs font-bold uppercase tracking-wider text-slate-500">Budget</h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <label className="block text-xs font-semibold text-slate-600">
+                Daily limit (US$)
+                <input type="number" min="0" step="0.5" value={daily} onChange={(e) => setDaily(e.target.value)} placeholder="No limit" className="mt-1 w-full text-sm p-2 border border-slate-300 rounded-md font-mono outline-none focus:ring-2 focus:ring-indigo-500" />
+              </label>
+              <label className="block text-xs font-semibold text-slate-600">
+                Per manuscript (US$)
+                <input type="number" min="0" step="0.5" value={perManuscript} onChange={(e) => setPerManuscript(e.target.value)} placeholder="No limit" className="mt-1 w-full text-sm p-2 border border-slate-300 rounded-md font-mono outline-none focus:ring-2 focus:ring-indigo-500" />
+              </label>
+              <label className="block text-xs font-semibold text-slate-600">
+                When a limit is reached
+                <select value={budget.onExceed} onChange={(e) => setBudget({ ...budget, onExceed: e.target.value as UsageBudget['onExceed'] })} className="mt-1 w-full text-sm p-2 border border-slate-300 rounded-md bg-white focus:ring-2 focus:ring-indigo-500 outline-none">
+                  <option value="warn">Warn and carry on</option>
+                  <option value="block">Block further AI calls</option>
+                </select>
+              </label>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3 bg-slate-50 border border-slate-100 rounded-xl p-3 text-xs text-slate-600">
+            <Database className="w-4 h-4 text-slate-400 shrink-0" />
+            <span className="flex-1">
+              {cachedReplies} analysis {cachedReplies === 1 ? 'reply' : 'replies'} cached. Running an analysis again on unchanged text is answered from the cache at no cost.
+            </span>
+            <button onClick={handleClearCache} disabled={cachedReplies === 0} className="font-bold text-indigo-600 hover:underline disabled:text-slate-300 disabled:no-underline">Clear cache</button>
+          </div>
+        </div>
+
+        <div className="p-6 bg-slate-50 flex gap-3">
+          <button onClick={handleClearHistory} disabled={!records?.length} className="py-3 px-4 text-sm font-bold text-slate-500 hover:text-red-500 flex items-center gap-2 disabled:opacity-40"><Trash2 className="w-4 h-4" /> Clear history</button>
+          <button onClick={onClose} className="flex-1 py-3 text-sm font-bold text-slate-500">Cancel</button>
+          <button onClick={handleSave} className="flex-[2] py-3 bg-indigo-600 text-white text-sm font-bold rounded-xl shadow-lg">Save Budget</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageModal;
@@ -0,0 +1,45 @@
+import { AgentThread, ChatMessage, Manuscript } from "../types";
+import { createId } from "./storageService";
+
+export const DEFAULT_THREAD_TITLE = "New conversation";
+
+// Past either limit, everything but the most recent turns is folded into the thread's summary.
+const MAX_UNSUMMARIZED_MESSAGES = 16;
+const MAX_UNSUMMARIZED_CHARS = 16000;
+const KEEP_RECENT_MESSAGES = 6;
+
+export const newThread = (title = DEFAULT_THREAD_TITLE): AgentThread => {
+  const now = Date.now();
+  return { id: createId("thread"), title, messages: [], createdAt: now, updatedAt: now };
+};
+
+// Manuscripts from before threads carry one flat history; it becomes a thread named "General".
+export const threadsFromManuscript = (m: Manuscript): { threads: AgentThread[], activeId: string } => {
+  const threads = m.agentThreads?.length
+    ? m.agentThreads
+    : [{ ...newThread(m.chatHistory?.length ? "General" : DEFAULT_THREAD_TITLE), messages: m.chatHistory || [] }];
+  const activeId = threads.some(t => t.id === m.activeThreadId) ? m.activeThreadId! : threads[0].id;
+  return { threads, activeId };
+};
+
+// An untitled thread is named after the first question asked in it.
+export const titleFromMessage = (text: string) => {
+  const firstLine = text.trim().split("\n")[0];
+  return firstLine.length > 40 ? `${firstLine.substring(0, 39).trimEnd()}…` : firstLine || DEFAULT_THREAD_TITLE;
+};
+
+// The messages the model still sees verbatim.
+export const recentMessages = (thread: AgentThread) => thread.messages.slice(thread.summarizedCount || 0);
+
+// How many leading messages should be folded into the summary before the next turn, or 0 if none.
+export const summaryCutoff = (thread: AgentThread) => {
+  const recent = recentMessages(thread);
+  const chars = recent.reduce((n, m) => n + m.content.length, 0);
+  if (recent.length <= MAX_UNSUMMARIZED_MESSAGES && chars <= MAX_UNSUMMARIZED_CHARS) return 0;
+  return thread.messages.length - KEEP_RECENT_MESSAGES;
+};
+
+// A chat message as the model should read it back, including the edits it proposed.
+export const turnText = (m: ChatMessage) => m.proposals?.length
+  ? `${m.content}\n\n[Proposed edits: ${m.proposals.map(p => p.title).join("; ")}]`
+  : m.content;
@@ -0,0 +1,217 @@
+import { AgentAction, AgentTool, DiffPart, DocumentState, EditorMode, PaperSection } from "../types";
+import { createId } from "./storageService";
+import { createEntry, mergeIntoBibliography, parseReference } from "./bibliographyService";
+import { applyCitationStyle, formatInTextCitation } from "./citationStyleService";
+import { diffWords } from "./diffService";
+import { addSection, moveBlock } from "./outlineService";
+
+// Analyses the agent may start. Discovery works from a selected passage, so it stays a manual mode.
+export const AGENT_ANALYSIS_MODES: EditorMode[] = [EditorMode.DE_AI, EditorMode.REVIEW, EditorMode.FORMAT, EditorMode.REORGANIZE, EditorMode.CITATIONS];
+
+// Described to the model in its instructions; argument names are AgentAction's fields.
+export const AGENT_TOOL_DOCS: Record<AgentTool, string> = {
+  readSection: "section. Returns the full text of a section; use it when the context is cut short before a section you need.",
+  createSection: "title, content, target (optional). Adds a section after the section named in target, or at the end.",
+  renameSection: "section, title. Renames a section.",
+  moveSection: "section, target. Moves a section to just after target; target \"start\" moves it to the top.",
+  splitSection: "section, text, title. Starts a new section titled title at the exact passage text.",
+  mergeSections: "section, target. Appends the section's text to target and removes the section.",
+  moveText: "section, text, target. Cuts the exact passage text out of section and appends it as a paragraph at the end of target.",
+  insertCitation: "section, text, reference. Cites the bibliography entry whose id is reference right after the exact passage text.",
+  addReference: "reference. Adds a full formatted reference to the bibliography.",
+  runAnalysis: `mode (one of ${AGENT_ANALYSIS_MODES.join(", ")}). Runs that analysis and shows its findings to the author.`
+};
+
+export const TOOL_LABELS: Record<AgentTool, string> = {
+  readSection: "Read section",
+  createSection: "Create section",
+  renameSection: "Rename section",
+  moveSection: "Move section",
+  splitSection: "Split section",
+  mergeSections: "Merge sections",
+  moveText: "Move passage",
+  insertCitation: "Insert citation",
+  addReference: "Add reference",
+  runAnalysis: "Run analysis"
+};
+
+// Reads change nothing, so they run straight away and their result goes back to the agent.
+export const isReadOnly = (action: AgentAction) => action.tool === 'readSection';
+
+const excerpt = (text: string) => text.length > 60 ? `${text.substring(0, 57)}...` : text;
+
+const findSection = (sections: PaperSection[], name?: string) => {
+  const key = (name || "").trim().replace(/^#+\s*/, "").toLowerCase();
+  const section = sections.find(s => s.id === name) || sections.find(s => s.title.trim().toLowerCase() === key);
+  if (!section) throw new Error(`There is no section called "${name || ""}".`);
+  return section;
+};
+
+// The References section is rendered from the bibliography, so structural edits leave it alone.
+const editableSection = (sections: PaperSection[], name?: string) => {
+  const section = findSection(sections, name);
+  if (section.generated) throw new Error(`"${section.title}" is generated from the bibliography and cannot be edited directly.`);
+  return section;
+};
+
+const findPassage = (section: PaperSection, text?: string) => {
+  const at = text ? section.content.indexOf(text) : -1;
+  if (!text || at === -1) throw new Error(`"${excerpt(text || "")}" does not appear in "${section.title}".`);
+  return at;
+};
+
+const joinParagraphs = (...parts: string[]) => parts.map(p => p.trim()).filter(Boolean).join("\n\n");
+
+const replaceSection = (sections: PaperSection[], id: string, update: Partial<PaperSection>) =>
+  sections.map(s => s.id === id ? { ...s, ...update } : s);
+
+// Applies one step to the document, or throws an Error saying why the step no longer fits it.
+export const applyAction = (action: AgentAction, doc: DocumentState): DocumentState => {
+  const { sections } = doc;
+  switch (action.tool) {
+    case 'readSection':
+      findSection(sections, action.section);
+      return doc;
+    case 'runAnalysis':
+      if (!AGENT_ANALYSIS_MODES.includes(action.mode as EditorMode)) throw new Error(`"${action.mode || ""}" is not an analysis the agent can run.`);
+      return doc;
+    case 'createSection': {
+      // New sections land after target and its subsections, at its level; without one they go last, ahead of the generated References.
+      if (!action.title?.trim()) throw new Error("The new section needs a title.");
+      if (action.target?.trim().toLowerCase() === "start") {
+        return { ...doc, sections: [{ id: createId("sec"), title: action.title.trim(), content: action.content || "" }, ...sections] };
+      }
+      const added = addSection(sections, action.target ? findSection(sections, action.target).id : undefined, action.title.trim());
+      return { ...doc, sections: replaceSection(added.sections, added.id, { content: action.content || "" }) };
+    }
+    case 'renameSection': {
+      const section = editableSection(sections, action.section);
+      if (!action.title?.trim()) throw new Error("The new title is empty.");
+      return { ...doc, sections: replaceSection(sections, section.id, { title: action.title.trim() }) };
+    }
+    case 'moveSection': {
+      // Subsections travel with their section, and land after the target's own subsections.
+      const section = editableSection(sections, action.section);
+      if (!action.target) throw new Error("Say which section it should follow.");
+      const atStart = action.target.trim().toLowerCase() === "start";
+      const target = atStart ? sections[0] : findSection(sections, action.target);
+      if (target.id === section.id) return doc;
+      const moved = moveBlock(sections, section.id, target.id, atStart ? 'before' : 'after');
+      if (moved === sections) throw new Error(`"${section.title}" cannot move into its own subsections.`);
+      return { ...doc, sections: moved };
+    }
+    case 'splitSection': {
+      const section = editableSection(sections, action.section);
+      const at = findPassage(section, action.text);
+      if (!action.title?.trim()) throw new Error("The new section needs a title.");
+      const tail = { id: createId("sec"), title: action.title.trim(), content: section.content.substring(at).trim(), level: section.level };
+      const head = { ...section, content: section.content.substring(0, at).trimEnd() };
+      const index = sections.indexOf(section);
+      return { ...doc, sections: [...sections.slice(0, index), head, tail, ...sections.slice(index + 1)] };
+    }
+    case 'mergeSections': {
+      const section = editableSection(sections, action.section);
+      const target = editableSection(sections, action.target);
+      if (section.id === target.id) throw new Error("A section cannot be merged into itself.");
+      const merged = replaceSection(sections, target.id, { content: joinParagraphs(target.content, section.content) });
+      return { ...doc, sections: merged.filter(s => s.id !== section.id) };
+    }
+    case 'moveText': {
+      const source = editableSection(sections, action.section);
+      const target = editableSection(sections, action.target);
+      const text = action.text!;
+      const at = findPassage(source, text);
+      if (source.id === target.id) throw new Error("The passage is already in that section.");
+      const before = source.content.substring(0, at), after = source.content.substring(at + text.length);
+      // Cutting a whole paragraph keeps the paragraph break; cutting sentences out of one closes the gap with a space.
+      const gap = /\n\s*$/.test(before) || /^\s*\n/.test(after) ? "\n\n" : " ";
+      const remaining = (before.trimEnd() + gap + after.trimStart()).trim();
+      const moved = replaceSection(sections, source.id, { content: remaining });
+      return { ...doc, sections: replaceSection(moved, target.id, { content: joinParagraphs(target.content, text) }) };
+    }
+    case 'insertCitation': {
+      const section = editableSection(sections, action.section);
+      const text = action.text!;
+      const at = findPassage(section, text) + text.length;
+      const entry = doc.bibliography.find(e => e.id === action.reference || e.key === action.reference);
+      if (!entry) throw new Error(`No bibliography entry has the id "${action.reference || ""}".`);
+      const marker = formatInTextCitation([entry], doc.bibliography, doc.journal);
+      const content = section.content.substring(0, at) + ` ${marker}` + section.content.substring(at);
+      // Numbered styles renumber once the new marker's position in the text is known.
+      return applyCitationStyle({ ...doc, sections: replaceSection(sections, section.id, { content }) }, doc.journal);
+    }
+    case 'addReference': {
+      if (!action.reference?.trim()) throw new Error("The reference is empty.");
+      return { ...doc, bibliography: mergeIntoBibliography(createEntry(parseReference(action.reference)), doc.bibliography).bibliography };
+    }
+  }
+};
+
+// Read-and-answer rounds per question, so a model that keeps asking to read cannot loop forever.
+export const MAX_READ_ROUNDS = 3;
+
+// Longer sections are cut so one read cannot crowd the rest of the conversation out of the model's context.
+const MAX_READ_CHARS = 20000;
+
+// Runs the read steps of a reply: returns the steps marked done and the text to hand back to the agent.
+export const runReads = (actions: AgentAction[], sections: PaperSection[]): { actions: AgentAction[], results: string } => {
+  const results: string[] = [];
+  const updated = actions.map((action): AgentAction => {
+    if (!isReadOnly(action)) return action;
+    try {
+      const section = findSection(sections, action.section);
+      results.push(`[${section.title}]\n${section.content.substring(0, MAX_READ_CHARS)}`);
+      return { ...action, status: 'applied', result: `Read ${section.content.split(/\s+/).filter(Boolean).length} words.` };
+    } catch (e) {
+      results.push(`[${action.section}] ${(e as Error).message}`);
+      return { ...action, status: 'failed', result: (e as Error).message };
+    }
+  });
+  return { actions: updated, results: results.join("\n\n") };
+};
+
+export interface ActionPreview {
+  // Section titles before and after, when the step changes the outline.
+  outline?: { before: string[], after: string[] };
+  changes: { title: string, parts: DiffPart[] }[];
+  addedReferences: number;
+  error?: string;
+}
+
+// What applying the step would do to the current document, without committing it.
+export const previewAction = (action: AgentAction, doc: DocumentState): ActionPreview => {
+  let after: DocumentState;
+  try {
+    after = applyAction(action, doc);
+  } catch (e) {
+    return { changes: [], addedReferences: 0, error: (e as Error).message };
+  }
+  const before = doc.sections.map(s => s.title);
+  const titles = after.sections.map(s => s.title);
+  const outlineChanged = before.length !== titles.length || before.some((t, i) => t !== titles[i]);
+  const changes = after.sections
+    .filter(s => !s.generated)
+    .map(s => ({ section: s, old: doc.sections.find(o => o.id === s.id)?.content ?? "" }))
+    .filter(({ section, old }) => section.content !== old)
+    .map(({ section, old }) => ({ title: section.title, parts: diffWords(old, section.content) }));
+  return {
+    outline: outlineChanged ? { before, after: titles } : undefined,
+    changes,
+    addedReferences: after.bibliography.length - doc.bibliography.length
+  };
+};
+
+export const describeAction = (action: AgentAction) => {
+  switch (action.tool) {
+    case 'readSection': return `Read "${action.section}"`;
+    case 'createSection': return `Create "${action.title}"${action.target ? ` after "${action.target}"` : ""}`;
+    case 'renameSection': return `Rename "${action.section}" to "${action.title}"`;
+    case 'moveSection': return action.target?.toLowerCase() === "start" ? `Move "${action.section}" to the top` : `Move "${action.section}" after "${action.target}"`;
+    case 'splitSection': return `Split "${action.section}" at "${excerpt(action.text || "")}"`;
+    case 'mergeSections': return `Merge "${action.section}" into "${action.target}"`;
+    case 'moveText': return `Move "${excerpt(action.text || "")}" from "${action.section}" to "${action.target}"`;
+    case 'insertCitation': return `Cite ${action.reference} in "${action.section}"`;
+    case 'addReference': return `Add "${excerpt(action.reference || "")}" to the bibliography`;
+    case 'runAnalysis': return `Run ${action.mode} analysis`;
+  }
+};
@@ -0,0 +1,181 @@
+import { AnalysisIssue, IssueAnchor, PaperSection } from "../types";
+
+// Below this word-overlap score a candidate is a different passage, not an edited version of the snippet.
+const MIN_SIMILARITY = 0.7;
+// Fuzzy matching a two-word snippet would latch onto unrelated text.
+const MIN_FUZZY_WORDS = 4;
+
+interface Word { text: string, start: number, end: number }
+
+const words = (text: string): Word[] =>
+  Array.from(text.matchAll(/[^\s]+/g), m => ({ text: m[0].toLowerCase().replace(/^[^\w]+|[^\w]+$/g, ''), start: m.index!, end: m.index! + m[0].length }));
+
+// Dice coefficient over word multisets; word order barely matters for spotting an edited sentence.
+const dice = (a: string[], b: string[]) => {
+  const counts = new Map<string, number>();
+  a.forEach(w => counts.set(w, (counts.get(w) || 0) + 1));
+  let shared = 0;
+  b.forEach(w => {
+    const n = counts.get(w) || 0;
+    if (n > 0) { shared++; counts.set(w, n - 1); }
+  });
+  return (2 * shared) / (a.length + b.length);
+};
+
+export const anchorMatches = (issue: AnalysisIssue, sections: PaperSection[]) => {
+  const anchor = issue.anchor;
+  const section = anchor && sections.find(s => s.id === anchor.sectionId);
+  if (!anchor || !section || anchor.end > section.content.length) return false;
+  return !issue.snippet || section.content.substring(anchor.start, anchor.end) === issue.snippet;
+};
+
+// Sections to search, most likely first: the one the issue was anchored in, then the one its location names.
+const candidateSections = (issue: AnalysisIssue, sections: PaperSection[]) => {
+  const rank = (s: PaperSection) => s.id === issue.anchor?.sectionId ? 0 : issue.location && s.title.toLowerCase() === issue.location.toLowerCase() ? 1 : 2;
+  return sections.filter(s => !s.generated || s.id === issue.anchor?.sectionId).sort((a, b) => rank(a) - rank(b));
+};
+
+const nearest = (positions: number[], target: number) => positions.reduce((best, p) => Math.abs(p - target) < Math.abs(best - target) ? p : best);
+
+const exactMatch = (issue: AnalysisIssue, sections: PaperSection[]): IssueAnchor | null => {
+  const snippet = issue.snippet!;
+  for (const section of candidateSections(issue, sections)) {
+    const positions: number[] = [];
+    for (let i = section.content.indexOf(snippet); i !== -1; i = section.content.indexOf(snippet, i + 1)) positions.push(i);
+    if (positions.length === 0) continue;
+    const start = nearest(positions, section.id === issue.anchor?.sectionId ? issue.anchor.start : 0);
+    return { sectionId: section.id, start, end: start + snippet.length };
+  }
+  return null;
+};
+
+interface Candidate { anchor: IssueAnchor, score: number, distance: number }
+
+const better = (a: Candidate, best: Candidate | null) =>
+  !best || a.score > best.score + 0.001 || (Math.abs(a.score - best.score) <= 0.001 && a.distance < best.distance);
+
+// Re-anchoring runs on every keystroke, and the fuzzy search is its slow part. The best match in a section
+// depends only on the issue and that section, both immutable, so it is remembered per pair: after an edit
+// only the edited section is searched again, and an issue whose text is gone costs nothing until one changes.
+const fuzzyCache = new WeakMap<AnalysisIssue, WeakMap<PaperSection, Candidate | null>>();
+const wordCache = new WeakMap<PaperSection, Word[]>();
+
+const sectionWords = (section: PaperSection) => {
+  let cached = wordCache.get(section);
+  if (!cached) wordCache.set(section, cached = words(section.content));
+  return cached;
+};
+
+const bestInSection = (issue: AnalysisIssue, target: string[], section: PaperSection, anchored: boolean): Candidate | null => {
+  let cache = fuzzyCache.get(issue);
+  if (!cache) fuzzyCache.set(issue, cache = new WeakMap());
+  if (cache.has(section)) return cache.get(section)!;
+
+  const text = sectionWords(section);
+  const slack = Math.max(1, Math.round(target.length * 0.25));
+  const wanted = new Set(target);
+  // hits[i] counts the words before i that occur in the snippet; a window with too few cannot reach the threshold.
+  const hits = [0];
+  text.forEach((w, i) => hits.push(hits[i] + (wanted.has(w.text) ? 1 : 0)));
+  let best: Candidate | null = null;
+  for (let len = target.length - slack; len <= target.length + slack; len++) {
+    for (let i = 0; i + len <= text.length; i++) {
+      if ((2 * (hits[i + len] - hits[i])) / (target.length + len) < MIN_SIMILARITY) continue;
+      const window = text.slice(i, i + len);
+      const score = dice(target, window.map(w => w.text));
+      if (score < MIN_SIMILARITY) continue;
+      // Prefer the closest match to where the issue used to be, within its original section.
+      const distance = anchored && issue.anchor ? Math.abs(window[0].start - issue.anchor.start) : Number.MAX_SAFE_INTEGER;
+      const candidate = { anchor: { sectionId: section.id, start: window[0].start, end: window[len - 1].end, approximate: true }, score, distance };
+      if (better(candidate, best)) best = candidate;
+    }
+  }
+  cache.set(section, best);
+  return best;
+};
+
+const fuzzyMatch = (issue: AnalysisIssue, sections: PaperSection[]): IssueAnchor | null => {
+  const target = words(issue.snippet!).map(w => w.text).filter(Boolean);
+  if (target.length < MIN_FUZZY_WORDS) return null;
+  let best: Candidate | null = null;
+  for (const section of candidateSections(issue, sections)) {
+    const candidate = bestInSection(issue, target, section, section.id === issue.anchor?.sectionId);
+    if (candidate && better(candidate, best)) best = candidate;
+  }
+  return best?.anchor || null;
+};
+
+// Re-derives an issue's position in the current text. An unchanged anchor is kept; otherwise the snippet
+// is searched for exactly (nearest the old spot first) and then fuzzily. A fuzzy hit points the issue at the
+// edited text, whose current wording becomes the snippet. Issues whose text is gone are marked stale.
+export const reanchorIssue = (issue: AnalysisIssue, sections: PaperSection[]): AnalysisIssue => {
+  if (!issue.snippet) return issue;
+  if (anchorMatches(issue, sections)) return issue.stale ? { ...issue, stale: false } : issue;
+  const anchor = exactMatch(issue, sections) || fuzzyMatch(issue, sections);
+  if (!anchor) return { ...issue, anchor: undefined, stale: true };
+  const section = sections.find(s => s.id === anchor.sectionId)!;
+  return { ...issue, anchor, snippet: section.content.substring(anchor.start, anchor.end), stale: false, location: issue.location || section.title };
+};
+
+export const reanchorIssues = (issues: AnalysisIssue[], sections: PaperSection[]) => {
+  let changed = false;
+  const next = issues.map(issue => {
+    const updated = reanchorIssue(issue, sections);
+    if (updated !== issue) changed = true;
+    return updated;
+  });
+  return changed ? next : issues;
+};
+
+export interface PlannedFix {
+  issue: AnalysisIssue;
+  anchor: IssueAnchor;
+}
+
+export interface SkippedFix {
+  issue: AnalysisIssue;
+  reason: string;
+}
+
+export interface FixPlan {
+  fixes: PlannedFix[];
+  skipped: SkippedFix[];
+}
+
+// Re-anchors every issue against the current text and orders the fixes by position. A fix whose range
+// overlaps one already planned is skipped rather than guessed at: splicing both would garble the sentence.
+export const planFixes = (issues: AnalysisIssue[], sections: PaperSection[]): FixPlan => {
+  const order = new Map(sections.map((s, i) => [s.id, i]));
+  const skipped: SkippedFix[] = [];
+  const candidates: PlannedFix[] = [];
+  issues.forEach(original => {
+    const issue = reanchorIssue(original, sections);
+    if (issue.replacement === undefined || !issue.snippet) skipped.push({ issue, reason: "No replacement text was proposed." });
+    else if (!issue.anchor) skipped.push({ issue, reason: "The passage was edited or removed since the analysis." });
+    else candidates.push({ issue, anchor: issue.anchor });
+  });
+  candidates.sort((a, b) => (order.get(a.anchor.sectionId)! - order.get(b.anchor.sectionId)!) || a.anchor.start - b.anchor.start || a.anchor.end - b.anchor.end);
+
+  const fixes: PlannedFix[] = [];
+  candidates.forEach(fix => {
+    const last = fixes[fixes.length - 1];
+    if (!last || last.anchor.sectionId !== fix.anchor.sectionId || fix.anchor.start >= last.anchor.end) { fixes.push(fix); return; }
+    const same = last.anchor.start === fix.anchor.start && last.anchor.end === fix.anchor.end;
+    skipped.push({
+      issue: fix.issue,
+      reason: same && last.issue.replacement === fix.issue.replacement
+        ? `Duplicate of "${last.issue.title}".`
+        : `${same ? 'Rewrites the same text as' : 'Overlaps'} "${last.issue.title}" differently; apply it on its own afterwards if you prefer it.`
+    });
+  });
+  return { fixes, skipped };
+};
+
+// Splices planned fixes back to front so earlier offsets stay valid.
+export const applyFixes = (sections: PaperSection[], fixes: PlannedFix[], render: (fix: PlannedFix) => string): PaperSection[] =>
+  sections.map(section => {
+    const own = fixes.filter(f => f.anchor.sectionId === section.id).sort((a, b) => b.anchor.start - a.anchor.start);
+    if (own.length === 0) return section;
+    const content = own.reduce((text, fix) => text.substring(0, fix.anchor.start) + render(fix) + text.substring(fix.anchor.end), section.content);
+    return { ...section, content };
+  });
@@ -0,0 +1,162 @@
+import { BibEntry, BibEntryType, PaperSection, RelatedPaper } from "../types";
+import { createId } from "./storageService";
+
+// BibTeX's convention for a truncated author list; formatters render it as "et al.".
+export const ET_AL = "others";
+
+const REFERENCE_TITLE = /^\s*(references|bibliography|works cited|literature cited)\s*$/i;
+const INITIALS = /^(?:[A-Z][a-z]?\.?\s*-?\s*)+$/;
+const DOI = /\b(10\.\d{4,9}\/[^\s"<>]+?)(?=[.,;]?(?:\s|$))/i;
+const URL = /https?:\/\/[^\s"<>]+/;
+
+export const splitName = (author: string): { last: string, first: string } => {
+  if (author.includes(',')) {
+    const [last, ...rest] = author.split(',');
+    return { last: last.trim(), first: rest.join(',').trim() };
+  }
+  const parts = author.trim().split(/\s+/);
+  return parts.length === 1 ? { last: parts[0], first: '' } : { last: parts[parts.length - 1], first: parts.slice(0, -1).join(' ') };
+};
+
+export const toInitials = (first: string, separator = ' ') => first
+  .split(/[\s.]+/)
+  .filter(Boolean)
+  .map(n => n.split('-').map(p => `${p[0].toUpperCase()}.`).join('-'))
+  .join(separator);
+
+export const parseAuthors = (raw: string): string[] => {
+  let text = raw.trim().replace(/(?<![A-Z])\.$/, '');
+  const truncated = /,?\s*(et al\.?|and others)\s*$/i.test(text);
+  text = text.replace(/,?\s*(et al\.?|and others)\s*$/i, '');
+  if (!text) return truncated ? [ET_AL] : [];
+
+  let authors: string[];
+  if (text.includes(';')) {
+    authors = text.split(';').map(a => a.trim());
+  } else {
+    const tokens = text.split(/\s*,\s*(?:&\s*|and\s+)?|\s+(?:&|and)\s+/).map(t => t.trim()).filter(Boolean);
+    // "Smith, J., Lee, K." alternates surname and initials; "John Smith, Kim Lee" does not.
+    const paired = tokens.length % 2 === 0 && tokens.every((t, i) => i % 2 === 0 ? !INITIALS.test(t) : INITIALS.test(t));
+    authors = paired
+      ? tokens.filter((_, i) => i % 2 === 0).map((last, i) => `${last}, ${tokens[i * 2 + 1]}`)
+      : tokens.map(t => {
+          // Vancouver style "Smith JK" puts initials after the surname.
+          const vancouver = t.match(/^(.+?)\s+([A-Z]{1,3})$/);
+          if (vancouver) return `${vancouver[1]}, ${vancouver[2].split('').map(c => `${c}.`).join(' ')}`;
+          const { last, first } = splitName(t);
+          return first ? `${last}, ${first}` : last;
+        });
+  }
+  return truncated ? [...authors, ET_AL] : authors;
+};
+
+const detectType = (venue: string, volume?: string): BibEntryType => {
+  if (/proceedings|\bproc\b|conference|symposium|workshop/i.test(venue)) return 'inproceedings';
+  if (volume) return 'article';
+  if (/press|publish|books?\b/i.test(venue)) return 'book';
+  return venue ? 'article' : 'misc';
+};
+
+const clean = (s?: string) => (s || '').replace(/\s+/g, ' ').replace(/^[\s.,;:]+|[\s.,;:]+$/g, '');
+
+export const parseReference = (raw: string): Omit<BibEntry, 'id'> => {
+  const text = raw.replace(/^\s*(\[\d+\]|\d+\.)\s*/, '').trim();
+  const doi = text.match(DOI)?.[1];
+  const url = doi ? undefined : text.match(URL)?.[0];
+  const body = text.replace(/(https?:\/\/(dx\.)?doi\.org\/)?10\.\d{4,9}\/\S+/i, '').replace(/\bdoi:\s*$/i, '').replace(URL, '').trim();
+
+  // APA: Authors (Year). Title. Venue, 12(3), 45-67.
+  const apa = body.match(/^(.+?)\s*\((\d{4}[a-z]?|n\.d\.)\)\.\s*(.+?[.?!])\s+(.*)$/);
+  if (apa) {
+    const venueMatch = apa[4].match(/^(.+?),\s*(\d+)(?:\((\d+)\))?(?:,\s*([\d–—-]+))?/);
+    // Proceedings are cited "In Venue, 10-20." with a page range where a journal has its volume.
+    const pagesOnly = !!venueMatch && /^\s*\d+\s*[–—-]/.test(apa[4].substring(venueMatch[1].length + 1));
+    const venue = clean(venueMatch ? venueMatch[1] : apa[4]).replace(/^in\s+/i, '');
+    const volume = pagesOnly ? undefined : venueMatch?.[2];
+    const pages = pagesOnly ? apa[4].substring(venueMatch![1].length + 1).match(/[\d–—-]+/)?.[0] : venueMatch?.[4];
+    return {
+      type: detectType(venue, volume), authors: parseAuthors(apa[1]), year: apa[2], title: clean(apa[3]), venue,
+      volume, issue: venueMatch?.[3], pages: pages?.replace(/[–—]/g, '-'), doi, url
+    };
+  }
+
+  // IEEE: A. Author and B. Author, "Title," Venue, vol. 1, no. 2, pp. 3-4, 2020.
+  const ieee = body.match(/^(.+?),\s*["“](.+?),?["”],?\s*(.*)$/);
+  if (ieee) {
+    const rest = ieee[3];
+    const venue = clean(rest.split(/,\s*(?:vol\.|no\.|pp\.|\d{4})/)[0]).replace(/^in\s+/, '');
+    const volume = rest.match(/vol\.\s*(\w+)/)?.[1];
+    return {
+      type: detectType(venue, volume), authors: parseAuthors(ieee[1]), title: clean(ieee[2]), venue,
+      year: rest.match(/\b(19|20)\d{2}\b/)?.[0] || '', volume, issue: rest.match(/no\.\s*(\w+)/)?.[1],
+      pages: rest.match(/pp\.\s*([\d–-]+)/)?.[1]?.replace(/–/g, '-'), doi, url
+    };
+  }
+
+  // Vancouver/AMA: Authors. Title. Venue. 2020;12(3):45-67.
+  const ama = body.match(/^(.+?)\.\s+(.+?)\.\s+(.+?)\.\s*((?:19|20)\d{2})[^;]*;?\s*(\d+)?(?:\((\d+)\))?:?\s*([\d-]+)?/);
+  if (ama) {
+    const venue = clean(ama[3]);
+    return {
+      type: detectType(venue, ama[5]), authors: parseAuthors(ama[1]), title: clean(ama[2]), venue,
+      year: ama[4], volume: ama[5], issue: ama[6], pages: ama[7], doi, url
+    };
+  }
+
+  return { type: 'misc', authors: [], title: clean(body), venue: '', year: body.match(/\b(19|20)\d{2}\b/)?.[0] || '', doi, url };
+};
+
+export const createEntry = (fields: Omit<BibEntry, 'id'>): BibEntry => ({ ...fields, id: createId("bib") });
+
+export const fromRelatedPaper = (paper: RelatedPaper): BibEntry => {
+  const parsed = parseReference(paper.fullReference);
+  return createEntry({
+    ...parsed,
+    title: paper.title || parsed.title,
+    year: paper.year || parsed.year,
+    authors: parsed.authors.length ? parsed.authors : parseAuthors(paper.authors)
+  });
+};
+
+const normalizeTitle = (title: string) => title.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const isDuplicate = (a: Omit<BibEntry, 'id'>, b: Omit<BibEntry, 'id'>) => {
+  if (a.doi && b.doi) return a.doi.toLowerCase() === b.doi.toLowerCase();
+  const ta = normalizeTitle(a.title);
+  return ta.length > 0 && ta === normalizeTitle(b.title) && (!a.year || !b.year || a.year === b.year);
+};
+
+export const findDuplicate = (entry: Omit<BibEntry, 'id'>, entries: BibEntry[], ignoreId?: string) =>
+  entries.find(e => e.id !== ignoreId && isDuplicate(entry, e));
+
+// Fills gaps in the kept entry from its duplicate, so merging never loses a DOI or page range.
+export const mergeEntries = (keep: BibEntry, drop: BibEntry): BibEntry => {
+  const merged = { ...keep };
+  (Object.keys(drop) as (keyof BibEntry)[]).forEach(k => {
+    if (k === 'id') return;
+    const current = merged[k];
+    if (current === undefined || current === '' || (Array.isArray(current) && current.length === 0)) {
+      (merged as Record<string, unknown>)[k] = drop[k];
+    }
+  });
+  return merged;
+};
+
+// Re-adding a known work enriches the existing entry instead of duplicating it.
+export const mergeIntoBibliography = (entry: BibEntry, bibliography: BibEntry[]): { bibliography: BibEntry[], entry: BibEntry } => {
+  const dup = findDuplicate(entry, bibliography);
+  if (!dup) return { bibliography: [...bibliography, entry], entry };
+  const merged = mergeEntries(dup, entry);
+  if (JSON.stringify(merged) === JSON.stringify(dup)) return { bibliography, entry: dup };
+  return { bibliography: bibliography.map(e => e.id === dup.id ? merged : e), entry: merged };
+};
+
+// Turns a hand-written reference list (legacy manuscripts, pasted imports) into entries.
+export const extractBibliography = (sections: PaperSection[]): BibEntry[] => {
+  const refs = sections.find(s => !s.generated && REFERENCE_TITLE.test(s.title));
+  if (!refs) return [];
+  return refs.content.split(/\r?\n/).map(l => l.trim()).filter(l => l.length > 10).reduce<BibEntry[]>((acc, line) => {
+    const parsed = parseReference(line);
+    return findDuplicate(parsed, acc) ? acc : [...acc, createEntry(parsed)];
+  }, []);
+};
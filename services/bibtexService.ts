@@ -0,0 +1,126 @@
+import { BibEntry, BibEntryType } from "../types";
+import { ET_AL, createEntry, splitName } from "./bibliographyService";
+
+const ACCENTS: Record<string, Record<string, string>> = {
+  '"': { a: 'ä', o: 'ö', u: 'ü', e: 'ë', i: 'ï', A: 'Ä', O: 'Ö', U: 'Ü' },
+  "'": { a: 'á', e: 'é', i: 'í', o: 'ó', u: 'ú', c: 'ć', n: 'ń', s: 'ś', E: 'É' },
+  '`': { a: 'à', e: 'è', i: 'ì', o: 'ò', u: 'ù' },
+  '^': { a: 'â', e: 'ê', i: 'î', o: 'ô', u: 'û' },
+  '~': { a: 'ã', n: 'ñ', o: 'õ', N: 'Ñ' },
+  'c': { c: 'ç', C: 'Ç' },
+  'v': { c: 'č', s: 'š', z: 'ž', r: 'ř', C: 'Č', S: 'Š', Z: 'Ž' }
+};
+
+// Turns the LaTeX escapes common in .bib files and manuscripts into plain Unicode text.
+// Manuscript bodies keep their remaining braces, which may belong to maths or unknown commands.
+export const detex = (text: string, keepBraces = false) => {
+  const plain = text
+    .replace(/\{?\\([`'"^~]|[cv](?=[\s{]))\s*\{?\\?([a-zA-Z])\}?\}?/g, (m, accent, letter) => ACCENTS[accent]?.[letter] ?? m)
+    .replace(/\\ss\b\s*/g, 'ß')
+    .replace(/\\o\b\s*/g, 'ø')
+    .replace(/\\&/g, '&').replace(/\\%/g, '%').replace(/\\_/g, '_').replace(/\\#/g, '#').replace(/\\\$/g, '$')
+    .replace(/---/g, '—').replace(/--/g, '–')
+    .replace(/``|''/g, '"')
+    .replace(/~/g, ' ')
+    .replace(/\\(?:emph|textit|textbf|textsc|textrm|mbox)\{([^{}]*)\}/g, '$1');
+  return keepBraces ? plain : plain.replace(/[{}]/g, '');
+};
+
+const escapeBib = (value: string) => value.replace(/([&%#_])/g, '\\$1');
+
+const readValue = (text: string, start: number): { value: string, end: number } => {
+  let i = start;
+  while (/\s/.test(text[i])) i++;
+  if (text[i] === '{' || text[i] === '"') {
+    const close = text[i] === '{' ? '}' : '"';
+    let depth = 0;
+    let j = i + 1;
+    for (; j < text.length; j++) {
+      if (text[j] === '{') depth++;
+      else if (text[j] === '}' && depth > 0) depth--;
+      else if (text[j] === close && depth === 0) break;
+    }
+    return { value: text.substring(i + 1, j), end: j + 1 };
+  }
+  const bare = text.substring(i).match(/^[^,}\s]*/)![0];
+  return { value: bare, end: i + bare.length };
+};
+
+const TYPES: Record<string, BibEntryType> = { article: 'article', book: 'book', inproceedings: 'inproceedings', conference: 'inproceedings', incollection: 'inproceedings' };
+
+const parseBibAuthors = (field: string) => field.split(/\s+and\s+/).map(a => a.trim()).filter(Boolean).map(a => {
+  if (a === 'others') return ET_AL;
+  const { last, first } = splitName(detex(a));
+  return first ? `${last}, ${first}` : last;
+});
+
+export const parseBibtex = (text: string): BibEntry[] => {
+  const entries: BibEntry[] = [];
+  const head = /@(\w+)\s*\{\s*([^,\s]*)\s*,/g;
+  let match: RegExpExecArray | null;
+  while ((match = head.exec(text))) {
+    const type = match[1].toLowerCase();
+    if (type === 'string' || type === 'comment' || type === 'preamble') continue;
+    const fields: Record<string, string> = {};
+    let i = head.lastIndex;
+    while (i < text.length) {
+      const name = text.substring(i).match(/^\s*,?\s*(\w[\w-]*)\s*=/);
+      if (!name) break;
+      const { value, end } = readValue(text, i + name[0].length);
+      fields[name[1].toLowerCase()] = value.replace(/\s+/g, ' ').trim();
+      i = end;
+    }
+    head.lastIndex = i;
+    entries.push(createEntry({
+      type: TYPES[type] || 'misc',
+      key: match[2] || undefined,
+      authors: parseBibAuthors(fields.author || fields.editor || ''),
+      title: detex(fields.title || ''),
+      venue: detex(fields.journal || fields.booktitle || fields.publisher || fields.howpublished || ''),
+      year: fields.year || '',
+      volume: fields.volume || undefined,
+      issue: fields.number || undefined,
+      pages: fields.pages ? fields.pages.replace(/-+/g, '-') : undefined,
+      doi: fields.doi || undefined,
+      url: fields.url || undefined
+    }));
+  }
+  return entries;
+};
+
+const asciiWord = (s: string) => s.normalize('NFD').replace(/[^A-Za-z0-9]/g, '').toLowerCase();
+
+// Keeps existing keys and derives "smith2020deep"-style keys for the rest, unique within the list.
+export const assignCitationKeys = (entries: BibEntry[]): BibEntry[] => {
+  const used = new Set(entries.map(e => e.key).filter(Boolean));
+  return entries.map(e => {
+    if (e.key) return e;
+    const surname = asciiWord(e.authors.filter(a => a !== ET_AL).map(a => splitName(a).last)[0] || 'anon');
+    const word = asciiWord(e.title.split(/\s+/).find(w => w.length > 3 && !/^(the|with|from|that|this)$/i.test(w)) || '');
+    const base = `${surname}${e.year}${word}` || 'ref';
+    let key = base;
+    for (let n = 0; used.has(key); n++) key = `${base}${String.fromCharCode(97 + (n % 26))}${n >= 26 ? n : ''}`;
+    used.add(key);
+    return { ...e, key };
+  });
+};
+
+const BIB_TYPES: Record<BibEntryType, string> = { article: 'article', book: 'book', inproceedings: 'inproceedings', misc: 'misc' };
+
+export const toBibtex = (entries: BibEntry[]) => assignCitationKeys(entries).map(e => {
+  const venueField = e.type === 'book' ? 'publisher' : e.type === 'inproceedings' ? 'booktitle' : e.type === 'article' ? 'journal' : 'howpublished';
+  const fields: [string, string | undefined][] = [
+    ['author', e.authors.map(a => a === ET_AL ? 'others' : escapeBib(a)).join(' and ') || undefined],
+    // Double braces keep BibTeX styles from lower-casing acronyms in titles.
+    ['title', e.title ? `{${escapeBib(e.title)}}` : undefined],
+    [venueField, e.venue ? escapeBib(e.venue) : undefined],
+    ['year', e.year || undefined],
+    ['volume', e.volume],
+    ['number', e.issue],
+    ['pages', e.pages?.replace(/-+/g, '--')],
+    ['doi', e.doi],
+    ['url', e.url]
+  ];
+  const body = fields.filter(([, v]) => v).map(([k, v]) => `  ${k} = {${v}}`).join(',\n');
+  return `@${BIB_TYPES[e.type]}{${e.key},\n${body}\n}`;
+}).join('\n\n');
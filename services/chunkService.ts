@@ -0,0 +1,146 @@
+import { AnalysisIssue, ChunkProgress, PaperSection } from "../types";
+import { isReferencesSection } from "./citationStyleService";
+import { headingMark, sectionLevel, wordCount } from "./outlineService";
+
+// Analyses that would need the whole manuscript in one prompt run section by section instead (map), and the
+// findings are joined afterwards (reduce). Nothing is cut off: a section too long for one call is split.
+
+// Characters of manuscript text per model call, about 4,000 tokens. Enough for most sections whole, and small
+// enough that the instructions and the reply fit every provider's context window alongside it.
+export const CHUNK_BUDGET = 16000;
+// Calls in flight at once; more mostly trades speed for rate-limit errors.
+const PARALLEL_CHUNKS = 2;
+
+export interface Chunk {
+  id: string;
+  sectionId: string;
+  title: string;
+  label: string;
+  // The section's heading followed by this part of its content.
+  text: string;
+}
+
+export interface ChunkResult<R> {
+  chunk: Chunk;
+  value: R;
+}
+
+// Offset just after the last match of a global pattern, or -1.
+const lastBreak = (text: string, pattern: RegExp) => {
+  let at = -1;
+  for (const m of text.matchAll(pattern)) at = m.index! + m[0].length;
+  return at;
+};
+
+// Cuts at the last paragraph break inside the budget, else the last sentence end, else mid-sentence.
+// A break in the first half is passed over, since it would leave a piece too small to judge.
+const splitText = (text: string, budget: number): string[] => {
+  if (text.length <= budget) return [text];
+  const head = text.substring(0, budget);
+  const at = [lastBreak(head, /\n\s*\n/g), lastBreak(head, /[.!?]["')\]]?\s+/g)].find(i => i > budget / 2) ?? budget;
+  return [text.substring(0, at).trim(), ...splitText(text.substring(at).trim(), budget)];
+};
+
+// One chunk per section with text, and more for a section over the budget. The reference list is left out;
+// it is checked locally.
+export const chunkSections = (sections: PaperSection[], budget = CHUNK_BUDGET): Chunk[] =>
+  sections.filter(s => !s.generated && !isReferencesSection(s) && s.content.trim()).flatMap(section => {
+    const heading = `${headingMark(section)} ${section.title}\n\n`;
+    const parts = splitText(section.content.trim(), budget - heading.length);
+    return parts.map((part, i) => ({
+      id: parts.length > 1 ? `${section.id}-${i + 1}` : section.id,
+      sectionId: section.id,
+      title: section.title,
+      label: parts.length > 1 ? `${section.title} (part ${i + 1} of ${parts.length})` : section.title,
+      text: heading + part
+    }));
+  });
+
+// The headings with their lengths, so a call that sees one section knows where it sits in the paper.
+export const outlineOf = (sections: PaperSection[]) =>
+  sections.map(s => `${"  ".repeat(sectionLevel(s) - 1)}- ${s.title} (${wordCount(s.content)} words)`).join("\n");
+
+// The manuscript for a call that needs all of it at once, such as the agent's. Sections go in whole while the
+// budget lasts, the preferred ones first; the rest keep their heading and say how to read them.
+export const fitSections = (sections: PaperSection[], budget: number, prefer: (s: PaperSection) => boolean = () => false) => {
+  const included = new Set<string>();
+  let used = 0;
+  [...sections.filter(prefer), ...sections.filter(s => !prefer(s))].forEach(s => {
+    const size = s.title.length + s.content.length + 8;
+    if (used + size > budget) return;
+    included.add(s.id);
+    used += size;
+  });
+  return sections.map(s => `${headingMark(s)} ${s.title}\n\n${included.has(s.id)
+    ? s.content
+    : `[Left out to stay within the length limit: ${wordCount(s.content)} words. Use readSection to read it.]`}`).join("\n\n");
+};
+
+interface MapOptions<R> {
+  signal?: AbortSignal;
+  // Called as each chunk starts, finishes or fails, with the results so far in document order.
+  onProgress?: (progress: ChunkProgress[], results: ChunkResult<R>[]) => void;
+}
+
+// Runs every chunk, a few at a time. A failed chunk is recorded and skipped so one bad reply does not sink the
+// whole analysis; stopping aborts the calls in flight and rejects.
+export const mapChunks = async <R>(
+  chunks: Chunk[],
+  run: (chunk: Chunk) => Promise<R>,
+  { signal, onProgress }: MapOptions<R> = {}
+): Promise<{ results: ChunkResult<R>[], failed: ChunkProgress[], progress: ChunkProgress[] }> => {
+  let progress: ChunkProgress[] = chunks.map(c => ({ id: c.id, label: c.label, status: 'pending' }));
+  const values = new Map<Chunk, R>();
+  const results = () => chunks.filter(c => values.has(c)).map(chunk => ({ chunk, value: values.get(chunk)! }));
+  const mark = (i: number, status: ChunkProgress['status'], error?: string) => {
+    progress = progress.map((p, n) => n === i ? { ...p, status, error } : p);
+    onProgress?.(progress, results());
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < chunks.length && !signal?.aborted) {
+      const i = next++;
+      mark(i, 'running');
+      try {
+        values.set(chunks[i], await run(chunks[i]));
+        mark(i, 'done');
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        console.error(`Analysis of "${chunks[i].label}" failed`, e);
+        mark(i, 'failed', (e as Error).message);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(PARALLEL_CHUNKS, chunks.length) }, worker));
+  signal?.throwIfAborted();
+  return { results: results(), failed: progress.filter(p => p.status === 'failed'), progress };
+};
+
+const normalize = (text?: string) => (text || "").trim().toLowerCase().replace(/\s+/g, " ");
+
+// Joins the findings of every chunk, placing each in its section. A finding repeated on the same passage of a
+// section, or under the same title when it quotes no passage, is kept once. Ids get the chunk's, so they stay unique.
+export const mergeChunkIssues = (results: ChunkResult<AnalysisIssue[]>[]): AnalysisIssue[] => {
+  const merged: (AnalysisIssue & { sectionId: string })[] = [];
+  results.forEach(({ chunk, value }) => value.forEach((issue, n) => {
+    const snippet = normalize(issue.snippet);
+    const duplicate = merged.some(m => {
+      const other = normalize(m.snippet);
+      return snippet
+        ? m.sectionId === chunk.sectionId && !!other && (other.includes(snippet) || snippet.includes(other))
+        : !other && normalize(m.title) === normalize(issue.title);
+    });
+    if (!duplicate) merged.push({ ...issue, id: `${chunk.id}-${issue.id || n}`, location: chunk.title, sectionId: chunk.sectionId });
+  }));
+  return merged.map(({ sectionId, ...issue }) => issue);
+};
+
+// Names the parts of a run that failed and why, or undefined when every part succeeded.
+export const describeFailures = (progress: ChunkProgress[] = []) => {
+  const failed = progress.filter(p => p.status === 'failed');
+  if (failed.length === 0) return undefined;
+  return failed.length === 1
+    ? `"${failed[0].label}" could not be analysed, so it has no findings. ${failed[0].error || ""}`.trim()
+    : `${failed.length} parts (${failed.map(p => `"${p.label}"`).join(", ")}) could not be analysed, so they have no findings. ${failed[0].error || ""}`.trim();
+};
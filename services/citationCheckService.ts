@@ -0,0 +1,156 @@
+import { AnalysisIssue, BibEntry, IssueAnchor, JournalProfile, PaperSection } from "../types";
+import { ET_AL, isDuplicate, splitName } from "./bibliographyService";
+import { CITATION_STYLES, CitationMarker, CitedWork, formatInTextCitation, isReferencesSection, journalMarkers, offStyleMarkers } from "./citationStyleService";
+
+const surnames = (e: BibEntry) => e.authors.filter(a => a !== ET_AL).map(a => splitName(a).last.toLowerCase());
+
+const editDistance = (a: string, b: string) => {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) row.push(Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)));
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+const titleWords = (title: string) => new Set(title.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length > 3));
+
+// Catches the same work entered twice with a reworded or truncated title, which exact matching misses.
+const isLikelyDuplicate = (a: BibEntry, b: BibEntry) => {
+  if (isDuplicate(a, b)) return true;
+  if (!a.year || a.year !== b.year || surnames(a)[0] !== surnames(b)[0]) return false;
+  const wa = titleWords(a.title);
+  const wb = titleWords(b.title);
+  const shared = [...wa].filter(w => wb.has(w)).length;
+  return shared > 0 && shared / Math.min(wa.size, wb.size) >= 0.6;
+};
+
+const referenceAnchor = (sections: PaperSection[], bibliography: BibEntry[], entry: BibEntry): IssueAnchor | undefined => {
+  const refs = sections.find(s => s.generated === 'references');
+  const index = bibliography.findIndex(e => e.id === entry.id);
+  if (!refs || index === -1) return undefined;
+  // The generated list renders one entry per line, in bibliography order.
+  const lines = refs.content.split('\n');
+  if (index >= lines.length) return undefined;
+  const start = lines.slice(0, index).reduce((n, l) => n + l.length + 1, 0);
+  return { sectionId: refs.id, start, end: start + lines[index].length };
+};
+
+const describeEntry = (e: BibEntry) => `${e.authors.filter(a => a !== ET_AL).map(a => splitName(a).last).slice(0, 2).join(' & ') || 'Anonymous'} (${e.year || 'n.d.'}), "${e.title}"`;
+
+// Explains why an author-date citation did not resolve, pointing at the entry the author probably meant.
+const diagnoseAuthorDate = (cite: CitedWork, bibliography: BibEntry[]) => {
+  const surname = (cite.surname || '').toLowerCase();
+  const year = (cite.year || '').replace(/[a-z]$/, '');
+  const sameAuthor = bibliography.filter(e => surnames(e)[0] === surname);
+  if (sameAuthor.length > 0) return { kind: 'year' as const, candidates: sameAuthor };
+  const sameYear = bibliography.filter(e => e.year === year);
+  const coauthor = sameYear.filter(e => surnames(e).includes(surname));
+  if (coauthor.length > 0) return { kind: 'order' as const, candidates: coauthor };
+  const misspelt = sameYear.filter(e => surnames(e)[0] && editDistance(surnames(e)[0], surname) <= 2);
+  if (misspelt.length > 0) return { kind: 'spelling' as const, candidates: misspelt };
+  return null;
+};
+
+const markerIssueFor = (sections: PaperSection[]) => (m: CitationMarker, id: string, fields: Omit<AnalysisIssue, 'id' | 'snippet' | 'anchor' | 'location'>): AnalysisIssue => ({
+  id: `cite-${id}-${m.sectionId}-${m.start}`,
+  snippet: m.text,
+  anchor: { sectionId: m.sectionId, start: m.start, end: m.end },
+  location: sections.find(s => s.id === m.sectionId)?.title || '',
+  ...fields
+});
+
+// Resolved markers written in another journal's format, e.g. "(Smith, 2020)" in an IEEE manuscript.
+export const checkMarkerStyle = (sections: PaperSection[], bibliography: BibEntry[], journal: JournalProfile, markers = offStyleMarkers(sections, bibliography, journal)) => {
+  const markerIssue = markerIssueFor(sections);
+  const family = CITATION_STYLES[journal.referenceStyle].family;
+  return markers.map(m => markerIssue(m, 'style', {
+      type: 'info',
+      title: `Citation not in ${journal.name} style`,
+      description: `${m.text} is a ${m.family} citation; ${journal.name} uses ${family} citations.`,
+      suggestion: 'Rewrite the citation in the journal style.',
+      replacement: formatInTextCitation(m.cites.map(c => bibliography.find(e => e.id === c.entryId)!), bibliography, journal)
+    }));
+};
+
+// Deterministic cross-check of in-text markers against the bibliography store. No LLM involved.
+export const checkCitations = (sections: PaperSection[], bibliography: BibEntry[], journal: JournalProfile) => {
+  const markers = journalMarkers(sections, bibliography, journal);
+  const offStyle = offStyleMarkers(sections, bibliography, journal);
+  const issues: AnalysisIssue[] = [];
+  const markerIssue = markerIssueFor(sections);
+  // Rewriting a single work of a multi-work marker keeps the others as they were written.
+  const replaceCite = (m: CitationMarker, cite: CitedWork, entry: BibEntry) =>
+    m.cites.length === 1 ? formatInTextCitation([entry], bibliography, journal) : m.text.replace(cite.raw, formatInTextCitation([entry], bibliography, journal).replace(/^\(|\)$/g, ''));
+
+  markers.forEach(m => {
+    m.cites.forEach((cite, i) => {
+      if (cite.entryId) return;
+      if (cite.number !== undefined) {
+        issues.push(markerIssue(m, `orphan${i}`, {
+          type: 'error',
+          title: `Citation [${cite.number}] has no reference`,
+          description: `The bibliography has ${bibliography.length} ${bibliography.length === 1 ? 'entry' : 'entries'}, so number ${cite.number} points at nothing.`
+        }));
+        return;
+      }
+      const diagnosis = diagnoseAuthorDate(cite, bibliography);
+      if (!diagnosis) {
+        issues.push(markerIssue(m, `orphan${i}`, {
+          type: 'error',
+          title: `Orphaned citation: ${cite.raw}`,
+          description: `No bibliography entry matches "${cite.raw}". Add the work to the bibliography or remove the citation.`
+        }));
+        return;
+      }
+      const [best] = diagnosis.candidates;
+      const single = diagnosis.candidates.length === 1;
+      const title = diagnosis.kind === 'year' ? `Year mismatch: ${cite.raw}` : `Author mismatch: ${cite.raw}`;
+      const reason = diagnosis.kind === 'year'
+        ? `the bibliography lists ${cite.surname} for ${diagnosis.candidates.map(e => e.year || 'n.d.').join(', ')}, not ${cite.year}`
+        : diagnosis.kind === 'order'
+          ? `${cite.surname} is a co-author, not the first author, of ${describeEntry(best)}`
+          : `the closest entry is ${describeEntry(best)}`;
+      issues.push(markerIssue(m, `mismatch${i}`, {
+        type: 'error',
+        title,
+        description: `"${cite.raw}" does not match any entry: ${reason}.`,
+        ...(single ? { suggestion: `Cite ${describeEntry(best)} instead.`, replacement: replaceCite(m, cite, best) } : {})
+      }));
+    });
+  });
+  issues.push(...checkMarkerStyle(sections, bibliography, journal, offStyle));
+
+  const citedIds = new Set([...markers, ...offStyle].flatMap(m => m.cites.map(c => c.entryId).filter(Boolean)));
+  bibliography.filter(e => !citedIds.has(e.id)).forEach(e => issues.push({
+    id: `cite-uncited-${e.id}`,
+    type: 'warning',
+    title: 'Uncited reference',
+    description: `${describeEntry(e)} is in the bibliography but never cited in the text.`,
+    anchor: referenceAnchor(sections, bibliography, e),
+    location: sections.find(isReferencesSection)?.title
+  }));
+
+  bibliography.forEach((a, i) => bibliography.slice(i + 1).filter(b => isLikelyDuplicate(a, b)).forEach(b => issues.push({
+    id: `cite-duplicate-${a.id}-${b.id}`,
+    type: 'warning',
+    title: 'Likely duplicate references',
+    description: `${describeEntry(a)} and ${describeEntry(b)} look like the same work. Merge them in the Bibliography.`,
+    anchor: referenceAnchor(sections, bibliography, b),
+    location: sections.find(isReferencesSection)?.title
+  })));
+
+  const count = (prefix: string) => issues.filter(i => i.id.startsWith(`cite-${prefix}`)).length;
+  const problems = ([
+    [count('orphan'), 'orphaned'],
+    [count('mismatch'), 'mismatched'],
+    [count('uncited'), 'uncited'],
+    [count('duplicate'), 'possible duplicate'],
+    [count('style'), 'off-style']
+  ] as [number, string][]).filter(([n]) => n > 0).map(([n, label]) => `${n} ${label}`);
+  const citations = [...markers, ...offStyle].reduce((n, m) => n + m.cites.length, 0);
+  const generalFeedback = `Checked ${citations} in-text ${citations === 1 ? 'citation' : 'citations'} against ${bibliography.length} ${bibliography.length === 1 ? 'reference' : 'references'}. `
+    + (problems.length ? `Found ${problems.join(', ')}.` : 'Every citation resolves and every reference is cited.');
+  return { issues, generalFeedback };
+};
@@ -0,0 +1,394 @@
+import { BibEntry, DocumentState, JournalProfile, PaperSection, ReferenceStyle } from "../types";
+import { ET_AL, splitName, toInitials } from "./bibliographyService";
+import { createId } from "./storageService";
+
+export type CitationFamily = 'author-date' | 'author-title' | 'numeric' | 'superscript';
+
+interface CitationStyleSpec {
+  family: CitationFamily;
+  // Numbered list prefix, e.g. "[1] " or "1. "; author-date lists are unnumbered.
+  listPrefix?: (n: number) => string;
+  formatReference: (e: BibEntry, yearLabel: string) => string;
+}
+
+export interface CitedWork {
+  raw: string;
+  entryId: string | null;
+  surname?: string;
+  year?: string;
+  number?: number;
+}
+
+export interface CitationMarker {
+  sectionId: string;
+  start: number;
+  end: number;
+  text: string;
+  family: CitationFamily;
+  cites: CitedWork[];
+}
+
+const NAME_FAMILIES: CitationFamily[] = ['author-date', 'author-title'];
+
+const SUPERSCRIPT_DIGITS = "⁰¹²³⁴⁵⁶⁷⁸⁹";
+const REFERENCE_TITLE = /^\s*(references|bibliography|works cited|literature cited)\s*$/i;
+
+// ---------- Author helpers ----------
+
+const named = (authors: string[]) => authors.filter(a => a !== ET_AL).map(splitName);
+const truncated = (authors: string[]) => authors.includes(ET_AL);
+const surnameOf = (e: BibEntry) => named(e.authors)[0]?.last || e.title.split(/\s+/)[0] || 'Anon';
+const dash = (pages?: string) => pages?.replace(/-+/g, '–');
+
+const joinList = (items: string[], conjunction: string, serialComma = true) => {
+  if (items.length <= 1) return items.join('');
+  if (items.length === 2) return `${items[0]} ${conjunction} ${items[1]}`;
+  return `${items.slice(0, -1).join(', ')}${serialComma ? ',' : ''} ${conjunction} ${items[items.length - 1]}`;
+};
+
+const withPeriod = (s: string) => /[.?!]$/.test(s) ? s : `${s}.`;
+
+// ---------- Reference formats ----------
+
+const formatAPA = (e: BibEntry, yearLabel: string) => {
+  const people = named(e.authors).map(({ last, first }) => first ? `${last}, ${toInitials(first)}` : last);
+  const authorText = truncated(e.authors) ? `${people.join(', ')}, et al.` : people.length > 1
+    ? `${people.slice(0, -1).join(', ')}, & ${people[people.length - 1]}`
+    : people.join('');
+  const parts = [authorText ? `${authorText} (${yearLabel}).` : '', withPeriod(e.title)];
+  if (!authorText) parts.push(`(${yearLabel}).`);
+  if (e.venue) {
+    let venue = e.type === 'inproceedings' ? `In ${e.venue}` : e.venue;
+    if (e.volume) venue += `, ${e.volume}${e.issue ? `(${e.issue})` : ''}`;
+    if (e.pages) venue += `, ${dash(e.pages)}`;
+    parts.push(`${venue}.`);
+  }
+  if (e.doi) parts.push(`https://doi.org/${e.doi}`);
+  else if (e.url) parts.push(e.url);
+  return parts.filter(Boolean).join(' ');
+};
+
+const formatMLA = (e: BibEntry) => {
+  const people = named(e.authors);
+  let authorText = '';
+  if (people.length === 1 && !truncated(e.authors)) authorText = [people[0].last, people[0].first].filter(Boolean).join(', ');
+  else if (people.length === 2 && !truncated(e.authors)) authorText = `${[people[0].last, people[0].first].filter(Boolean).join(', ')}, and ${[people[1].first, people[1].last].filter(Boolean).join(' ')}`;
+  else if (people.length > 0) authorText = `${[people[0].last, people[0].first].filter(Boolean).join(', ')}, et al`;
+  const container = [e.venue, e.volume && `vol. ${e.volume}`, e.issue && `no. ${e.issue}`, e.year, e.pages && `pp. ${dash(e.pages)}`].filter(Boolean).join(', ');
+  return [authorText && withPeriod(authorText), `"${withPeriod(e.title)}"`, container && `${container}.`, e.doi ? `https://doi.org/${e.doi}.` : e.url ? `${e.url}.` : '']
+    .filter(Boolean).join(' ');
+};
+
+const formatIEEE = (e: BibEntry) => {
+  const people = named(e.authors).map(({ last, first }) => first ? `${toInitials(first)} ${last}` : last);
+  const authorText = truncated(e.authors) || people.length > 6 ? `${people[0]} et al.` : joinList(people, 'and');
+  const details = [
+    e.venue && (e.type === 'inproceedings' ? `in ${e.venue}` : e.venue),
+    e.volume && `vol. ${e.volume}`,
+    e.issue && `no. ${e.issue}`,
+    e.pages && `pp. ${dash(e.pages)}`,
+    e.year,
+    e.doi && `doi: ${e.doi}`
+  ].filter(Boolean).join(', ');
+  return `${authorText ? `${authorText}, ` : ''}"${e.title}," ${details}.`;
+};
+
+const formatNature = (e: BibEntry) => {
+  const people = named(e.authors).map(({ last, first }) => first ? `${last}, ${toInitials(first)}` : last);
+  const authorText = truncated(e.authors) || people.length > 5
+    ? `${people[0]} et al.`
+    : people.length > 1 ? `${people.slice(0, -1).join(', ')} & ${people[people.length - 1]}` : people.join('');
+  const venue = [e.venue, e.volume && `${e.volume},`, dash(e.pages)].filter(Boolean).join(' ').replace(/,$/, '');
+  return [authorText && withPeriod(authorText), withPeriod(e.title), `${venue}${venue ? ' ' : ''}(${e.year || 'n.d.'}).`].filter(Boolean).join(' ');
+};
+
+const formatAMA = (e: BibEntry) => {
+  const people = named(e.authors).map(({ last, first }) => first ? `${last} ${toInitials(first, '').replace(/[.\-]/g, '')}` : last);
+  const authorText = truncated(e.authors) || people.length > 6 ? `${people.slice(0, 3).join(', ')}, et al` : people.join(', ');
+  const locator = `${e.year || 'n.d.'}${e.volume ? `;${e.volume}` : ''}${e.issue ? `(${e.issue})` : ''}${e.pages ? `:${e.pages}` : ''}`;
+  return [authorText && withPeriod(authorText), withPeriod(e.title), e.venue && withPeriod(e.venue), `${locator}.`, e.doi ? `doi:${e.doi}` : e.url || '']
+    .filter(Boolean).join(' ');
+};
+
+export const CITATION_STYLES: Record<ReferenceStyle, CitationStyleSpec> = {
+  apa: { family: 'author-date', formatReference: formatAPA },
+  mla: { family: 'author-title', formatReference: formatMLA },
+  ieee: { family: 'numeric', listPrefix: n => `[${n}] `, formatReference: formatIEEE },
+  nature: { family: 'superscript', listPrefix: n => `${n}. `, formatReference: formatNature },
+  ama: { family: 'superscript', listPrefix: n => `${n}. `, formatReference: formatAMA }
+};
+
+const styleOf = (journal: JournalProfile) => CITATION_STYLES[journal.referenceStyle];
+
+export const isNumbered = (journal: JournalProfile) => styleOf(journal).family === 'numeric' || styleOf(journal).family === 'superscript';
+
+// ---------- Disambiguation ----------
+
+// APA distinguishes same-author, same-year works as 2020a, 2020b.
+const yearLabels = (bibliography: BibEntry[]): Map<string, string> => {
+  const groups = new Map<string, BibEntry[]>();
+  bibliography.forEach(e => {
+    // Works collide when they would print the same in-text names, e.g. two "Smith et al., 2020".
+    const key = `${authorDateNames(e, '&')}#${e.year}`;
+    groups.set(key, [...(groups.get(key) || []), e]);
+  });
+  const labels = new Map<string, string>();
+  groups.forEach(group => {
+    const sorted = [...group].sort((a, b) => a.title.localeCompare(b.title));
+    sorted.forEach((e, i) => labels.set(e.id, `${e.year || 'n.d.'}${group.length > 1 && e.year ? String.fromCharCode(97 + i) : ''}`));
+  });
+  return labels;
+};
+
+const shortTitle = (e: BibEntry) => e.title.split(/[:.?]/)[0].split(/\s+/).slice(0, 4).join(' ');
+
+// ---------- In-text formatting ----------
+
+const authorDateNames = (e: BibEntry, conjunction: '&' | 'and') => {
+  const people = named(e.authors);
+  if (people.length === 0) return `"${shortTitle(e)}"`;
+  if (people.length === 1 && !truncated(e.authors)) return people[0].last;
+  if (people.length === 2 && !truncated(e.authors)) return `${people[0].last} ${conjunction} ${people[1].last}`;
+  return `${people[0].last} et al.`;
+};
+
+const compressNumbers = (numbers: number[], rangeDash: string) => {
+  const sorted = [...new Set(numbers)].sort((a, b) => a - b);
+  const out: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1] === sorted[j] + 1) j++;
+    out.push(j - i >= 2 ? `${sorted[i]}${rangeDash}${sorted[j]}` : j === i + 1 ? `${sorted[i]},${sorted[j]}` : `${sorted[i]}`);
+    i = j;
+  }
+  return out.join(',');
+};
+
+const toSuperscript = (s: string) => s.replace(/\d/g, d => SUPERSCRIPT_DIGITS[Number(d)]).replace(/[–-]/g, '⁻');
+
+export const formatInTextCitation = (cited: BibEntry[], bibliography: BibEntry[], journal: JournalProfile) => {
+  const spec = styleOf(journal);
+  if (spec.family === 'numeric' || spec.family === 'superscript') {
+    const numbers = cited.map(e => bibliography.findIndex(b => b.id === e.id) + 1).filter(n => n > 0);
+    return spec.family === 'numeric'
+      ? `[${compressNumbers(numbers, '–').replace(/,/g, ', ')}]`
+      : toSuperscript(compressNumbers(numbers, '–'));
+  }
+  if (spec.family === 'author-title') {
+    return `(${cited.map(e => {
+      const name = authorDateNames(e, 'and');
+      const ambiguous = bibliography.some(b => b.id !== e.id && surnameOf(b) === surnameOf(e));
+      return ambiguous ? `${name}, "${shortTitle(e)}"` : name;
+    }).join('; ')})`;
+  }
+  const labels = yearLabels(bibliography);
+  return `(${cited.map(e => `${authorDateNames(e, '&')}, ${labels.get(e.id) || e.year || 'n.d.'}`).join('; ')})`;
+};
+
+// ---------- Marker parsing ----------
+
+const AUTHOR_DATE = /\(([^()]*?\b(?:1[5-9]|20)\d{2}[a-z]?\b[^()]*?)\)/g;
+const AUTHOR_TITLE = /\(([A-Z][A-Za-z'’\-]+(?:\s+(?:and|&)\s+[A-Z][A-Za-z'’\-]+|\s+et al\.)?(?:,\s*"[^"]+")?(?:\s*;\s*[A-Z][A-Za-z'’\-]+(?:\s+(?:and|&)\s+[A-Z][A-Za-z'’\-]+|\s+et al\.)?(?:,\s*"[^"]+")?)*)\)/g;
+const NUMERIC = /\[(\d+(?:\s*[–\-,]\s*\d+)*)\]/g;
+const SUPERSCRIPT = /[⁰¹²³⁴⁵⁶⁷⁸⁹]+(?:[,⁻][⁰¹²³⁴⁵⁶⁷⁸⁹]+)*/g;
+
+const expandNumbers = (list: string) => list.split(',').flatMap(part => {
+  const [a, b] = part.split(/[–\-⁻]/).map(n => parseInt(n.trim(), 10));
+  if (isNaN(a)) return [];
+  if (isNaN(b) || b < a || b - a > 200) return [a];
+  return Array.from({ length: b - a + 1 }, (_, i) => a + i);
+});
+
+const fromSuperscript = (s: string) => s.replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹]/g, c => String(SUPERSCRIPT_DIGITS.indexOf(c))).replace(/⁻/g, '-');
+
+const resolveAuthorDate = (part: string, bibliography: BibEntry[], labels: Map<string, string>): CitedWork | null => {
+  const m = part.trim()
+    .replace(/^(?:see also|see|e\.g\.,?|cf\.|i\.e\.,?)\s+/i, '')
+    .match(/^(.+?),?\s+((?:1[5-9]|20)\d{2}[a-z]?|n\.d\.)(?:,\s*(?:p|pp)\.\s*[\d–\-]+)?$/);
+  if (!m) return null;
+  const names = m[1].trim();
+  if (!/^["A-Z]/.test(names)) return null;
+  const surname = names.replace(/^"/, '').split(/\s*(?:&|\band\b|et al\.?|,)\s*/)[0].trim();
+  const year = m[2];
+  const entry = bibliography.find(e => surnameOf(e).toLowerCase() === surname.toLowerCase() && (labels.get(e.id) === year || e.year === year))
+    || bibliography.find(e => e.authors.length === 0 && names.includes(shortTitle(e)) && e.year === year.replace(/[a-z]$/, ''));
+  return { raw: part.trim(), entryId: entry?.id || null, surname, year };
+};
+
+const resolveAuthorTitle = (part: string, bibliography: BibEntry[]): CitedWork | null => {
+  const m = part.trim().match(/^([A-Z][A-Za-z'’\-]+)[^,"]*(?:,\s*"([^"]+)")?$/);
+  if (!m) return null;
+  const candidates = bibliography.filter(e => surnameOf(e).toLowerCase() === m[1].toLowerCase());
+  const entry = m[2] ? candidates.find(e => shortTitle(e) === m[2] || e.title.startsWith(m[2])) : candidates[0];
+  return entry ? { raw: part.trim(), entryId: entry.id, surname: m[1] } : null;
+};
+
+// Superscript digits also write powers and units ("10²", "x²", "10 m²", "E = mc²", "(a+b)²"). A citation follows
+// a word, or the punctuation straight after one ("shown.¹"), that is not part of a measurement or a formula.
+// Symbols and units ("mc", "km") are told from words by having no vowel.
+const isSuperscriptCitation = (before: string) => {
+  const m = before.match(/([A-Za-zµ]+)[.,;:"”’]?$/);
+  if (!m || m[1].length < 2 || !/[aeiouy]/i.test(m[1])) return false;
+  return !/(?:\d|[=+−*/^×·<>(]|\s-)\s*$/.test(before.substring(0, before.length - m[0].length));
+};
+
+// Bracketed numbers also index arrays ("a[1]", "x_i[2]") and number steps and items ("step [3]").
+const LABELLED_NUMBER = /\b(?:steps?|items?|stages?|phases?|lines?|rows?|columns?|cases?|options?|points?|rules?|conditions?|equations?|eqs?\.?|eqn\.?|figures?|figs?\.?|tables?|sections?|chapters?|appendix|parts?|notes?|lists?|entries|entry|elements?|indices|index|positions?)\s*$/i;
+
+const isNumericCitation = (before: string, after: string) => {
+  if (LABELLED_NUMBER.test(before) || /^\s*(?:\[|=)/.test(after)) return false;
+  // Attached to a word ("shown[1]") it is a citation missing its space; attached to an identifier it is an index.
+  const attached = before.match(/\w+$/)?.[0];
+  return !attached || /^[A-Za-z]{2,}$/.test(attached);
+};
+
+// Only the families asked for are parsed. Numbered markers are read by list position, so looking for them in a
+// document whose style does not number citations would turn brackets and exponents in the prose into citations.
+export const findCitationMarkers = (sections: PaperSection[], bibliography: BibEntry[], families: CitationFamily[]): CitationMarker[] => {
+  const labels = yearLabels(bibliography);
+  const byNumber = (n: number): CitedWork => ({ raw: String(n), entryId: bibliography[n - 1]?.id || null, number: n });
+  const markers: CitationMarker[] = [];
+
+  sections.filter(s => !s.generated && !REFERENCE_TITLE.test(s.title)).forEach(section => {
+    const text = section.content;
+    const found: CitationMarker[] = [];
+    const add = (m: RegExpExecArray, family: CitationFamily, cites: CitedWork[]) =>
+      found.push({ sectionId: section.id, start: m.index, end: m.index + m[0].length, text: m[0], family, cites });
+
+    if (families.includes('author-date')) {
+      for (const m of text.matchAll(AUTHOR_DATE)) {
+        const cites = m[1].split(';').map(p => resolveAuthorDate(p, bibliography, labels));
+        // Parentheticals like "(n = 2020 participants)" contain a year but are not citations.
+        if (cites.every((c): c is CitedWork => c !== null)) add(m as RegExpExecArray, 'author-date', cites);
+      }
+    }
+    if (families.includes('author-title')) {
+      for (const m of text.matchAll(AUTHOR_TITLE)) {
+        const cites = m[1].split(';').map(p => resolveAuthorTitle(p, bibliography));
+        // Without a year, only parentheticals that resolve to a known work count as citations.
+        if (cites.every((c): c is CitedWork => c !== null)) add(m as RegExpExecArray, 'author-title', cites);
+      }
+    }
+    if (families.includes('numeric')) {
+      for (const m of text.matchAll(NUMERIC)) {
+        if (!isNumericCitation(text.substring(0, m.index), text.substring(m.index! + m[0].length))) continue;
+        add(m as RegExpExecArray, 'numeric', expandNumbers(m[1]).map(byNumber));
+      }
+    }
+    if (families.includes('superscript')) {
+      for (const m of text.matchAll(SUPERSCRIPT)) {
+        if (!isSuperscriptCitation(text.substring(0, m.index))) continue;
+        add(m as RegExpExecArray, 'superscript', expandNumbers(fromSuperscript(m[0])).map(byNumber));
+      }
+    }
+
+    found.sort((a, b) => a.start - b.start)
+      .filter((m, i, arr) => i === 0 || m.start >= arr[i - 1].end)
+      .forEach(m => markers.push(m));
+  });
+  return markers;
+};
+
+// The markers a document in this journal's style contains.
+export const journalMarkers = (sections: PaperSection[], bibliography: BibEntry[], journal: JournalProfile) =>
+  findCitationMarkers(sections, bibliography, [styleOf(journal).family]);
+
+// Name-based markers written in another style, e.g. "(Smith, 2020)" in an IEEE manuscript. Only those naming a
+// known work count; numbered markers of another style cannot be told apart from brackets and exponents.
+export const offStyleMarkers = (sections: PaperSection[], bibliography: BibEntry[], journal: JournalProfile) => {
+  const family = styleOf(journal).family;
+  return findCitationMarkers(sections, bibliography, NAME_FAMILIES.filter(f => f !== family))
+    .filter(m => m.cites.every(c => c.entryId));
+};
+
+// ---------- Ordering & rendering ----------
+
+const alphabetical = (a: BibEntry, b: BibEntry) =>
+  surnameOf(a).localeCompare(surnameOf(b)) || a.year.localeCompare(b.year) || a.title.localeCompare(b.title);
+
+export const orderBibliography = (bibliography: BibEntry[], markers: CitationMarker[], journal: JournalProfile): BibEntry[] => {
+  if (!isNumbered(journal)) return [...bibliography].sort(alphabetical);
+  const order: string[] = [];
+  markers.forEach(m => m.cites.forEach(c => { if (c.entryId && !order.includes(c.entryId)) order.push(c.entryId); }));
+  const cited = order.map(id => bibliography.find(e => e.id === id)!).filter(Boolean);
+  return [...cited, ...bibliography.filter(e => !order.includes(e.id))];
+};
+
+export const formatReferenceEntry = (entry: BibEntry, bibliography: BibEntry[], journal: JournalProfile) => {
+  const spec = styleOf(journal);
+  const label = yearLabels(bibliography).get(entry.id) || entry.year || 'n.d.';
+  const prefix = spec.listPrefix ? spec.listPrefix(bibliography.findIndex(e => e.id === entry.id) + 1) : '';
+  return `${prefix}${spec.formatReference(entry, label)}`;
+};
+
+export const previewReference = (entry: BibEntry, journal: JournalProfile) =>
+  styleOf(journal).formatReference(entry, entry.year || 'n.d.');
+
+export const renderReferenceList = (bibliography: BibEntry[], journal: JournalProfile) =>
+  bibliography.map(e => formatReferenceEntry(e, bibliography, journal)).join('\n');
+
+export const isReferencesSection = (s: PaperSection) => s.generated === 'references' || REFERENCE_TITLE.test(s.title);
+
+export const syncReferencesSection = (sections: PaperSection[], bibliography: BibEntry[], journal: JournalProfile): PaperSection[] => {
+  const idx = sections.findIndex(isReferencesSection);
+  const content = renderReferenceList(bibliography, journal);
+  if (idx === -1) {
+    if (bibliography.length === 0) return sections;
+    return [...sections, { id: createId("refs"), title: 'References', content, generated: 'references' }];
+  }
+  const current = sections[idx];
+  if (current.generated === 'references' && current.content === content) return sections;
+  return sections.map((s, i) => i === idx ? { ...s, content, generated: 'references' } : s);
+};
+
+// ---------- Restyling ----------
+
+export const rewriteMarkers = (sections: PaperSection[], markers: CitationMarker[], render: (m: CitationMarker) => string | null) =>
+  sections.map(section => {
+    const own = markers.filter(m => m.sectionId === section.id);
+    if (own.length === 0) return section;
+    let content = section.content;
+    // Right to left so earlier offsets stay valid.
+    [...own].sort((a, b) => b.start - a.start).forEach(m => {
+      const replacement = render(m);
+      if (replacement === null) return;
+      if (replacement === '') { content = content.substring(0, m.start).replace(/[ \t]+$/, '') + content.substring(m.end); return; }
+      // Superscripts attach to the preceding word; bracketed and parenthetical markers need a space.
+      const before = content.substring(0, m.start);
+      const spaced = /^[⁰¹²³⁴⁵⁶⁷⁸⁹]/.test(replacement) ? before.replace(/\s+$/, '') : /[\s(\[]$/.test(before) || before === '' ? before : `${before} `;
+      content = spaced + replacement + content.substring(m.end);
+    });
+    return content === section.content ? section : { ...section, content };
+  });
+
+const restyle = (doc: DocumentState, markers: CitationMarker[], bibliography: BibEntry[], target: JournalProfile): DocumentState => {
+  const ordered = orderBibliography(bibliography, markers, target);
+  const sections = rewriteMarkers(doc.sections, markers, m => {
+    // A marker whose every work was removed disappears; one citing an unknown work is left untouched.
+    if (m.cites.length === 0) return '';
+    if (m.cites.some(c => !c.entryId)) return null;
+    const cited = m.cites.map(c => ordered.find(e => e.id === c.entryId)!);
+    return formatInTextCitation(cited, ordered, target);
+  });
+  return { ...doc, sections, bibliography: ordered, journal: target };
+};
+
+// Rewrites every resolvable in-text marker into the target style and reorders the bibliography the way that
+// style numbers or sorts its reference list. Markers are read in the document's current style, so only a
+// journal switch converts between styles; otherwise the markers are renumbered or re-sorted in place.
+export const applyCitationStyle = (doc: DocumentState, target: JournalProfile): DocumentState =>
+  restyle(doc, journalMarkers(doc.sections, doc.bibliography, doc.journal), doc.bibliography, target);
+
+// Numbered markers point at list positions, so removing or merging entries has to renumber them.
+// `redirect` maps a merged-away entry id onto the entry that absorbed it.
+export const replaceBibliography = (doc: DocumentState, bibliography: BibEntry[], redirect: Record<string, string> = {}): DocumentState => {
+  if (!isNumbered(doc.journal)) return { ...doc, bibliography };
+  const ids = new Set(bibliography.map(e => e.id));
+  const markers = journalMarkers(doc.sections, doc.bibliography, doc.journal).map(m => ({
+    ...m,
+    cites: m.cites
+      .map(c => c.entryId ? { ...c, entryId: redirect[c.entryId] || c.entryId } : c)
+      .filter(c => !c.entryId || ids.has(c.entryId))
+  }));
+  return restyle(doc, markers, bibliography, doc.journal);
+};
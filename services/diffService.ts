@@ -0,0 +1,63 @@
+import { DiffPart } from "../types";
+
+// Above this many DP cells the middle of the diff is reported as one replace block;
+// keeps a full-section rewrite from allocating hundreds of megabytes.
+const MAX_DP_CELLS = 4_000_000;
+
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+
+const push = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) last.text += text;
+  else parts.push({ type, text });
+};
+
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const parts: DiffPart[] = [];
+  push(parts, 'equal', a.slice(0, prefix).join(''));
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n * m > MAX_DP_CELLS) {
+    push(parts, 'delete', midA.join(''));
+    push(parts, 'insert', midB.join(''));
+  } else {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..], flattened row-major.
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+      }
+    }
+    let i = 0, j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) { push(parts, 'equal', midA[i]); i++; j++; }
+      else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) { push(parts, 'delete', midA[i]); i++; }
+      else { push(parts, 'insert', midB[j]); j++; }
+    }
+    while (i < n) push(parts, 'delete', midA[i++]);
+    while (j < m) push(parts, 'insert', midB[j++]);
+  }
+
+  push(parts, 'equal', a.slice(a.length - suffix).join(''));
+  return parts;
+};
+
+export const countChanges = (parts: DiffPart[]) => ({
+  added: parts.filter(p => p.type === 'insert').reduce((n, p) => n + tokenize(p.text).filter(t => t.trim()).length, 0),
+  removed: parts.filter(p => p.type === 'delete').reduce((n, p) => n + tokenize(p.text).filter(t => t.trim()).length, 0)
+});
@@ -0,0 +1,204 @@
+import JSZip from "jszip";
+import { ImportedDocument, PaperSection } from "../types";
+import { MAX_LEVEL } from "./outlineService";
+
+interface ParseContext {
+  styleNames: Map<string, string>;
+  styleOutline: Map<string, number>;
+  numberFormats: Map<string, string>;
+  listCounters: Map<string, number>;
+  footnotes: Map<string, string>;
+  endnotes: Map<string, string>;
+}
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, "application/xml");
+
+// WordprocessingML is namespaced; matching on localName keeps the walkers prefix-agnostic.
+const children = (el: Element, name?: string) => Array.from(el.children).filter(c => !name || c.localName === name);
+const child = (el: Element | undefined, name: string) => el ? children(el, name)[0] : undefined;
+const attr = (el: Element | undefined, name: string) => el?.getAttributeNS("http://schemas.openxmlformats.org/wordprocessingml/2006/main", name) ?? el?.getAttribute(`w:${name}`) ?? undefined;
+
+const readPart = async (zip: JSZip, path: string) => {
+  const file = zip.file(path);
+  return file ? parseXml(await file.async("string")) : null;
+};
+
+const loadStyles = (doc: Document | null) => {
+  const names = new Map<string, string>();
+  const outline = new Map<string, number>();
+  if (!doc) return { names, outline };
+  Array.from(doc.getElementsByTagNameNS("*", "style")).forEach(style => {
+    const id = attr(style, "styleId");
+    if (!id) return;
+    names.set(id, (attr(child(style, "name"), "val") || id).toLowerCase());
+    const level = attr(child(child(style, "pPr"), "outlineLvl"), "val");
+    if (level !== undefined) outline.set(id, parseInt(level, 10));
+  });
+  return { names, outline };
+};
+
+// Maps "numId:level" to the list's numFmt so bullets and numbered lists come out differently.
+const loadNumbering = (doc: Document | null) => {
+  const formats = new Map<string, string>();
+  if (!doc) return formats;
+  const abstracts = new Map<string, Element>();
+  Array.from(doc.getElementsByTagNameNS("*", "abstractNum")).forEach(a => abstracts.set(attr(a, "abstractNumId") || '', a));
+  Array.from(doc.getElementsByTagNameNS("*", "num")).forEach(num => {
+    const abstract = abstracts.get(attr(child(num, "abstractNumId"), "val") || '');
+    if (!abstract) return;
+    children(abstract, "lvl").forEach(lvl => formats.set(`${attr(num, "numId")}:${attr(lvl, "ilvl")}`, attr(child(lvl, "numFmt"), "val") || 'bullet'));
+  });
+  return formats;
+};
+
+const runText = (el: Element, ctx: ParseContext): string => children(el).map(node => {
+  switch (node.localName) {
+    case "t": return node.textContent || '';
+    case "tab": return '\t';
+    case "br": case "cr": return '\n';
+    case "noBreakHyphen": return '-';
+    case "footnoteReference": return `[^${attr(node, "id")}]`;
+    case "endnoteReference": return `[^e${attr(node, "id")}]`;
+    // Deleted tracked changes and field instructions are not part of the visible text.
+    case "del": case "instrText": case "delText": case "pPr": case "rPr": return '';
+    case "r": case "hyperlink": case "ins": case "smartTag": case "fldSimple": case "sdt": case "sdtContent": return runText(node, ctx);
+    default: return '';
+  }
+}).join('');
+
+const headingLevel = (p: Element, ctx: ParseContext): number | null => {
+  const pPr = child(p, "pPr");
+  const direct = attr(child(pPr, "outlineLvl"), "val");
+  // Level 9 marks a paragraph explicitly as body text, overriding its style.
+  if (direct !== undefined) {
+    const level = parseInt(direct, 10);
+    return level < 9 ? level + 1 : null;
+  }
+  const styleId = attr(child(pPr, "pStyle"), "val");
+  if (!styleId) return null;
+  const name = ctx.styleNames.get(styleId) || '';
+  const match = name.match(/^heading\s*(\d)$/);
+  if (match) return parseInt(match[1], 10);
+  const outline = ctx.styleOutline.get(styleId);
+  return outline !== undefined && outline < 9 ? outline + 1 : null;
+};
+
+const isTitle = (p: Element, ctx: ParseContext) => {
+  const styleId = attr(child(child(p, "pPr"), "pStyle"), "val");
+  return !!styleId && ctx.styleNames.get(styleId) === 'title';
+};
+
+const listPrefix = (p: Element, ctx: ParseContext) => {
+  const numPr = child(child(p, "pPr"), "numPr");
+  const numId = attr(child(numPr, "numId"), "val");
+  if (!numPr || !numId || numId === '0') return '';
+  const level = parseInt(attr(child(numPr, "ilvl"), "val") || '0', 10);
+  const key = `${numId}:${level}`;
+  const indent = '  '.repeat(level);
+  if ((ctx.numberFormats.get(key) || 'bullet') === 'bullet') return `${indent}- `;
+  const n = (ctx.listCounters.get(key) || 0) + 1;
+  ctx.listCounters.set(key, n);
+  return `${indent}${n}. `;
+};
+
+const cellText = (tc: Element, ctx: ParseContext) =>
+  children(tc, "p").map(p => runText(p, ctx).trim()).filter(Boolean).join(' ').replace(/\|/g, '\\|');
+
+// Tables become pipe tables; the first row is treated as the header, as it is in nearly every manuscript.
+const tableToMarkdown = (tbl: Element, ctx: ParseContext) => {
+  const rows = children(tbl, "tr").map(tr => children(tr, "tc").map(tc => cellText(tc, ctx)));
+  if (rows.length === 0) return '';
+  const width = Math.max(...rows.map(r => r.length));
+  const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] || '').join(' | ')} |`;
+  return [line(rows[0]), `| ${Array(width).fill('---').join(' | ')} |`, ...rows.slice(1).map(line)].join('\n');
+};
+
+const loadNotes = (doc: Document | null, tag: "footnote" | "endnote", ctx: ParseContext) => {
+  const notes = new Map<string, string>();
+  if (!doc) return notes;
+  Array.from(doc.getElementsByTagNameNS("*", tag)).forEach(note => {
+    // Ids 0 and -1 are Word's separator notes, which carry no text of their own.
+    const type = attr(note, "type");
+    if (type === 'separator' || type === 'continuationSeparator') return;
+    const text = children(note, "p").map(p => runText(p, ctx).trim()).filter(Boolean).join(' ');
+    if (text) notes.set(attr(note, "id") || '', text);
+  });
+  return notes;
+};
+
+export const importDocx = async (data: ArrayBuffer): Promise<ImportedDocument> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new Error("This file is not a valid .docx document.");
+  }
+  const document = await readPart(zip, "word/document.xml");
+  const body = document && document.getElementsByTagNameNS("*", "body")[0];
+  if (!body) throw new Error("This .docx file has no document body.");
+
+  const { names, outline } = loadStyles(await readPart(zip, "word/styles.xml"));
+  const ctx: ParseContext = {
+    styleNames: names,
+    styleOutline: outline,
+    numberFormats: loadNumbering(await readPart(zip, "word/numbering.xml")),
+    listCounters: new Map(),
+    footnotes: new Map(),
+    endnotes: new Map()
+  };
+  ctx.footnotes = loadNotes(await readPart(zip, "word/footnotes.xml"), "footnote", ctx);
+  ctx.endnotes = loadNotes(await readPart(zip, "word/endnotes.xml"), "endnote", ctx);
+
+  // sdt wrappers (content controls, citation-manager fields) can hold whole paragraphs.
+  const blocks = (el: Element): Element[] => children(el).flatMap(c => c.localName === 'sdt' ? blocks(child(c, "sdtContent") || c) : [c]);
+  const items = blocks(body).filter(el => el.localName === 'p' || el.localName === 'tbl');
+
+  // The shallowest heading level used in the file starts a section and the next two start subsections;
+  // anything deeper stays as a line in its section.
+  const levels = items.filter(el => el.localName === 'p').map(p => headingLevel(p, ctx)).filter((l): l is number => l !== null);
+  const topLevel = levels.length ? Math.min(...levels) : null;
+
+  let title = (await readPart(zip, "docProps/core.xml"))?.getElementsByTagNameNS("*", "title")[0]?.textContent?.trim() || undefined;
+  const sections: PaperSection[] = [];
+  let current: { title: string, level: number, blocks: string[], notes: string[] } = { title: '', level: 1, blocks: [], notes: [] };
+  const flush = () => {
+    const content = [...current.blocks, ...current.notes].join('\n\n').trim();
+    if (content || current.title) sections.push({ id: `sec-${sections.length}-${Date.now()}`, title: current.title || 'Front Matter', content, level: current.level > 1 ? current.level : undefined });
+  };
+
+  let lastWasListItem = false;
+  items.forEach(el => {
+    if (el.localName !== 'p' || headingLevel(el, ctx) !== null) lastWasListItem = false;
+    if (el.localName === 'tbl') {
+      const table = tableToMarkdown(el, ctx);
+      if (table) current.blocks.push(table);
+      return;
+    }
+    const text = runText(el, ctx).replace(/[ \t]+$/gm, '');
+    if (!text.trim()) return;
+    if (isTitle(el, ctx) && sections.length === 0 && current.blocks.length === 0) {
+      title = text.trim();
+      return;
+    }
+    const level = headingLevel(el, ctx);
+    if (level !== null && topLevel !== null && level - topLevel < MAX_LEVEL) {
+      flush();
+      current = { title: text.trim(), level: level - topLevel + 1, blocks: [], notes: [] };
+      return;
+    }
+    // Footnotes are kept as "[^n]: text" after the section that references them.
+    for (const [, kind, id] of text.matchAll(/\[\^(e?)(\d+)\]/g)) {
+      const note = kind ? ctx.endnotes.get(id) : ctx.footnotes.get(id);
+      if (note) current.notes.push(`[^${kind}${id}]: ${note}`);
+    }
+    const prefix = listPrefix(el, ctx);
+    // Consecutive list items stay on adjacent lines; other paragraphs are separated by a blank line.
+    if (prefix && lastWasListItem) current.blocks[current.blocks.length - 1] += `\n${prefix}${text.trim()}`;
+    else current.blocks.push(`${prefix}${text.trim()}`);
+    lastWasListItem = !!prefix;
+  });
+  flush();
+
+  if (sections.length === 0) throw new Error("No text was found in this .docx file.");
+  return { title, sections };
+};
@@ -0,0 +1,320 @@
+import JSZip from "jszip";
+import { DocumentState, ExportOptions, ExportTemplate, JournalProfile } from "../types";
+import { isNumbered, isReferencesSection, renderReferenceList } from "./citationStyleService";
+import { findSuggestionsInText, flattenSections, flattenText } from "./suggestionService";
+import { sectionLevel } from "./outlineService";
+
+export const defaultExportOptions = (journal: JournalProfile): ExportOptions => {
+  const t = journal.template;
+  return { format: 'docx', doubleSpacing: t.lineSpacing === 2, lineNumbers: t.lineNumbers, titlePage: t.titlePage, floatsAtEnd: t.floatsAtEnd, anonymize: false, suggestions: 'accepted', authors: '', affiliations: '' };
+};
+
+// ---------- Layout model ----------
+
+interface Run { text: string, superscript?: boolean, change?: { kind: 'insert' | 'delete', source: string } }
+
+type Block =
+  | { kind: 'title', text: string }
+  | { kind: 'centered', text: string }
+  | { kind: 'heading', text: string, level?: number }
+  | { kind: 'paragraph', runs: Run[], style?: 'abstract' | 'reference' | 'placeholder' }
+  | { kind: 'list', ordered: boolean, items: Run[][] }
+  | { kind: 'table', caption?: string, rows: string[][] }
+  | { kind: 'figure', caption: string }
+  | { kind: 'pageBreak' };
+
+const ROMAN = [['M', 1000], ['CM', 900], ['D', 500], ['CD', 400], ['C', 100], ['XC', 90], ['L', 50], ['XL', 40], ['X', 10], ['IX', 9], ['V', 5], ['IV', 4], ['I', 1]] as const;
+const toRoman = (n: number) => ROMAN.reduce((out, [sym, val]) => { while (n >= val) { out += sym; n -= val; } return out; }, '');
+// IEEE numbering: "I." for sections, "A." for subsections, "1)" below that.
+const headingLabel = (level: number, n: number) => level === 1 ? `${toRoman(n)}.` : level === 2 ? `${String.fromCharCode(64 + n)}.` : `${n})`;
+
+const TABLE_CAPTION = /^\s*Table\s+\d+[.:]/i;
+const FIGURE_CAPTION = /^\s*(?:Figure|Fig\.)\s+\d+[.:]/i;
+
+const authorNames = (authors: string) => authors.split(/\s*(?:,|;|\band\b|&)\s*/).map(a => a.trim()).filter(Boolean);
+
+// Blinds the review copy: the authors' surnames become "[Anonymized]" wherever they appear, self-citations included.
+const anonymizer = (options: ExportOptions) => {
+  const surnames = options.anonymize ? authorNames(options.authors).map(a => a.split(/\s+/).pop()!).filter(s => s.length > 1) : [];
+  if (surnames.length === 0) return (text: string) => text;
+  const pattern = new RegExp(`\\b(${surnames.map(s => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})\\b`, 'g');
+  return (text: string) => text.replace(pattern, '[Anonymized]');
+};
+
+export const buildBlocks = (doc: DocumentState, title: string, options: ExportOptions) => {
+  const template = doc.journal.template;
+  const blind = anonymizer(options);
+  const notes: string[] = [];
+  const floats: Block[] = [];
+  const blocks: Block[] = [];
+  const sections = flattenSections(doc.sections, options.suggestions);
+
+  // "[^n]" footnote markers become superscript note numbers collected into a Notes section.
+  // Tracked suggestions left in the text become deletion and insertion runs.
+  const toRuns = (text: string, sectionNotes: Map<string, string>): Run[] => {
+    const runs: Run[] = [];
+    const plain = (part: string) => part.split(/(\[\^\w+\])/).filter(Boolean).forEach(piece => {
+      const ref = piece.match(/^\[\^(\w+)\]$/);
+      if (!ref || !sectionNotes.has(ref[1])) { runs.push({ text: blind(piece) }); return; }
+      notes.push(blind(flattenText(sectionNotes.get(ref[1])!, 'accepted')));
+      runs.push({ text: String(notes.length), superscript: true });
+    });
+    let last = 0;
+    findSuggestionsInText(text).forEach(s => {
+      plain(text.slice(last, s.start));
+      if (s.original) runs.push({ text: blind(s.original), change: { kind: 'delete', source: s.source } });
+      if (s.replacement) runs.push({ text: blind(s.replacement), change: { kind: 'insert', source: s.source } });
+      last = s.end;
+    });
+    plain(text.slice(last));
+    return runs;
+  };
+  const caseHeading = (text: string) => template.headingCase === 'upper' ? text.toUpperCase() : text;
+
+  const authors = authorNames(options.authors);
+  blocks.push({ kind: 'title', text: title });
+  if (!options.anonymize && authors.length) blocks.push({ kind: 'centered', text: authors.join(', ') });
+  if (!options.anonymize && options.affiliations.trim()) options.affiliations.split('\n').filter(l => l.trim()).forEach(l => blocks.push({ kind: 'centered', text: l.trim() }));
+  if (options.titlePage) {
+    const words = flattenSections(sections, 'accepted').filter(s => !isReferencesSection(s)).reduce((n, s) => n + (s.content.match(/\S+/g)?.length || 0), 0);
+    blocks.push({ kind: 'centered', text: `Word count: ${words}` });
+    if (options.anonymize) blocks.push({ kind: 'centered', text: 'Anonymized manuscript for peer review' });
+    blocks.push({ kind: 'pageBreak' });
+  }
+
+  const headingNumbers = [0, 0, 0];
+  let tableCount = 0;
+  let figureCount = 0;
+  sections
+    .filter(s => !isReferencesSection(s))
+    // Acknowledgements identify the authors, so blinded copies leave them out.
+    .filter(s => !(options.anonymize && /acknowledg/i.test(s.title)))
+    .forEach(section => {
+      const isAbstract = /^abstract$/i.test(section.title.trim());
+      if (section.title !== 'Front Matter') {
+        const numbered = template.numberedHeadings && !isAbstract;
+        const level = sectionLevel(section);
+        if (numbered) { headingNumbers[level - 1]++; headingNumbers.fill(0, level); }
+        const text = numbered ? `${headingLabel(level, headingNumbers[level - 1])} ${section.title}` : section.title;
+        // Journals that capitalise headings do so for top-level sections only.
+        blocks.push({ kind: 'heading', text: level === 1 ? caseHeading(text) : text, level });
+      }
+      const sectionNotes = new Map<string, string>();
+      const body = section.content.replace(/^\[\^(\w+)\]:\s*(.*)$/gm, (_, id: string, note: string) => { sectionNotes.set(id, note); return ''; });
+      const paragraphs = body.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+      paragraphs.forEach((paragraph, i) => {
+        const lines = paragraph.split('\n');
+        const place = (block: Block, label: string) => {
+          if (!options.floatsAtEnd) { blocks.push(block); return; }
+          floats.push(block);
+          blocks.push({ kind: 'paragraph', style: 'placeholder', runs: [{ text: `[${label} about here]` }] });
+        };
+        if (lines.every(l => l.trim().startsWith('|'))) {
+          const rows = lines.filter(l => !/^\|\s*:?-{3}/.test(l.trim()))
+            .map(l => l.trim().replace(/^\||\|$/g, '').split(/(?<!\\)\|/).map(c => blind(flattenText(c.trim().replace(/\\\|/g, '|'), 'accepted'))));
+          const previous = paragraphs[i - 1];
+          const caption = previous && TABLE_CAPTION.test(previous) ? blind(flattenText(previous, 'accepted')) : undefined;
+          // The caption paragraph was already emitted in the text; it travels with its table instead.
+          if (caption) blocks.pop();
+          place({ kind: 'table', caption, rows }, `Table ${++tableCount}`);
+          return;
+        }
+        if (FIGURE_CAPTION.test(paragraph)) {
+          place({ kind: 'figure', caption: blind(flattenText(paragraph, 'accepted')) }, `Figure ${++figureCount}`);
+          return;
+        }
+        if (lines.every(l => /^\s*-\s/.test(l))) {
+          blocks.push({ kind: 'list', ordered: false, items: lines.map(l => toRuns(l.replace(/^\s*-\s/, ''), sectionNotes)) });
+          return;
+        }
+        if (lines.every(l => /^\s*\d+\.\s/.test(l))) {
+          blocks.push({ kind: 'list', ordered: true, items: lines.map(l => toRuns(l.replace(/^\s*\d+\.\s/, ''), sectionNotes)) });
+          return;
+        }
+        blocks.push({ kind: 'paragraph', style: isAbstract ? 'abstract' : undefined, runs: toRuns(paragraph, sectionNotes) });
+      });
+    });
+
+  if (notes.length) {
+    blocks.push({ kind: 'heading', text: caseHeading('Notes') });
+    notes.forEach((note, i) => blocks.push({ kind: 'paragraph', style: 'reference', runs: [{ text: `${i + 1}. ${note}` }] }));
+  }
+  if (doc.bibliography.length) {
+    blocks.push({ kind: 'heading', text: caseHeading(template.referencesTitle) });
+    renderReferenceList(doc.bibliography, doc.journal).split('\n').forEach(line => blocks.push({ kind: 'paragraph', style: 'reference', runs: [{ text: blind(line) }] }));
+  }
+  // Journals want each end-of-manuscript table and figure on its own page.
+  floats.forEach(f => blocks.push({ kind: 'pageBreak' }, f));
+
+  return { blocks, template: { ...template, lineSpacing: options.doubleSpacing ? 2 : template.lineSpacing === 2 ? 1.5 : template.lineSpacing } as ExportTemplate };
+};
+
+// ---------- DOCX ----------
+
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const TEXT_WIDTH_DXA = 9360;
+
+const xml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Revision ids only need to be unique within one document.xml; renderDocx resets them.
+const revisions = { next: 0, date: '' };
+
+// Suggestions become Word tracked changes, attributed to the tool that proposed them.
+const runXml = (run: Run) => {
+  const props = run.superscript ? '<w:rPr><w:vertAlign w:val="superscript"/></w:rPr>' : '';
+  const textTag = run.change?.kind === 'delete' ? 'w:delText' : 'w:t';
+  const runs = run.text.split('\n').map(t => `<w:r>${props}<${textTag} xml:space="preserve">${xml(t)}</${textTag}></w:r>`).join('<w:r><w:br/></w:r>');
+  if (!run.change) return runs;
+  const tag = run.change.kind === 'delete' ? 'w:del' : 'w:ins';
+  return `<${tag} w:id="${++revisions.next}" w:author="${xml(run.change.source)}" w:date="${revisions.date}">${runs}</${tag}>`;
+};
+
+const paragraphXml = (runs: Run[], style?: string, extra = '') =>
+  `<w:p><w:pPr>${style ? `<w:pStyle w:val="${style}"/>` : ''}${extra}</w:pPr>${runs.map(runXml).join('')}</w:p>`;
+
+const tableXml = (rows: string[][]) => {
+  const width = Math.max(...rows.map(r => r.length));
+  const col = Math.floor(TEXT_WIDTH_DXA / width);
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="000000"/>`;
+  return `<w:tbl><w:tblPr><w:tblW w:w="${TEXT_WIDTH_DXA}" w:type="dxa"/><w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders></w:tblPr>`
+    + `<w:tblGrid>${Array(width).fill(`<w:gridCol w:w="${col}"/>`).join('')}</w:tblGrid>`
+    + rows.map(row => `<w:tr>${Array.from({ length: width }, (_, c) => `<w:tc><w:tcPr><w:tcW w:w="${col}" w:type="dxa"/></w:tcPr>${paragraphXml([{ text: row[c] || '' }], 'TableText')}</w:tc>`).join('')}</w:tr>`).join('')
+    + '</w:tbl>';
+};
+
+const blockXml = (block: Block) => {
+  switch (block.kind) {
+    case 'title': return paragraphXml([{ text: block.text }], 'Title');
+    case 'centered': return paragraphXml([{ text: block.text }], 'Centered');
+    case 'heading': return paragraphXml([{ text: block.text }], `Heading${block.level || 1}`);
+    case 'paragraph': return paragraphXml(block.runs, block.style === 'reference' ? 'Reference' : block.style === 'abstract' ? 'Abstract' : block.style === 'placeholder' ? 'Centered' : undefined);
+    case 'list': return block.items.map((runs, i) => paragraphXml([{ text: block.ordered ? `${i + 1}.\t` : '•\t' }, ...runs], 'ListParagraph')).join('');
+    // Word needs a paragraph after a table, so the caption sits above and an empty paragraph follows.
+    case 'table': return `${block.caption ? paragraphXml([{ text: block.caption }], 'Caption') : ''}${tableXml(block.rows)}${paragraphXml([], 'TableText')}`;
+    case 'figure': return paragraphXml([{ text: block.caption }], 'Caption');
+    case 'pageBreak': return '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+  }
+};
+
+const stylesXml = (t: ExportTemplate) => {
+  const half = t.fontSizePt * 2;
+  const line = Math.round(240 * t.lineSpacing);
+  const style = (id: string, name: string, pPr: string, rPr = '') =>
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr>${pPr}</w:pPr>${rPr ? `<w:rPr>${rPr}</w:rPr>` : ''}</w:style>`;
+  return `${XML_HEADER}<w:styles ${W_NS}>`
+    + `<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="${xml(t.font)}" w:hAnsi="${xml(t.font)}" w:cs="${xml(t.font)}" w:eastAsia="${xml(t.font)}"/><w:sz w:val="${half}"/><w:szCs w:val="${half}"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>`
+    + `<w:pPrDefault><w:pPr><w:spacing w:after="0" w:line="${line}" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>`
+    + `<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:pPr><w:ind w:firstLine="720"/></w:pPr></w:style>`
+    + style('Title', 'Title', '<w:jc w:val="center"/><w:spacing w:after="240"/><w:ind w:firstLine="0"/>', `<w:b/><w:sz w:val="${half + 8}"/><w:szCs w:val="${half + 8}"/>`)
+    + style('Heading1', 'heading 1', '<w:keepNext/><w:spacing w:before="240"/><w:ind w:firstLine="0"/><w:outlineLvl w:val="0"/>', '<w:b/>')
+    + style('Heading2', 'heading 2', '<w:keepNext/><w:spacing w:before="240"/><w:ind w:firstLine="0"/><w:outlineLvl w:val="1"/>', '<w:b/><w:i/>')
+    + style('Heading3', 'heading 3', '<w:keepNext/><w:spacing w:before="120"/><w:ind w:firstLine="0"/><w:outlineLvl w:val="2"/>', '<w:i/>')
+    + style('Centered', 'Centered', '<w:jc w:val="center"/><w:ind w:firstLine="0"/>')
+    + style('Abstract', 'Abstract', '<w:ind w:firstLine="0"/>')
+    + style('Reference', 'Reference', t.hangingReferences ? '<w:ind w:left="720" w:hanging="720"/>' : '<w:ind w:firstLine="0"/>')
+    + style('ListParagraph', 'List Paragraph', '<w:ind w:left="720" w:hanging="360"/>')
+    + style('Caption', 'caption', '<w:keepNext/><w:spacing w:before="240"/><w:ind w:firstLine="0"/>', '<w:b/>')
+    + style('TableText', 'Table Text', '<w:spacing w:line="240" w:lineRule="auto"/><w:ind w:firstLine="0"/><w:suppressLineNumbers/>')
+    + '</w:styles>';
+};
+
+const FOOTER_XML = `${XML_HEADER}<w:ftr ${W_NS}><w:p><w:pPr><w:jc w:val="right"/><w:ind w:firstLine="0"/></w:pPr>`
+  + '<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> PAGE </w:instrText></w:r><w:r><w:fldChar w:fldCharType="separate"/></w:r><w:r><w:t>1</w:t></w:r><w:r><w:fldChar w:fldCharType="end"/></w:r>'
+  + '</w:p></w:ftr>';
+
+export const renderDocx = async (doc: DocumentState, title: string, options: ExportOptions): Promise<Blob> => {
+  const { blocks, template } = buildBlocks(doc, title, options);
+  revisions.next = 0;
+  revisions.date = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const sectPr = '<w:sectPr><w:footerReference w:type="default" r:id="rId2"/><w:pgSz w:w="12240" w:h="15840"/>'
+    + '<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/>'
+    + (options.lineNumbers ? '<w:lnNumType w:countBy="1" w:restart="continuous"/>' : '')
+    + '</w:sectPr>';
+  const zip = new JSZip();
+  zip.file("[Content_Types].xml", `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+    + '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>'
+    + '<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>'
+    + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>');
+  zip.file("_rels/.rels", `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>'
+    + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>');
+  zip.file("word/_rels/document.xml.rels", `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+    + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/></Relationships>');
+  zip.file("docProps/core.xml", `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">`
+    + `<dc:title>${xml(title)}</dc:title><dc:creator>${options.anonymize ? '' : xml(options.authors)}</dc:creator></cp:coreProperties>`);
+  zip.file("word/styles.xml", stylesXml(template));
+  zip.file("word/footer1.xml", FOOTER_XML);
+  zip.file("word/document.xml", `${XML_HEADER}<w:document ${W_NS}><w:body>${blocks.map(blockXml).join('')}${sectPr}</w:body></w:document>`);
+  return zip.generateAsync({ type: "blob", mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document" });
+};
+
+// ---------- HTML / PDF ----------
+
+const html = (text: string) => xml(text).replace(/\n/g, '<br>');
+
+// Escapes text for a quoted CSS string; nothing in it can close the string or the <style> block.
+const cssString = (text: string) => text.replace(/[^\p{L}\p{N} .-]/gu, c => `\\${c.codePointAt(0)!.toString(16)} `);
+
+const runHtml = (r: Run) => {
+  const text = r.superscript ? `<sup>${html(r.text)}</sup>` : html(r.text);
+  if (!r.change) return text;
+  const tag = r.change.kind === 'delete' ? 'del' : 'ins';
+  return `<${tag} title="${xml(r.change.source)}">${text}</${tag}>`;
+};
+const runsHtml = (runs: Run[]) => runs.map(runHtml).join('');
+
+const blockHtml = (block: Block) => {
+  switch (block.kind) {
+    case 'title': return `<h1 class="title">${html(block.text)}</h1>`;
+    case 'centered': return `<p class="centered">${html(block.text)}</p>`;
+    case 'heading': return `<h${(block.level || 1) + 1}>${html(block.text)}</h${(block.level || 1) + 1}>`;
+    case 'paragraph': return `<p${block.style ? ` class="${block.style}"` : ''}>${runsHtml(block.runs)}</p>`;
+    case 'list': return `<${block.ordered ? 'ol' : 'ul'}>${block.items.map(i => `<li>${runsHtml(i)}</li>`).join('')}</${block.ordered ? 'ol' : 'ul'}>`;
+    case 'table': return `<figure class="table">${block.caption ? `<figcaption>${html(block.caption)}</figcaption>` : ''}<table>${block.rows.map((r, i) => `<tr>${r.map(c => i === 0 ? `<th>${html(c)}</th>` : `<td>${html(c)}</td>`).join('')}</tr>`).join('')}</table></figure>`;
+    case 'figure': return `<figure><figcaption>${html(block.caption)}</figcaption></figure>`;
+    case 'pageBreak': return '<div class="page-break"></div>';
+  }
+};
+
+// Measures every rendered block and writes a continuous line-number gutter beside it.
+// The body has a fixed print width, so the on-screen layout matches the printed one.
+const LINE_NUMBER_SCRIPT = `(function(){var n=0;var body=document.body;document.querySelectorAll('body > p, body > h1, body > h2, body > h3, body > h4, body > ul > li, body > ol > li').forEach(function(el){var lh=parseFloat(getComputedStyle(el).lineHeight);if(!lh)return;var lines=Math.max(1,Math.round(el.getBoundingClientRect().height/lh));var g=document.createElement('div');g.className='ln';g.style.top=(el.getBoundingClientRect().top-body.getBoundingClientRect().top)+'px';g.style.lineHeight=lh+'px';var out=[];for(var i=0;i<lines;i++)out.push(++n);g.textContent=out.join('\\n');body.appendChild(g);});})();`;
+
+export const renderHtml = (doc: DocumentState, title: string, options: ExportOptions, autoPrint = false) => {
+  const { blocks, template } = buildBlocks(doc, title, options);
+  const css = `@page{size:letter;margin:1in}
+body{position:relative;font-family:'${cssString(template.font)}',${template.font === 'Arial' ? 'sans-serif' : 'serif'};font-size:${template.fontSizePt}pt;line-height:${template.lineSpacing};width:6.5in;margin:1in auto;color:#000}
+@media print{body{margin:0}}
+p{margin:0;text-indent:.5in}
+p.centered,p.abstract,p.placeholder,p.reference{text-indent:0}
+p.centered,p.placeholder{text-align:center}
+p.reference{${template.hangingReferences ? 'padding-left:.5in;text-indent:-.5in' : ''}}
+h1.title{font-size:${template.fontSizePt + 4}pt;text-align:center;margin:0 0 ${template.fontSizePt}pt}
+h2,h3,h4{font-size:${template.fontSizePt}pt;margin:${template.fontSizePt}pt 0 0;page-break-after:avoid}
+h3{font-style:italic}
+h4{font-style:italic;font-weight:normal}
+ul,ol{margin:0;padding-left:.5in}
+figure{margin:${template.fontSizePt}pt 0}
+figcaption{font-weight:bold;margin-bottom:6pt}
+table{border-collapse:collapse;width:100%;line-height:1.2}
+th,td{border:1px solid #000;padding:4px 6px;text-align:left;vertical-align:top}
+.page-break{page-break-after:always;break-after:page}
+ins{color:#166534;background:#dcfce7;text-decoration:underline}
+del{color:#991b1b;background:#fee2e2}
+.ln{position:absolute;left:-.5in;width:.35in;text-align:right;font-size:8pt;color:#666;white-space:pre;user-select:none}`;
+  const scripts = [options.lineNumbers ? LINE_NUMBER_SCRIPT : '', autoPrint ? "window.addEventListener('load',function(){setTimeout(function(){window.print();},200);});" : ''].filter(Boolean);
+  return `<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><title>${xml(title)}</title><style>${css}</style></head><body>`
+    + blocks.map(blockHtml).join('\n')
+    + (scripts.length ? `<script>${scripts.join('\n')}</script>` : '')
+    + '</body></html>';
+};
+
+export const describeTemplate = (journal: JournalProfile) => {
+  const t = journal.template;
+  const spacing = t.lineSpacing === 2 ? 'double spaced' : t.lineSpacing === 1.5 ? '1.5 spaced' : 'single spaced';
+  return `${t.font} ${t.fontSizePt} pt, ${spacing}, ${isNumbered(journal) ? 'numbered' : 'alphabetical'} ${t.referencesTitle.toLowerCase()}`;
+};
@@ -0,0 +1,441 @@
+import { AgentAction, AnalysisIssue, BibEntry, JournalProfile, PaperSection } from "../types";
+import { CITATION_STYLES, isReferencesSection, journalMarkers } from "./citationStyleService";
+import { checkMarkerStyle } from "./citationCheckService";
+import { classifySection } from "./sectionMetricsService";
+import { sectionLevel, wordCount } from "./outlineService";
+import { flattenText } from "./suggestionService";
+import { createId } from "./storageService";
+
+// Deterministic checks of the manuscript against the active journal profile. No LLM involved, so the same
+// text always gets the same findings, and every finding points at the passage or section it is about.
+
+type IssueFields = Omit<AnalysisIssue, 'id'>;
+
+const FRONT_MATTER = /^front matter$/i;
+const KEYWORDS_LINE = /^[ \t]*\**(?:key\s*words|index terms)\**[ \t]*[:—–-][ \t]*(.+)$/im;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isBody = (s: PaperSection) => !s.generated && !isReferencesSection(s) && !FRONT_MATTER.test(s.title.trim());
+
+const fixAction = (fields: Omit<AgentAction, 'id' | 'status'>): AgentAction => ({ id: createId("fix"), status: 'pending', ...fields });
+
+// ---------- Length ----------
+
+const checkLength = (sections: PaperSection[], journal: JournalProfile, push: (rule: string, fields: IssueFields) => void) => {
+  const counted = sections.filter(isBody).map(s => ({ section: s, kind: classifySection(s.title), words: wordCount(flattenText(s.content, 'accepted')) }));
+  const bodyWords = counted.filter(c => c.kind !== 'abstract').reduce((n, c) => n + c.words, 0);
+  if (journal.wordLimit && bodyWords > journal.wordLimit) {
+    const longest = counted.filter(c => c.kind !== 'abstract').sort((a, b) => b.words - a.words)[0];
+    push('words', {
+      type: 'error',
+      title: 'Over the word limit',
+      description: `The body runs to ${bodyWords} words; ${journal.name} allows ${journal.wordLimit}, abstract and references excluded. Cut ${bodyWords - journal.wordLimit} words${longest ? `; "${longest.section.title}" is the longest section at ${longest.words}` : ''}.`
+    });
+  }
+
+  const abstract = counted.find(c => c.kind === 'abstract');
+  if (abstract && journal.abstractWords && abstract.words > 0) {
+    const [lo, hi] = journal.abstractWords;
+    if (abstract.words > hi || abstract.words < lo) push('abstract', {
+      type: abstract.words > hi ? 'error' : 'warning',
+      title: abstract.words > hi ? 'Abstract too long' : 'Abstract too short',
+      description: `The abstract has ${abstract.words} words; ${journal.name} expects ${lo}–${hi}.`,
+      location: abstract.section.title
+    });
+  }
+
+  // Structured abstracts run through fixed headings, each starting a line, e.g. "Objective: ...".
+  if (abstract && journal.abstractStructure.length) {
+    const content = abstract.section.content;
+    const found = journal.abstractStructure.map(heading => {
+      const match = new RegExp(`^[ \\t]*\\**${escapeRegExp(heading)}\\**[ \\t]*[:.]`, 'im').exec(content);
+      return { heading, at: match ? match.index : -1 };
+    });
+    const missing = found.filter(f => f.at === -1).map(f => f.heading);
+    if (missing.length) push('abstract-structure', {
+      type: 'warning',
+      title: 'Structured abstract incomplete',
+      description: `${journal.name} abstracts are structured under ${journal.abstractStructure.join(', ')}. Missing: ${missing.join(', ')}.`,
+      location: abstract.section.title
+    });
+    const present = found.filter(f => f.at !== -1);
+    const outOfOrder = present.find((f, i) => i > 0 && f.at < present[i - 1].at);
+    if (outOfOrder) push('abstract-order', {
+      type: 'warning',
+      title: 'Abstract headings out of order',
+      description: `"${outOfOrder.heading}" comes before a heading it should follow. The expected order is ${journal.abstractStructure.join(', ')}.`,
+      location: abstract.section.title
+    });
+  }
+
+  if (journal.keywords) {
+    const [lo, hi] = journal.keywords;
+    const host = sections.filter(s => !s.generated).find(s => KEYWORDS_LINE.test(s.content));
+    const match = host && KEYWORDS_LINE.exec(host.content);
+    if (!host || !match) {
+      push('keywords', { type: 'warning', title: 'No keywords', description: `${journal.name} asks for ${lo}–${hi} keywords. Add a line such as "Keywords: first, second, third" after the abstract.` });
+    } else {
+      const count = match[1].split(/[,;·]/).map(k => k.trim()).filter(Boolean).length;
+      const line = match[0].trim();
+      const start = match.index + match[0].indexOf(line);
+      if (count < lo || count > hi) push('keywords', {
+        type: 'warning',
+        title: count > hi ? 'Too many keywords' : 'Too few keywords',
+        description: `${count} keywords are listed; ${journal.name} asks for ${lo}–${hi}.`,
+        snippet: line,
+        anchor: { sectionId: host.id, start, end: start + line.length },
+        location: host.title
+      });
+    }
+  }
+};
+
+// ---------- Required sections ----------
+
+const normalizeTitle = (title: string) => title.trim().toLowerCase().replace(/^[\divxlc]+[.)]\s+/, '').replace(/s$/, '');
+
+// "Method" satisfies "Methods", and a combined "Results and Discussion" satisfies both of its parts.
+const satisfies = (section: PaperSection, required: string) => {
+  const kind = classifySection(required);
+  if (kind !== 'other' && classifySection(section.title) === kind) return true;
+  return section.title.toLowerCase().includes(normalizeTitle(required));
+};
+
+const checkRequiredSections = (sections: PaperSection[], journal: JournalProfile, push: (rule: string, fields: IssueFields) => void) => {
+  const body = sections.filter(isBody);
+  const matched = journal.requiredSections.map(required => {
+    const candidates = body.filter(s => satisfies(s, required));
+    const section = candidates.find(s => sectionLevel(s) === 1) || candidates[0];
+    return { required, section, index: section ? sections.indexOf(section) : -1 };
+  });
+
+  matched.forEach(({ required, section }, i) => {
+    if (section) return;
+    // A new section goes just ahead of the next required section that exists, or last when none follows.
+    const next = matched.slice(i + 1).find(m => m.section);
+    const before = next && sections.slice(0, next.index).reverse().find(s => sectionLevel(s) === 1);
+    const target = !next ? undefined : before ? before.title : 'start';
+    push(`missing-${required}`, {
+      type: 'error',
+      title: `Missing section: ${required}`,
+      description: `${journal.name} expects ${journal.requiredSections.join(', ')}, in that order. There is no ${required} section.`,
+      fix: fixAction({ tool: 'createSection', summary: `Add the ${required} section ${journal.name} requires.`, title: required, target })
+    });
+  });
+
+  // Walking the expected order, a section found earlier than the one before it is out of place.
+  let last: (typeof matched)[number] | undefined;
+  matched.filter(m => m.section).forEach(m => {
+    if (last && m.index < last.index) {
+      push(`order-${m.required}`, {
+        type: 'warning',
+        title: `${m.section!.title} is out of order`,
+        description: `${journal.name} puts ${m.required} after ${last.required}; here it comes before "${last.section!.title}".`,
+        location: m.section!.title,
+        fix: fixAction({ tool: 'moveSection', summary: `Move it after ${last.section!.title}.`, section: m.section!.title, target: last.section!.title })
+      });
+      return;
+    }
+    last = m;
+  });
+};
+
+// ---------- Headings ----------
+
+const MINOR_WORDS = new Set(['a', 'an', 'the', 'and', 'but', 'or', 'nor', 'for', 'so', 'yet', 'as', 'at', 'by', 'in', 'of', 'off', 'on', 'per', 'to', 'up', 'via', 'vs', 'with', 'from', 'into']);
+const HEADING_NUMBER = /^\s*(?:\d+(?:\.\d+)*\.?|[IVXLC]+\.|[A-Z]\.)\s+/;
+
+// Acronyms and mixed-case names (GPT-4, iPhone) keep their capitals whatever the heading case.
+const isName = (word: string) => /[A-Z].*[A-Z]|^[a-z]+[A-Z]|\d/.test(word);
+
+const toTitleCase = (title: string) => title.split(' ').map((word, i, words) => {
+  if (isName(word)) return word;
+  const lower = word.toLowerCase();
+  return i > 0 && i < words.length - 1 && MINOR_WORDS.has(lower) ? lower : lower.charAt(0).toUpperCase() + lower.slice(1);
+}).join(' ');
+
+const toSentenceCase = (title: string) => title.split(' ').map((word, i) => {
+  if (isName(word)) return word;
+  const lower = word.toLowerCase();
+  return i === 0 ? lower.charAt(0).toUpperCase() + lower.slice(1) : lower;
+}).join(' ');
+
+// Title case capitalises every major word; sentence case only the first. Headings with one major word are both.
+const headingCase = (title: string): 'title' | 'sentence' | null => {
+  const major = title.split(/\s+/).slice(1).filter(w => /^[A-Za-z]/.test(w) && !MINOR_WORDS.has(w.toLowerCase()) && !isName(w));
+  if (major.length === 0) return null;
+  if (major.every(w => /^[A-Z]/.test(w))) return 'title';
+  if (major.every(w => /^[a-z]/.test(w))) return 'sentence';
+  return null;
+};
+
+const checkHeadings = (sections: PaperSection[], journal: JournalProfile, push: (rule: string, fields: IssueFields) => void) => {
+  const headings = sections.filter(isBody);
+  const unnumbered = (title: string) => title.trim().replace(HEADING_NUMBER, '');
+
+  // The case each heading level mostly uses; headings in the other case are brought into line with it.
+  const majority = new Map<number, 'title' | 'sentence'>();
+  Array.from(new Set(headings.map(sectionLevel))).forEach(level => {
+    const styles = headings.filter(s => sectionLevel(s) === level).map(s => headingCase(unnumbered(s.title))).filter(Boolean);
+    if (styles.length) majority.set(level, styles.filter(style => style === 'title').length * 2 >= styles.length ? 'title' : 'sentence');
+  });
+  const recase = (text: string, style: 'title' | 'sentence' = 'title') => style === 'title' ? toTitleCase(text) : toSentenceCase(text);
+
+  // One finding per heading, whose fix renames it once with every problem put right.
+  headings.forEach(section => {
+    const title = section.title.trim();
+    const level = sectionLevel(section);
+    const number = title.match(HEADING_NUMBER)?.[0] || '';
+    const numbered = !!number && journal.template.numberedHeadings;
+    const problems: string[] = [];
+    let text = title.substring(number.length);
+
+    if (numbered) problems.push(`It carries its own number, but ${journal.name} numbers headings on export, so it would be numbered twice.`);
+    if (/[.:;,]$/.test(text) && !/\b(?:et al|etc|vs)\.$/i.test(text)) {
+      problems.push('It ends in punctuation.');
+      text = text.replace(/[.:;,]+$/, '');
+    }
+    // Upper-case templates capitalise top-level headings on export, so only typed capitals elsewhere count.
+    const letters = text.replace(/[^A-Za-z]/g, '');
+    const style = headingCase(text);
+    if (letters.length > 3 && letters === letters.toUpperCase() && !(journal.template.headingCase === 'upper' && level === 1)) {
+      problems.push('It is typed in capitals.');
+      text = recase(text.toLowerCase(), majority.get(level));
+    } else if (style && majority.has(level) && style !== majority.get(level)) {
+      problems.push(`It is in ${style} case, while most ${level === 1 ? 'section' : 'subsection'} headings are in ${majority.get(level)} case.`);
+      text = recase(text, majority.get(level));
+    }
+
+    const fixed = (numbered ? '' : number) + text;
+    if (problems.length === 0 || fixed === title) return;
+    push(`heading-${section.id}`, {
+      type: numbered ? 'warning' : 'info',
+      title: `Heading style: ${title}`,
+      description: problems.join(' '),
+      location: section.title,
+      fix: fixAction({ tool: 'renameSection', summary: `Rename it "${fixed}".`, section: section.title, title: fixed })
+    });
+  });
+};
+
+// ---------- Citation placement ----------
+
+const checkCitationPlacement = (sections: PaperSection[], bibliography: BibEntry[], journal: JournalProfile, push: (rule: string, fields: IssueFields) => void) => {
+  const family = CITATION_STYLES[journal.referenceStyle].family;
+  const body = sections.filter(isBody);
+  checkMarkerStyle(body, bibliography, journal).forEach(({ id, ...issue }) => push(id, issue));
+
+  journalMarkers(body, bibliography, journal).forEach(m => {
+    const section = sections.find(s => s.id === m.sectionId)!;
+    const before = section.content.substring(0, m.start);
+    const after = section.content.substring(m.end);
+    // Superscripts follow commas and full stops ("shown.¹"); bracketed numbers sit inside them after a space ("shown [1].").
+    if (family === 'superscript' && /^[.,]/.test(after)) {
+      const mark = after[0];
+      push(`cite-placement-${m.sectionId}-${m.start}`, {
+        type: 'info',
+        title: 'Superscript before punctuation',
+        description: `${journal.name} places superscript citations after commas and full stops.`,
+        suggestion: 'Move the citation after the punctuation.',
+        snippet: m.text + mark,
+        replacement: mark + m.text,
+        anchor: { sectionId: m.sectionId, start: m.start, end: m.end + 1 },
+        location: section.title
+      });
+    }
+    if (family === 'numeric' && /\S$/.test(before) && !/[(\[]$/.test(before)) {
+      const word = before.match(/\S+$/)![0];
+      push(`cite-placement-${m.sectionId}-${m.start}`, {
+        type: 'info',
+        title: 'Citation not spaced from text',
+        description: `${journal.name} separates bracketed citations from the preceding word with a space.`,
+        suggestion: 'Insert a space before the citation.',
+        snippet: word + m.text,
+        replacement: `${word} ${m.text}`,
+        anchor: { sectionId: m.sectionId, start: m.start - word.length, end: m.end },
+        location: section.title
+      });
+    }
+  });
+};
+
+// ---------- Numbers and units ----------
+
+const UNITS = 'mg|kg|µg|μg|ng|g|mL|ml|µL|μL|L|nm|µm|μm|mm|cm|km|m|ms|min|h|Hz|kHz|MHz|GHz|mM|µM|μM|nM|mol|kDa|V|mV|W|kW|MB|GB|TB';
+
+interface NumberRule {
+  rule: string;
+  pattern: RegExp;
+  title: string;
+  description: string;
+  type: AnalysisIssue['type'];
+  replace?: (match: RegExpExecArray) => string;
+}
+
+const NUMBER_RULES: NumberRule[] = [
+  {
+    rule: 'unit-space',
+    pattern: new RegExp(`\\b(\\d+(?:\\.\\d+)?)(${UNITS})\\b`, 'g'),
+    title: 'No space between number and unit',
+    description: 'Units are separated from their value by a space, e.g. "5 mg".',
+    type: 'warning',
+    replace: m => `${m[1]} ${m[2]}`
+  },
+  {
+    rule: 'percent-space',
+    pattern: /\b(\d+(?:\.\d+)?) %/g,
+    title: 'Space before percent sign',
+    description: 'The percent sign follows its number directly, e.g. "5%".',
+    type: 'info',
+    replace: m => `${m[1]}%`
+  },
+  {
+    // A lone pair of numbers joined by a hyphen; dates and identifiers such as 2020-01-05 are left alone.
+    rule: 'range-dash',
+    pattern: /(?<![\d\-–.\/])(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)(?![\d\-–\/]|\.\d)/g,
+    title: 'Numeric range with a hyphen',
+    description: 'Ranges take an en dash, e.g. "10–20".',
+    type: 'info',
+    replace: m => `${m[1]}–${m[2]}`
+  },
+  {
+    rule: 'sentence-number',
+    pattern: /(?<=(?:^|\n)[ \t]*|[a-z)\]]{3}[.!?][ \t]+)(?<!\b(?:approx|resp|cf|ca|vs)\.[ \t]+)\d+(?:\.\d+)?(?=\s+[a-z])/g,
+    title: 'Sentence starts with a numeral',
+    description: 'Numbers that open a sentence are spelled out, or the sentence is rephrased.',
+    type: 'info'
+  }
+];
+
+const checkNumbers = (sections: PaperSection[], push: (rule: string, fields: IssueFields) => void) => {
+  sections.filter(isBody).forEach(section => {
+    NUMBER_RULES.forEach(rule => {
+      for (const match of section.content.matchAll(rule.pattern)) {
+        const start = match.index!;
+        push(`${rule.rule}-${section.id}-${start}`, {
+          type: rule.type,
+          title: rule.title,
+          description: rule.description,
+          snippet: match[0],
+          anchor: { sectionId: section.id, start, end: start + match[0].length },
+          location: section.title,
+          ...(rule.replace ? { suggestion: `Write "${rule.replace(match as RegExpExecArray)}".`, replacement: rule.replace(match as RegExpExecArray) } : {})
+        });
+      }
+    });
+  });
+};
+
+// ---------- Figures and tables ----------
+
+type FloatKind = 'figure' | 'table';
+
+interface Callout { kind: FloatKind, number: number, sectionId: string, start: number, end: number, text: string }
+
+// "Figure 2", "Fig. 2a", "Figs. 2 and 3", "Tables 1–3"; supplementary items are numbered separately and skipped.
+const CALLOUT = /(?<!(?:Supplementary|Extended Data)\s)\b(Fig(?:ure)?s?\.?|Tables?)\s+(\d+[a-z]?(?:\s*(?:,|and|&|–|-|to)\s*\d+[a-z]?)*)/g;
+// A caption is a paragraph that starts "Figure 2." or "Table 1:".
+const CAPTION = /(?:^|\n\s*\n)\s*\**(Figure|Fig\.|Table)\s+(\d+)\**\s*[.:]/g;
+
+const calloutNumbers = (list: string) => {
+  const numbers: number[] = [];
+  const parts = list.split(/\s*(,|and|&|to|–|-)\s*/);
+  for (let i = 0; i < parts.length; i += 2) {
+    const n = parseInt(parts[i], 10);
+    const range = parts[i - 1];
+    if (range && /^(to|–|-)$/.test(range) && numbers.length) for (let k = numbers[numbers.length - 1] + 1; k < n; k++) numbers.push(k);
+    numbers.push(n);
+  }
+  return numbers;
+};
+
+const checkFloats = (sections: PaperSection[], journal: JournalProfile, push: (rule: string, fields: IssueFields) => void) => {
+  const body = sections.filter(isBody);
+  const captions: Callout[] = [];
+  const callouts: Callout[] = [];
+  body.forEach(section => {
+    for (const m of section.content.matchAll(CAPTION)) {
+      const start = m.index! + m[0].indexOf(m[1]);
+      const end = m.index! + m[0].length;
+      captions.push({ kind: /^t/i.test(m[1]) ? 'table' : 'figure', number: Number(m[2]), sectionId: section.id, start, end, text: section.content.substring(start, end) });
+    }
+    for (const m of section.content.matchAll(CALLOUT)) {
+      const kind: FloatKind = /^t/i.test(m[1]) ? 'table' : 'figure';
+      // The caption's own label is not a callout.
+      if (captions.some(c => c.sectionId === section.id && c.start === m.index)) continue;
+      calloutNumbers(m[2]).forEach(number => callouts.push({ kind, number, sectionId: section.id, start: m.index!, end: m.index! + m[0].length, text: m[0] }));
+    }
+  });
+  const title = (id: string) => sections.find(s => s.id === id)?.title;
+  const label = (kind: FloatKind, n: number) => `${kind === 'figure' ? 'Figure' : 'Table'} ${n}`;
+  const anchored = (c: Callout) => ({ snippet: c.text, anchor: { sectionId: c.sectionId, start: c.start, end: c.end }, location: title(c.sectionId) });
+
+  (['figure', 'table'] as FloatKind[]).forEach(kind => {
+    const own = callouts.filter(c => c.kind === kind);
+    const ownCaptions = captions.filter(c => c.kind === kind);
+    // First mentions must run 1, 2, 3...: each new number is one more than the highest seen so far.
+    let highest = 0;
+    const seen = new Set<number>();
+    own.forEach(c => {
+      if (seen.has(c.number)) return;
+      seen.add(c.number);
+      if (c.number > highest + 1) push(`float-order-${kind}-${c.number}`, {
+        type: 'warning',
+        title: `${label(kind, c.number)} cited out of order`,
+        description: `${label(kind, c.number)} is first cited before ${label(kind, highest + 1)}. ${kind === 'figure' ? 'Figures' : 'Tables'} are numbered in the order the text first cites them.`,
+        ...anchored(c)
+      });
+      highest = Math.max(highest, c.number);
+    });
+
+    ownCaptions.filter(cap => !seen.has(cap.number)).forEach(cap => push(`float-uncited-${kind}-${cap.number}`, {
+      type: 'warning',
+      title: `${label(kind, cap.number)} is never cited`,
+      description: `${label(kind, cap.number)} has a caption but the text never refers to it.`,
+      ...anchored(cap)
+    }));
+    if (ownCaptions.length) Array.from(seen).filter(n => !ownCaptions.some(cap => cap.number === n)).forEach(n => push(`float-missing-${kind}-${n}`, {
+      type: 'warning',
+      title: `${label(kind, n)} has no caption`,
+      description: `The text cites ${label(kind, n)}, but no caption starting "${label(kind, n)}." was found.`,
+      ...anchored(own.find(c => c.number === n)!)
+    }));
+
+    const total = new Set([...seen, ...ownCaptions.map(c => c.number)]).size;
+    const limit = kind === 'figure' ? journal.maxFigures : journal.maxTables;
+    if (limit && total > limit) push(`float-limit-${kind}`, {
+      type: 'error',
+      title: `Too many ${kind}s`,
+      description: `The manuscript has ${total} ${kind}s; ${journal.name} allows ${limit}. Merge some or move them to the supplementary material.`
+    });
+  });
+};
+
+export const checkFormat = (sections: PaperSection[], bibliography: BibEntry[], journal: JournalProfile) => {
+  const issues: AnalysisIssue[] = [];
+  const push = (rule: string, fields: IssueFields) => {
+    const id = rule.startsWith('cite-') ? rule : `format-${rule}`;
+    if (!issues.some(i => i.id === id)) issues.push({ id, ...fields });
+  };
+
+  checkLength(sections, journal, push);
+  checkRequiredSections(sections, journal, push);
+  checkHeadings(sections, journal, push);
+  checkCitationPlacement(sections, bibliography, journal, push);
+  checkNumbers(sections, push);
+  checkFloats(sections, journal, push);
+  if (journal.maxReferences && bibliography.length > journal.maxReferences) push('references', {
+    type: 'error',
+    title: 'Too many references',
+    description: `The bibliography has ${bibliography.length} entries; ${journal.name} allows ${journal.maxReferences}.`,
+    location: sections.find(isReferencesSection)?.title
+  });
+
+  const count = (type: AnalysisIssue['type']) => issues.filter(i => i.type === type).length;
+  const fixable = issues.filter(i => i.replacement !== undefined || i.fix).length;
+  const generalFeedback = issues.length === 0
+    ? `The manuscript meets every ${journal.name} rule that can be checked automatically.`
+    : `Checked against ${journal.name}: ${count('error')} ${count('error') === 1 ? 'error' : 'errors'}, ${count('warning')} ${count('warning') === 1 ? 'warning' : 'warnings'} and ${count('info')} style ${count('info') === 1 ? 'note' : 'notes'}. ${fixable} can be fixed automatically.`;
+  return { issues, generalFeedback };
+};
@@ -1,27 +1,75 @@
 
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-import { JournalStyle, AnalysisIssue, PaperStats, ChatMessage, RelatedPaper, CitationPlacement } from "../types";
+import { Schema, Type } from "@google/genai";
+import { EditorMode, JournalProfile, AnalysisIssue, AgentAction, AgentThread, BibEntry, ChatMessage, ChunkProgress, PaperSection, RelatedPaper, CitationPlacement, ReorganizationStep } from "../types";
+import { resolveTask, StreamOptions } from "./llmProvider";
+import { parsePartialJSON } from "./partialJsonService";
+import { recentMessages, turnText } from "./agentThreadService";
+import { AGENT_TOOL_DOCS } from "./agentToolService";
+import { numberParagraphs, PLAN_TOOLS, RawPlanStep, resolvePlanStep } from "./reorganizationService";
+import { describeProfile } from "./journalProfileService";
+import { chunkSections, ChunkResult, fitSections, mapChunks, mergeChunkIssues, outlineOf } from "./chunkService";
+import { requestJSON, ResponseSchema } from "./responseSchemaService";
+import { createId } from "./storageService";
 
-const getClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API_KEY environment variable is not set.");
-  }
-  return new GoogleGenAI({ apiKey });
+// Every call goes through the provider configured for its task in Settings;
+// the module keeps its historical name because Gemini remains the default.
+// JSON replies are checked against the call's schema, and repaired or asked for again, before they are used.
+
+// An issue as the model reports it; ids and anchors are added locally. Rewording issues also quote the
+// passage and give its replacement.
+const issueSchema = (rewording = false): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    id: { type: Type.STRING },
+    type: { type: Type.STRING, enum: ['error', 'warning', 'info'] },
+    title: { type: Type.STRING },
+    description: { type: Type.STRING },
+    suggestion: { type: Type.STRING },
+    snippet: { type: Type.STRING, description: "The passage the issue is about, quoted exactly." },
+    ...(rewording ? { replacement: { type: Type.STRING, description: "The passage rewritten to resolve the issue." } } : {})
+  },
+  required: ["type", "title", "description", ...(rewording ? ["snippet", "replacement"] : [])]
+});
+
+interface CitationSuggestion {
+  citationMarker: string;
+  references: string[];
+  relatedPapers: RelatedPaper[];
+}
+
+const CITATIONS_SCHEMA: ResponseSchema<CitationSuggestion> = {
+  type: Type.OBJECT,
+  properties: {
+    citationMarker: { type: Type.STRING },
+    references: { type: Type.ARRAY, items: { type: Type.STRING } },
+    relatedPapers: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          title: { type: Type.STRING },
+          authors: { type: Type.STRING },
+          year: { type: Type.STRING },
+          relevance: { type: Type.STRING },
+          fullReference: { type: Type.STRING },
+          citationMarker: { type: Type.STRING, description: "The (Author, Year) format for this specific paper." }
+        },
+        required: ["id", "title", "authors", "year", "relevance", "fullReference", "citationMarker"]
+      }
+    }
+  },
+  required: ["citationMarker", "references", "relatedPapers"]
 };
 
-const MODEL_COMPLEX = "gemini-3-pro-preview";
-const MODEL_FAST = "gemini-3-flash-preview";
-
-export const suggestCitations = async (text: string): Promise<{ 
-  citationMarker: string, 
-  references: string[],
-  relatedPapers: RelatedPaper[]
-}> => {
-  const ai = getClient();
-  const response = await ai.models.generateContent({
-    model: MODEL_FAST,
-    contents: `Task: Identify supporting academic research for the specific statement provided below.
+export const suggestCitations = async (text: string): Promise<CitationSuggestion> => {
+  const { provider, model } = resolveTask('microEdit');
+  return requestJSON(provider, {
+    model,
+    fixture: 'citations',
+    mode: EditorMode.DISCOVERY,
+    purpose: "Finding sources",
+    prompt: `Task: Identify supporting academic research for the specific statement provided below.
     
     CRITICAL INSTRUCTION: 
     1. Do NOT return or rewrite the original text.
@@ -30,174 +78,397 @@ export const suggestCitations = async (text: string): Promise<{
     4. SUGGEST 2-3 additional RELATED academic papers. For each, include its appropriate in-text citation marker.
 
     STATEMENT TO ANALYZE: "${text}"`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
+    schema: CITATIONS_SCHEMA
+  });
+};
+
+// Placements kept from all sections together, the strongest first.
+const MAX_PLACEMENTS = 3;
+
+const PLACEMENTS_SCHEMA: ResponseSchema<{ placements: { snippet: string, explanation: string, strength: number }[] }> = {
+  type: Type.OBJECT,
+  properties: {
+    placements: {
+      type: Type.ARRAY,
+      items: {
         type: Type.OBJECT,
         properties: {
-          citationMarker: { type: Type.STRING },
-          references: { type: Type.ARRAY, items: { type: Type.STRING } },
-          relatedPapers: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                id: { type: Type.STRING },
-                title: { type: Type.STRING },
-                authors: { type: Type.STRING },
-                year: { type: Type.STRING },
-                relevance: { type: Type.STRING },
-                fullReference: { type: Type.STRING },
-                citationMarker: { type: Type.STRING, description: "The (Author, Year) format for this specific paper." }
-              },
-              required: ["id", "title", "authors", "year", "relevance", "fullReference", "citationMarker"]
-            }
-          }
+          snippet: { type: Type.STRING, description: "The exact sentence from the section." },
+          explanation: { type: Type.STRING, description: "Why citing the research here is beneficial." },
+          strength: { type: Type.INTEGER, description: "How much the citation would help, from 1 to 5." }
         },
-        required: ["citationMarker", "references", "relatedPapers"]
+        required: ["snippet", "explanation", "strength"]
       }
     }
-  });
-
-  try {
-    const data = JSON.parse(response.text || "{}");
-    return {
-      citationMarker: data.citationMarker || "",
-      references: data.references || [],
-      relatedPapers: data.relatedPapers || []
-    };
-  } catch (e) {
-    console.error("Failed to parse citation JSON", e);
-    return { citationMarker: "", references: [], relatedPapers: [] };
-  }
+  },
+  required: ["placements"]
 };
 
-export const findCitationPlacements = async (paper: RelatedPaper, documentText: string): Promise<CitationPlacement[]> => {
-  const ai = getClient();
-  const response = await ai.models.generateContent({
-    model: MODEL_FAST,
-    contents: `Task: Scan the provided academic document and find 2-3 specific sentences where the following research paper could be cited to strengthen the argument or provide evidence.
+export const findCitationPlacements = async (paper: RelatedPaper, sections: PaperSection[]): Promise<CitationPlacement[]> => {
+  const { provider, model } = resolveTask('microEdit');
+  const chunks = chunkSections(sections);
+  const { results, failed } = await mapChunks(chunks, chunk => requestJSON(provider, {
+    model,
+    fixture: 'placements',
+    mode: EditorMode.DISCOVERY,
+    cache: true,
+    purpose: `Finding placements in "${chunk.label}"`,
+    prompt: `Task: Scan this section of an academic manuscript and find at most 2 specific sentences where the following research paper could be cited to strengthen the argument or provide evidence. Return an empty placements list if no sentence would benefit.
     
     RESEARCH PAPER: "${paper.title}" by ${paper.authors} (${paper.year})
     PAPER SUMMARY: ${paper.relevance}
 
-    DOCUMENT:
-    ${documentText.substring(0, 20000)}`, // Truncated for safety
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            snippet: { type: Type.STRING, description: "The exact sentence from the document." },
-            explanation: { type: Type.STRING, description: "Why citing the research here is beneficial." },
-            sectionId: { type: Type.STRING, description: "Internal placeholder (ignore)." }
-          },
-          required: ["snippet", "explanation"]
-        }
-      }
-    }
-  });
-
-  try {
-    return JSON.parse(response.text || "[]");
-  } catch (e) {
-    return [];
-  }
+    SECTION:
+    ${chunk.text}`,
+    schema: PLACEMENTS_SCHEMA
+  }));
+  if (chunks.length > 0 && results.length === 0) throw new Error(`No section could be searched for placements. ${failed[0].error}`);
+  // Sort is stable, so equally strong placements stay in document order.
+  return results
+    .flatMap(({ chunk, value }) => value.placements.map(p => ({ ...p, sectionId: chunk.sectionId })))
+    .filter((p, i, all) => p.snippet && all.findIndex(o => o.snippet === p.snippet) === i)
+    .sort((a, b) => (b.strength || 0) - (a.strength || 0))
+    .slice(0, MAX_PLACEMENTS)
+    .map(({ strength, ...placement }) => placement);
 };
 
 export const microEdit = async (text: string, instruction: string): Promise<string> => {
-  const ai = getClient();
-  const response = await ai.models.generateContent({
-    model: MODEL_FAST,
-    contents: `Instruction: ${instruction}\n\nTarget Text: "${text}"\n\nReturn ONLY the revised text.`,
+  const { provider, model } = resolveTask('microEdit');
+  const responseText = await provider.generateText({
+    model,
+    fixture: 'microEdit',
+    mode: EditorMode.WRITE,
+    prompt: `Instruction: ${instruction}\n\nTarget Text: "${text}"\n\nReturn ONLY the revised text.`,
   });
-  return response.text || text;
+  return responseText || text;
+};
+
+// What a section-by-section analysis has found so far, and how far it has got. Parts that failed are marked
+// in progress, with the reason.
+export interface ChunkedAnalysis {
+  issues: AnalysisIssue[];
+  generalFeedback: string;
+  progress: ChunkProgress[];
+}
+
+const DE_AI_SCHEMA: ResponseSchema<{ issues: AnalysisIssue[] }> = {
+  type: Type.OBJECT,
+  properties: { issues: { type: Type.ARRAY, items: issueSchema(true) } },
+  required: ["issues"]
 };
 
-export const analyzeDeAI = async (text: string): Promise<any> => {
-  const ai = getClient();
-  const response = await ai.models.generateContent({
-    model: MODEL_FAST,
-    contents: `Analyze the following text for AI-generated patterns and academic tone. Return a JSON object with: 
-    - stats: { wordCount, aiProbabilityScore, readabilityScore }
+const listOf = (items: string[]) => items.length > 1 ? `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}` : items[0] || "";
+
+// Each section is read on its own; the judgement is about wording, so nothing is lost by splitting.
+export const analyzeDeAI = async (
+  sections: PaperSection[],
+  journal: JournalProfile,
+  { onPartial, signal }: StreamOptions<ChunkedAnalysis> = {}
+): Promise<ChunkedAnalysis> => {
+  const { provider, model } = resolveTask('deAI');
+  const chunks = chunkSections(sections);
+  const { results, failed, progress } = await mapChunks(chunks, async chunk => {
+    const reply = await requestJSON(provider, {
+      model,
+      fixture: 'deAI',
+      mode: EditorMode.DE_AI,
+      cache: true,
+      purpose: `The De-AI check of "${chunk.label}"`,
+      signal,
+      prompt: `Analyze the following section of a manuscript for AI-generated patterns and academic tone, judged against the register of ${journal.name}. Word counts and readability are computed locally, so report only what needs judgement. Return a JSON object with: 
     - issues: Array of { id, type: 'warning'|'error', title, description, suggestion, snippet, replacement }
-    - generalFeedback: string
     
-    TEXT: "${text}"`,
-    config: { responseMimeType: "application/json" }
-  });
-  return JSON.parse(response.text || "{}");
+    TEXT: "${chunk.text}"`,
+      schema: DE_AI_SCHEMA
+    });
+    return reply.issues;
+  }, { signal, onProgress: (progress, done) => onPartial?.({ issues: mergeChunkIssues(done), generalFeedback: "", progress }) });
+  if (chunks.length > 0 && results.length === 0) throw new Error(`No section could be analysed. ${failed[0].error}`);
+
+  const issues = mergeChunkIssues(results);
+  const flagged = Array.from(new Set(issues.map(i => i.location!)));
+  const summary = issues.length
+    ? `The AI reviewer flagged ${issues.length} ${issues.length === 1 ? 'passage' : 'passages'} in ${listOf(flagged)}.`
+    : "The AI reviewer read the manuscript section by section and flagged nothing further.";
+  return { issues, generalFeedback: summary, progress };
 };
 
-export const performJournalReview = async (text: string, journal: JournalStyle): Promise<any> => {
-  const ai = getClient();
-  const response = await ai.models.generateContent({
-    model: MODEL_COMPLEX,
-    contents: `Simulate a peer reviewer for ${journal}. Critically evaluate the following text. Return a JSON object with:
+interface SectionReview {
+  issues: AnalysisIssue[];
+  notes: string;
+}
+
+const SECTION_REVIEW_SCHEMA: ResponseSchema<SectionReview> = {
+  type: Type.OBJECT,
+  properties: {
+    issues: { type: Type.ARRAY, items: issueSchema() },
+    notes: { type: Type.STRING }
+  },
+  required: ["issues", "notes"]
+};
+
+const OVERALL_REVIEW_SCHEMA: ResponseSchema<{ issues: AnalysisIssue[], feedback: string }> = {
+  type: Type.OBJECT,
+  properties: {
+    issues: { type: Type.ARRAY, items: issueSchema() },
+    feedback: { type: Type.STRING }
+  },
+  required: ["issues", "feedback"]
+};
+
+const OVERALL_STEP = { id: "overall", label: "Overall assessment" };
+
+// Map: every section is reviewed with the outline for context, returning its own issues and notes. Reduce: one
+// more call reads the notes and raises what only the whole paper shows, then writes the feedback. Issues are
+// reported as each one finishes streaming; the feedback paragraph comes last.
+export const performJournalReview = async (
+  sections: PaperSection[],
+  journal: JournalProfile,
+  { onPartial, signal }: StreamOptions<ChunkedAnalysis> = {}
+): Promise<ChunkedAnalysis> => {
+  const { provider, model } = resolveTask('review');
+  const chunks = chunkSections(sections);
+  const outline = outlineOf(sections);
+  const reviews = new Map<string, Partial<SectionReview>>();
+  let progress: ChunkProgress[] = [];
+  const sectionIssues = () => mergeChunkIssues(chunks.map(chunk => ({ chunk, value: (reviews.get(chunk.id)?.issues || []).filter(i => i?.title) })));
+  const report = (overall: Partial<SectionReview> & { feedback?: string } = {}, status: ChunkProgress['status'] = 'pending') => onPartial?.({
+    issues: [...(overall.issues || []), ...sectionIssues()],
+    generalFeedback: overall.feedback || "",
+    progress: [...progress, { ...OVERALL_STEP, status }]
+  });
+
+  const { results, failed } = await mapChunks(chunks, async chunk => {
+    const review = await requestJSON(provider, {
+      model,
+      fixture: 'review',
+      mode: EditorMode.REVIEW,
+      cache: true,
+      purpose: `The review of "${chunk.label}"`,
+      signal,
+      prompt: `Simulate a peer reviewer for ${journal.name}. You are reading one section of a longer manuscript whose outline is below; concerns about the manuscript as a whole are raised later from your notes. Critically evaluate this section against the journal's rules. Return a JSON object with:
+    - issues: Array of { id, type: 'error'|'warning', title, description, suggestion, snippet }, with snippet quoting the section exactly when the issue is about one passage
+    - notes: two or three sentences on what the section establishes and what it lacks
+
+    ${describeProfile(journal)}
+
+    OUTLINE:
+    ${outline}
+    
+    TEXT: "${chunk.text}"`,
+      schema: SECTION_REVIEW_SCHEMA
+    }, (soFar) => {
+      reviews.set(chunk.id, parsePartialJSON(soFar) as Partial<SectionReview> || {});
+      report();
+    });
+    reviews.set(chunk.id, review);
+    return review;
+  }, { signal, onProgress: (next) => { progress = next; report(); } });
+  if (chunks.length > 0 && results.length === 0) throw new Error(`No section could be reviewed. ${failed[0].error}`);
+
+  const found = mergeChunkIssues(results.map(({ chunk, value }): ChunkResult<AnalysisIssue[]> => ({ chunk, value: value.issues })));
+  let overall: { issues?: AnalysisIssue[], feedback?: string } = {};
+  let summaryStep: ChunkProgress = { ...OVERALL_STEP, status: 'done' };
+  try {
+    report({}, 'running');
+    overall = await requestJSON(provider, {
+      model,
+      fixture: 'reviewSummary',
+      mode: EditorMode.REVIEW,
+      cache: true,
+      purpose: "The overall assessment",
+      signal,
+      prompt: `You have reviewed a manuscript for ${journal.name} one section at a time. From the outline and your notes below, raise only the concerns about the manuscript as a whole that no single section shows, such as missing material, an argument that does not hold together across sections, or a poor fit with the journal, and write the overall review. Return a JSON object with:
     - issues: Array of { id, type: 'error'|'warning', title, description, suggestion }
     - feedback: string
-    
-    TEXT: "${text}"`,
-    config: { responseMimeType: "application/json" }
-  });
-  return JSON.parse(response.text || "{}");
+
+    ${describeProfile(journal)}
+
+    OUTLINE:
+    ${outline}
+
+    NOTES:
+    ${results.map(({ chunk, value }) => `${chunk.label}: ${value.notes}`).join("\n")}`,
+      schema: OVERALL_REVIEW_SCHEMA
+    }, (soFar) => report(parsePartialJSON(soFar) as typeof overall, 'running'));
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    console.error("The overall assessment failed", e);
+    summaryStep = { ...OVERALL_STEP, status: 'failed', error: (e as Error).message };
+  }
+
+  const paperIssues = (overall.issues || [])
+    .filter(i => !found.some(f => f.title.trim().toLowerCase() === i.title.trim().toLowerCase()))
+    .map((i, n) => ({ ...i, id: `overall-${i.id || n}` }));
+  return {
+    issues: [...paperIssues, ...found],
+    generalFeedback: overall.feedback || "",
+    progress: [...progress, summaryStep]
+  };
 };
 
-export const checkFormatting = async (text: string, journal: JournalStyle): Promise<any> => {
-  const ai = getClient();
-  const response = await ai.models.generateContent({
-    model: MODEL_FAST,
-    contents: `Check compliance with ${journal} style. Return JSON with issues array and generalFeedback.`,
-    config: { responseMimeType: "application/json" }
+export interface ReorganizationPlan {
+  summary: string;
+  steps: ReorganizationStep[];
+}
+
+const PLAN_SCHEMA: ResponseSchema<{ summary: string, steps: RawPlanStep[] }> = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    steps: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          tool: { type: Type.STRING, enum: PLAN_TOOLS },
+          rationale: { type: Type.STRING },
+          section: { type: Type.STRING },
+          paragraph: { type: Type.INTEGER },
+          target: { type: Type.STRING },
+          title: { type: Type.STRING },
+          content: { type: Type.STRING }
+        },
+        required: ["tool", "rationale"]
+      }
+    }
+  },
+  required: ["summary", "steps"]
+};
+
+// Paragraphs are pointed at by number and resolved to their text here, so a plan keeps working
+// however its steps are later reordered, excluded or adjusted.
+export const reorganizePaper = async (
+  sections: PaperSection[],
+  journal: JournalProfile,
+  { onPartial, signal }: StreamOptions<ReorganizationPlan> = {}
+): Promise<ReorganizationPlan> => {
+  const { provider, model } = resolveTask('review');
+  const toPlan = (data: { summary?: string, steps?: RawPlanStep[] } | undefined): ReorganizationPlan => ({
+    summary: data?.summary || "",
+    steps: (data?.steps || []).map(step => resolvePlanStep(step, sections)).filter((step): step is ReorganizationStep => step !== null)
   });
-  return JSON.parse(response.text || "{}");
+  const plan = await requestJSON(provider, {
+    model,
+    fixture: 'reorganize',
+    mode: EditorMode.REORGANIZE,
+    cache: true,
+    purpose: "The reorganization plan",
+    signal,
+    prompt: `Plan a structural reorganization of this manuscript for ${journal.name}. Return a JSON object with:
+    - summary: two or three sentences on what the structure gets wrong and how the plan fixes it
+    - steps: the changes, in the order they should run, each with "tool", a one-sentence "rationale" and the arguments its tool needs:
+      - moveSection: section, target. Moves the section to just after target; target "start" moves it to the top.
+      - mergeSections: section, target. Appends the section's text to target and removes the section.
+      - splitSection: section, paragraph, title. Starts a new section titled title at that paragraph.
+      - renameSection: section, title.
+      - moveText: section, paragraph, target. Moves that paragraph to the end of target.
+      - createSection: title, content, target. Adds a section the journal expects but the manuscript lacks, after target; content says in a sentence what belongs there.
+    Name sections by their exact current title and put renames after the other steps. Paragraph numbers are the bracketed ones below. Return no steps if the structure already fits.
+
+    ${describeProfile(journal)}
+
+    MANUSCRIPT:
+    ${numberParagraphs(sections)}`,
+    schema: PLAN_SCHEMA
+  }, (soFar) => onPartial?.(toPlan(parsePartialJSON(soFar) as { summary?: string, steps?: RawPlanStep[] } | undefined)));
+  return toPlan(plan);
 };
 
-export const reorganizePaper = async (text: string, journal: JournalStyle): Promise<string> => {
-  const ai = getClient();
-  const response = await ai.models.generateContent({
-    model: MODEL_COMPLEX,
-    contents: `Suggest a structural reorganization of this paper for ${journal}. Describe the plan.`,
+// Condenses the older part of a conversation, folding in the summary of anything older still.
+export const summarizeConversation = async (previousSummary: string | undefined, messages: ChatMessage[]): Promise<string> => {
+  const { provider, model } = resolveTask('agent');
+  const transcript = messages.map(m => `${m.role === 'user' ? 'Author' : 'Agent'}: ${turnText(m)}`).join("\n\n");
+  const responseText = await provider.generateText({
+    model,
+    fixture: 'summarize',
+    mode: EditorMode.AGENT,
+    prompt: `Summarize this conversation between an author and their writing assistant in at most 200 words. Keep the author's goals, decisions, constraints and any open questions; drop pleasantries.
+    ${previousSummary ? `\nSUMMARY OF EARLIER CONVERSATION:\n${previousSummary}\n` : ""}
+    CONVERSATION:
+    ${transcript}`
   });
-  return response.text || "No suggestions.";
+  return responseText.trim() || previousSummary || "";
+};
+
+export interface AgentReply {
+  content: string;
+  proposals: AnalysisIssue[];
+  actions: AgentAction[];
+}
+
+interface AgentChatOptions extends StreamOptions<AgentReply> {
+  bibliography?: BibEntry[];
+  // Output of the read-only tools the agent called in its previous reply to this question.
+  toolResults?: string;
+}
+
+const TOOL_INSTRUCTIONS = `You can act on the manuscript by listing steps in "actions"; the author confirms each one before it runs. Each action has "tool", a one-sentence "summary" of why, and the arguments its tool needs:
+${Object.entries(AGENT_TOOL_DOCS).map(([tool, doc]) => `- ${tool}: ${doc}`).join("\n")}
+Sections are named by their exact title. Steps run in the order listed, each on the result of the previous one. Use "proposals" for rewording text in place and "actions" for everything else. When you only need to read, list just the readSection steps and wait for their results.`;
+
+const AGENT_REPLY_SCHEMA: ResponseSchema<{ content: string, proposals: AnalysisIssue[], actions: Omit<AgentAction, 'id' | 'status'>[] }> = {
+  type: Type.OBJECT,
+  properties: {
+    content: { type: Type.STRING },
+    proposals: { type: Type.ARRAY, items: issueSchema(true) },
+    actions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          tool: { type: Type.STRING, enum: Object.keys(AGENT_TOOL_DOCS) },
+          summary: { type: Type.STRING },
+          section: { type: Type.STRING },
+          title: { type: Type.STRING },
+          target: { type: Type.STRING },
+          text: { type: Type.STRING },
+          content: { type: Type.STRING },
+          reference: { type: Type.STRING },
+          mode: { type: Type.STRING }
+        },
+        required: ["tool", "summary"]
+      }
+    }
+  },
+  required: ["content"]
 };
 
+// Characters of manuscript sent with each agent turn; sections beyond it are listed for the agent to read.
+const AGENT_CONTEXT_BUDGET = 30000;
+
+// The document travels with the newest turn only, since it changes between messages; earlier turns are
+// replayed as plain chat and anything older than those arrives as the thread's summary. A long manuscript
+// keeps the sections the question names in full first.
 export const agentChat = async (
   message: string, 
-  history: ChatMessage[], 
-  documentText: string,
-  journal: JournalStyle
-): Promise<{ content: string, proposals: AnalysisIssue[] }> => {
-  const ai = getClient();
-  const context = documentText.substring(0, 30000); 
-  const response = await ai.models.generateContent({
-    model: MODEL_COMPLEX,
-    contents: `Document Context: ${context}\n\nUser Question: ${message}`,
-    config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-                content: { type: Type.STRING },
-                proposals: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            id: { type: Type.STRING },
-                            type: { type: Type.STRING },
-                            title: { type: Type.STRING },
-                            description: { type: Type.STRING },
-                            snippet: { type: Type.STRING },
-                            replacement: { type: Type.STRING }
-                        }
-                    }
-                }
-            }
-        }
-    }
+  thread: AgentThread, 
+  sections: PaperSection[],
+  journal: JournalProfile,
+  { onPartial, signal, bibliography = [], toolResults }: AgentChatOptions = {}
+): Promise<AgentReply> => {
+  const { provider, model } = resolveTask('agent');
+  const asked = message.toLowerCase();
+  const context = fitSections(sections, AGENT_CONTEXT_BUDGET, s => asked.includes(s.title.trim().toLowerCase()));
+  const references = bibliography.length
+    ? `\n\nBibliography (cite by id):\n${bibliography.map(e => `[${e.id}] ${e.authors[0]?.split(",")[0] || "Anon."} (${e.year}) ${e.title}`).join("\n")}`
+    : "";
+  const reply = await requestJSON(provider, {
+    model,
+    fixture: 'agent',
+    mode: EditorMode.AGENT,
+    purpose: "The agent's reply",
+    signal,
+    system: `You are Scholar Agent, helping an author prepare their manuscript for submission to ${journal.name}. Follow its conventions for structure, tone and citations in every answer and proposed edit. Proposed edits must quote the manuscript exactly in "snippet".\n\n${describeProfile(journal)}\n\n${TOOL_INSTRUCTIONS}${thread.summary ? `\n\nSummary of the earlier conversation:\n${thread.summary}` : ""}`,
+    history: recentMessages(thread).map(m => ({ role: m.role, content: turnText(m) })),
+    prompt: `Document Context: ${context}${references}${toolResults ? `\n\nTool Results:\n${toolResults}` : ""}\n\nUser Question: ${message}`,
+    schema: AGENT_REPLY_SCHEMA
+  }, (soFar) => {
+    const partial = parsePartialJSON(soFar) as Partial<AgentReply> | undefined;
+    onPartial?.({ content: partial?.content || "", proposals: partial?.proposals || [], actions: [] });
   });
-  return JSON.parse(response.text || "{}");
+  // Steps with an unknown tool were dropped by validation rather than shown as steps that can never run.
+  const actions: AgentAction[] = reply.actions.map(a => ({ ...a, id: createId("action"), status: 'pending' }));
+  const proposals = reply.proposals.map(p => ({ ...p, id: p.id || createId("proposal") }));
+  return { content: reply.content, proposals, actions };
 };
@@ -0,0 +1,214 @@
+import { ExportTemplate, JournalProfile, JournalStyle, ReferenceStyle, SectionKind } from "../types";
+import { createId } from "./storageService";
+
+const STORAGE_KEY = "scholarpolish.journalProfiles";
+
+export const REFERENCE_STYLE_LABELS: Record<ReferenceStyle, string> = {
+  apa: "APA author-date",
+  mla: "MLA author-page",
+  ieee: "IEEE numbered",
+  nature: "Nature superscript",
+  ama: "AMA superscript"
+};
+
+const IMRAD_SHARES: JournalProfile['sectionShares'] = { introduction: [0.1, 0.25], methods: [0.15, 0.35], results: [0.2, 0.4], discussion: [0.15, 0.35], conclusion: [0.02, 0.1] };
+
+const TEMPLATE: ExportTemplate = { font: 'Times New Roman', fontSizePt: 12, lineSpacing: 2, titlePage: false, lineNumbers: false, floatsAtEnd: false, headingCase: 'title', numberedHeadings: false, referencesTitle: 'References', hangingReferences: true };
+
+// Rough limits from the journals' author guidelines for a standard research article.
+export const BUILT_IN_PROFILES: JournalProfile[] = [
+  {
+    id: JournalStyle.GENERAL, name: JournalStyle.GENERAL, builtIn: true, referenceStyle: 'apa',
+    abstractWords: [100, 300], abstractStructure: [], requiredSections: ['Abstract', 'Introduction', 'Methods', 'Results', 'Discussion'],
+    sectionShares: IMRAD_SHARES,
+    template: { ...TEMPLATE, lineSpacing: 1.5 }
+  },
+  {
+    id: JournalStyle.NATURE, name: JournalStyle.NATURE, builtIn: true, referenceStyle: 'nature',
+    wordLimit: 4300, abstractWords: [100, 200], abstractStructure: [], requiredSections: ['Abstract', 'Introduction', 'Results', 'Discussion', 'Methods'],
+    sectionShares: { introduction: [0.1, 0.2], methods: [0.15, 0.35], results: [0.3, 0.5], discussion: [0.15, 0.3], conclusion: [0, 0.08] },
+    maxFigures: 6, maxTables: 4, maxReferences: 50,
+    template: { ...TEMPLATE, font: 'Arial', titlePage: true, lineNumbers: true, floatsAtEnd: true, hangingReferences: false }
+  },
+  {
+    id: JournalStyle.IEEE, name: JournalStyle.IEEE, builtIn: true, referenceStyle: 'ieee',
+    abstractWords: [150, 250], abstractStructure: [], requiredSections: ['Abstract', 'Introduction', 'Conclusion'],
+    sectionShares: { introduction: [0.1, 0.2], methods: [0.2, 0.4], results: [0.2, 0.4], discussion: [0.05, 0.25], conclusion: [0.02, 0.08] },
+    keywords: [3, 10],
+    template: { ...TEMPLATE, fontSizePt: 10, lineSpacing: 1, headingCase: 'upper', numberedHeadings: true, hangingReferences: false }
+  },
+  {
+    id: JournalStyle.APA, name: JournalStyle.APA, builtIn: true, referenceStyle: 'apa',
+    abstractWords: [150, 250], abstractStructure: [], requiredSections: ['Abstract', 'Introduction', 'Method', 'Results', 'Discussion'],
+    sectionShares: { introduction: [0.2, 0.35], methods: [0.15, 0.3], results: [0.15, 0.35], discussion: [0.15, 0.3], conclusion: [0, 0.08] },
+    keywords: [3, 5],
+    template: { ...TEMPLATE, titlePage: true, floatsAtEnd: true }
+  },
+  {
+    id: JournalStyle.MLA, name: JournalStyle.MLA, builtIn: true, referenceStyle: 'mla',
+    abstractStructure: [], requiredSections: [], sectionShares: {},
+    template: { ...TEMPLATE, referencesTitle: 'Works Cited' }
+  },
+  {
+    id: JournalStyle.MEDICAL, name: JournalStyle.MEDICAL, builtIn: true, referenceStyle: 'ama',
+    wordLimit: 3000, abstractWords: [200, 350],
+    abstractStructure: ['Importance', 'Objective', 'Design, Setting, and Participants', 'Main Outcomes and Measures', 'Results', 'Conclusions and Relevance'],
+    requiredSections: ['Abstract', 'Introduction', 'Methods', 'Results', 'Discussion', 'Conclusions'],
+    sectionShares: { introduction: [0.05, 0.15], methods: [0.2, 0.35], results: [0.2, 0.4], discussion: [0.2, 0.35], conclusion: [0, 0.08] },
+    maxFigures: 4, maxTables: 4, maxReferences: 50,
+    template: { ...TEMPLATE, titlePage: true, lineNumbers: true, floatsAtEnd: true, hangingReferences: false }
+  }
+];
+
+export const DEFAULT_PROFILE = BUILT_IN_PROFILES[0];
+
+let cached: JournalProfile[] | null = null;
+// Stored entries that no longer validate. They are written back untouched, so saving never deletes them.
+const unreadable: unknown[] = [];
+
+// Each stored profile is checked on its own, so one that no longer validates is skipped rather than the whole list.
+export const getCustomProfiles = (): JournalProfile[] => {
+  if (cached) return cached;
+  let stored: unknown = [];
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+  } catch (e) {
+    console.error("Failed to read journal profiles", e);
+  }
+  cached = (Array.isArray(stored) ? stored : []).flatMap(p => {
+    try {
+      return [normalizeProfile(p)];
+    } catch (e) {
+      console.error("Skipped an invalid journal profile", e);
+      unreadable.push(p);
+      return [];
+    }
+  });
+  return cached;
+};
+
+export const saveCustomProfiles = (profiles: JournalProfile[]) => {
+  cached = profiles;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([...profiles, ...unreadable]));
+};
+
+export const allProfiles = () => [...BUILT_IN_PROFILES, ...getCustomProfiles()];
+
+// A manuscript's stored journal: its own copy of a profile, or a built-in id from before profiles existed.
+export const resolveProfile = (journal: JournalProfile | JournalStyle | undefined): JournalProfile => {
+  if (!journal) return DEFAULT_PROFILE;
+  if (typeof journal === 'string') return BUILT_IN_PROFILES.find(p => p.id === journal) || DEFAULT_PROFILE;
+  return journal;
+};
+
+// An editable copy; built-in profiles are never changed in place.
+export const copyProfile = (profile: JournalProfile, name = `${profile.name} (copy)`): JournalProfile =>
+  ({ ...structuredClone(profile), id: createId("journal"), name, builtIn: undefined });
+
+const fail = (field: string, expected: string): never => { throw new Error(`"${field}" should be ${expected}.`); };
+
+const optionalCount = (value: unknown, field: string) => {
+  if (value === undefined || value === null) return undefined;
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : fail(field, "a positive whole number");
+};
+
+const optionalRange = (value: unknown, field: string): [number, number] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const ok = Array.isArray(value) && value.length === 2 && value.every(n => typeof n === 'number' && n >= 0) && value[0] <= value[1];
+  return ok ? [value[0], value[1]] : fail(field, "a [min, max] pair");
+};
+
+const stringList = (value: unknown, field: string) => {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) && value.every(v => typeof v === 'string') ? value.map(v => v.trim()).filter(Boolean) : fail(field, "a list of strings");
+};
+
+const SECTION_KINDS: SectionKind[] = ['abstract', 'introduction', 'methods', 'results', 'discussion', 'conclusion', 'other'];
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isReferenceStyle = (value: unknown): value is ReferenceStyle => typeof value === 'string' && value in REFERENCE_STYLE_LABELS;
+
+// Exports write the font into styles.xml and a <style> block, so only plain font names are accepted.
+const FONT_NAME = /^[\p{L}\p{N}][\p{L}\p{N} .-]{0,63}$/u;
+
+const templateSetting = <K extends keyof ExportTemplate>(template: Record<string, unknown>, key: K, valid: (value: unknown) => boolean, expected: string): ExportTemplate[K] => {
+  const value = template[key];
+  if (value === undefined || value === null) return DEFAULT_PROFILE.template[key];
+  return valid(value) ? value as ExportTemplate[K] : fail(`template.${key}`, expected);
+};
+
+const readTemplate = (value: unknown): ExportTemplate => {
+  const t = isObject(value) ? value : {};
+  const flag = (key: 'titlePage' | 'lineNumbers' | 'floatsAtEnd' | 'numberedHeadings' | 'hangingReferences') =>
+    templateSetting(t, key, v => typeof v === 'boolean', "true or false");
+  return {
+    font: templateSetting(t, 'font', v => typeof v === 'string' && FONT_NAME.test(v), "a font name of letters, digits, spaces, dots and hyphens"),
+    fontSizePt: templateSetting(t, 'fontSizePt', v => typeof v === 'number' && v > 0, "a positive number"),
+    lineSpacing: templateSetting(t, 'lineSpacing', v => v === 1 || v === 1.5 || v === 2, "1, 1.5 or 2"),
+    titlePage: flag('titlePage'),
+    lineNumbers: flag('lineNumbers'),
+    floatsAtEnd: flag('floatsAtEnd'),
+    headingCase: templateSetting(t, 'headingCase', v => v === 'title' || v === 'upper', '"title" or "upper"'),
+    numberedHeadings: flag('numberedHeadings'),
+    referencesTitle: templateSetting(t, 'referencesTitle', v => typeof v === 'string', "a string"),
+    hangingReferences: flag('hangingReferences')
+  };
+};
+
+// Checks a profile read from JSON, keeping only known fields. Missing template settings fall back to the
+// general template, so a hand-written profile only needs the rules it cares about.
+export const normalizeProfile = (value: unknown): JournalProfile => {
+  if (!isObject(value)) throw new Error("A journal profile should be a JSON object.");
+  const name = typeof value.name === 'string' ? value.name.trim() : '';
+  if (!name) fail("name", "a non-empty string");
+  const referenceStyle = isReferenceStyle(value.referenceStyle) ? value.referenceStyle : fail("referenceStyle", `one of ${Object.keys(REFERENCE_STYLE_LABELS).join(", ")}`);
+  const shares = isObject(value.sectionShares) ? value.sectionShares : {};
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : createId("journal"),
+    name,
+    referenceStyle,
+    wordLimit: optionalCount(value.wordLimit, "wordLimit"),
+    abstractWords: optionalRange(value.abstractWords, "abstractWords"),
+    abstractStructure: stringList(value.abstractStructure, "abstractStructure"),
+    requiredSections: stringList(value.requiredSections, "requiredSections"),
+    sectionShares: Object.fromEntries(SECTION_KINDS
+      .map(kind => [kind, optionalRange(shares[kind], `sectionShares.${kind}`)] as const)
+      .filter(([, range]) => range !== undefined)),
+    maxFigures: optionalCount(value.maxFigures, "maxFigures"),
+    maxTables: optionalCount(value.maxTables, "maxTables"),
+    keywords: optionalRange(value.keywords, "keywords"),
+    maxReferences: optionalCount(value.maxReferences, "maxReferences"),
+    template: readTemplate(value.template)
+  };
+};
+
+// Imported profiles always become new custom profiles, so a file cannot overwrite a built-in or an existing one.
+export const importProfile = (json: string): JournalProfile => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+  return { ...normalizeProfile(parsed), id: createId("journal") };
+};
+
+export const exportProfile = (profile: JournalProfile) => {
+  const { id, builtIn, ...rules } = profile;
+  return JSON.stringify(rules, null, 2);
+};
+
+// The profile's rules as prompt text, so every model call works to the same venue rules as the local checks.
+export const describeProfile = (profile: JournalProfile) => {
+  const rules = [`Reference style: ${REFERENCE_STYLE_LABELS[profile.referenceStyle]}.`];
+  if (profile.wordLimit) rules.push(`Body text at most ${profile.wordLimit} words, abstract and references excluded.`);
+  if (profile.abstractWords) rules.push(`Abstract ${profile.abstractWords[0]}–${profile.abstractWords[1]} words.`);
+  if (profile.abstractStructure.length) rules.push(`Structured abstract with the headings: ${profile.abstractStructure.join("; ")}.`);
+  if (profile.requiredSections.length) rules.push(`Sections, in this order: ${profile.requiredSections.join(", ")}.`);
+  if (profile.maxFigures) rules.push(`At most ${profile.maxFigures} figures.`);
+  if (profile.maxTables) rules.push(`At most ${profile.maxTables} tables.`);
+  if (profile.maxReferences) rules.push(`At most ${profile.maxReferences} references.`);
+  if (profile.keywords) rules.push(`${profile.keywords[0]}–${profile.keywords[1]} keywords.`);
+  return `${profile.name} rules:\n${rules.map(r => `- ${r}`).join("\n")}`;
+};
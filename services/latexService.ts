@@ -0,0 +1,265 @@
+import JSZip from "jszip";
+import { BibEntry, DocumentState, ImportedDocument, JournalProfile, PaperSection, ReferenceStyle } from "../types";
+import { createEntry, parseReference } from "./bibliographyService";
+import { assignCitationKeys, detex, parseBibtex, toBibtex } from "./bibtexService";
+import { formatInTextCitation, isReferencesSection, journalMarkers, offStyleMarkers, rewriteMarkers } from "./citationStyleService";
+import { sectionLevel } from "./outlineService";
+
+// Environments converted to editor text. Any other environment (maths, floats, ...) is copied through verbatim.
+const HANDLED_ENVIRONMENTS = ['itemize', 'enumerate', 'abstract', 'thebibliography', 'document'];
+const CITE_COMMAND = /\\(?:cite|citep|citet|citealp|citealt|parencite|autocite|textcite|footcite)\*?(?:\[[^\]]*\]){0,2}\{([^}]*)\}/g;
+
+const stripComments = (tex: string) => tex.replace(/(?<!\\)%.*$/gm, '');
+
+// Reads a brace-balanced group starting at `open`, which must index a "{".
+const readGroup = (text: string, open: number) => {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '{' && text[i - 1] !== '\\') depth++;
+    else if (text[i] === '}' && text[i - 1] !== '\\' && --depth === 0) return { content: text.substring(open + 1, i), end: i + 1 };
+  }
+  return { content: text.substring(open + 1), end: text.length };
+};
+
+const commandArgument = (text: string, command: string) => {
+  const m = new RegExp(`\\\\${command}\\*?(?:\\[[^\\]]*\\])?\\s*\\{`).exec(text);
+  return m ? readGroup(text, m.index + m[0].length - 1).content : undefined;
+};
+
+const normalizePath = (path: string) => path.split('/').reduce<string[]>((parts, p) => {
+  if (p === '..') parts.pop();
+  else if (p && p !== '.') parts.push(p);
+  return parts;
+}, []).join('/');
+
+// Inlines \input and \include so the whole project reads as one source.
+const resolveInputs = (tex: string, dir: string, files: Map<string, string>, depth = 0): string =>
+  depth > 10 ? tex : tex.replace(/\\(?:input|include)\s*\{([^}]+)\}/g, (m, name: string) => {
+    const base = normalizePath(`${dir}/${name.trim()}`);
+    const source = files.get(base) ?? files.get(`${base}.tex`) ?? files.get(normalizePath(name.trim())) ?? files.get(`${normalizePath(name.trim())}.tex`);
+    return source === undefined ? m : resolveInputs(stripComments(source), dir, files, depth + 1);
+  });
+
+const convertLists = (text: string): string =>
+  text.replace(/\\begin\{(itemize|enumerate)\}([\s\S]*?)\\end\{\1\}/g, (_, kind: string, body: string) =>
+    `\n\n${body.split(/\\item\b(?:\[[^\]]*\])?/).slice(1).map((item, i) => `${kind === 'enumerate' ? `${i + 1}.` : '-'} ${item.replace(/\s+/g, ' ').trim()}`).join('\n')}\n\n`);
+
+const parseBibitems = (body: string): BibEntry[] =>
+  body.split(/\\bibitem/).slice(1).map(item => {
+    const m = item.match(/^(?:\[[^\]]*\])?\s*\{([^}]*)\}([\s\S]*)$/);
+    if (!m) return null;
+    const text = detex(m[2].replace(/\\newblock/g, ' ').replace(/\s+/g, ' ').trim());
+    return createEntry({ ...parseReference(text), key: m[1].trim() });
+  }).filter((e): e is BibEntry => e !== null);
+
+// Converts one section's LaTeX to the editor's plain-text conventions: paragraphs separated by blank
+// lines, "- " lists, "[^n]" footnotes and formatted in-text citations.
+const texToText = (tex: string, bibliography: BibEntry[], journal: JournalProfile) => {
+  const verbatim: string[] = [];
+  // Verbatim blocks stand as their own paragraphs.
+  const protect = (raw: string) => `\n\n\u0000${verbatim.push(raw) - 1}\u0000\n\n`;
+  let text = tex
+    .replace(/\\begin\{(\w+\*?)\}[\s\S]*?\\end\{\1\}/g, (m, env: string) => HANDLED_ENVIRONMENTS.includes(env) ? m : protect(m.trim()))
+    .replace(/\$\$[\s\S]*?\$\$|\\\[[\s\S]*?\\\]/g, protect);
+
+  text = text.replace(CITE_COMMAND, (m, keys: string) => {
+    const cited = keys.split(',').map(k => bibliography.find(e => e.key === k.trim()));
+    return cited.every((e): e is BibEntry => !!e) ? formatInTextCitation(cited, bibliography, journal) : m;
+  });
+
+  const notes: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = /\\footnote\s*\{/.exec(text))) {
+    const { content, end } = readGroup(text, match.index + match[0].length - 1);
+    notes.push(content);
+    text = `${text.substring(0, match.index)}[^${notes.length}]${text.substring(end)}`;
+  }
+
+  text = convertLists(text)
+    .replace(/\\(?:label|bibliographystyle|bibliography|addbibresource)\s*\{[^}]*\}/g, '')
+    .replace(/\\(?:maketitle|tableofcontents|printbibliography|clearpage|newpage|noindent|centering)\b/g, '')
+    .replace(/\\subsubsection\*?\s*\{([^}]*)\}/g, '\n\n$1\n\n');
+  text = detex(text, true)
+    .split(/\n\s*\n/)
+    .map(p => p.split('\n').every(l => /^(\d+\.|-)\s/.test(l.trim())) ? p.trim() : p.replace(/\s*\n\s*/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n\n');
+  const footnotes = notes.map((n, i) => `[^${i + 1}]: ${detex(n, true).replace(/\s+/g, ' ').trim()}`);
+  return [text, ...footnotes].join('\n\n')
+    .replace(/\u0000(\d+)\u0000/g, (_, i: string) => verbatim[Number(i)])
+    .trim();
+};
+
+export const importLatex = async (data: ArrayBuffer, fileName: string, journal: JournalProfile): Promise<ImportedDocument> => {
+  const files = new Map<string, string>();
+  if (/\.zip$/i.test(fileName)) {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(data);
+    } catch {
+      throw new Error("This file is not a valid .zip archive.");
+    }
+    await Promise.all(Object.values(zip.files)
+      .filter(f => !f.dir && /\.(tex|bib)$/i.test(f.name) && !f.name.startsWith('__MACOSX'))
+      .map(async f => files.set(normalizePath(f.name), await f.async("string"))));
+  } else {
+    files.set(normalizePath(fileName), new TextDecoder().decode(data));
+  }
+
+  const texFiles = [...files.keys()].filter(n => /\.tex$/i.test(n));
+  const main = texFiles.find(n => /\\begin\s*\{document\}/.test(files.get(n)!)) || texFiles[0];
+  if (!main) throw new Error("No .tex file was found in this archive.");
+  const dir = main.includes('/') ? main.substring(0, main.lastIndexOf('/')) : '';
+  const source = resolveInputs(stripComments(files.get(main)!), dir, files);
+
+  const bibFromFiles = [...files.keys()].filter(n => /\.bib$/i.test(n)).flatMap(n => parseBibtex(files.get(n)!));
+  const inlineBib = source.match(/\\begin\{thebibliography\}[\s\S]*?\\end\{thebibliography\}/)?.[0];
+  const bibliography = [...bibFromFiles, ...(inlineBib ? parseBibitems(inlineBib) : [])]
+    .filter((e, i, all) => !e.key || all.findIndex(o => o.key === e.key) === i);
+
+  const rawTitle = commandArgument(source, 'title');
+  const title = rawTitle ? detex(rawTitle.replace(/\\\\/g, ' ')).replace(/\s+/g, ' ').trim() : undefined;
+  const begin = source.search(/\\begin\s*\{document\}/);
+  const end = source.search(/\\end\s*\{document\}/);
+  let body = source.substring(begin === -1 ? 0 : begin + '\\begin{document}'.length, end === -1 ? source.length : end)
+    .replace(/\\begin\{thebibliography\}[\s\S]*?\\end\{thebibliography\}/, '');
+
+  const sections: PaperSection[] = [];
+  const push = (sectionTitle: string, tex: string, level = 1) => {
+    const content = texToText(tex, bibliography, journal);
+    if (content || sectionTitle) sections.push({ id: `sec-${sections.length}-${Date.now()}`, title: sectionTitle || 'Front Matter', content, level: level > 1 ? level : undefined });
+  };
+  const abstract = body.match(/\\begin\{abstract\}([\s\S]*?)\\end\{abstract\}/);
+  if (abstract) {
+    push('Abstract', abstract[1]);
+    body = body.replace(abstract[0], '');
+  }
+
+  const heading = /\\((?:sub){0,2})section\*?\s*(?:\[[^\]]*\])?\s*\{/g;
+  let last = { title: '', start: 0, level: 1 };
+  let m: RegExpExecArray | null;
+  while ((m = heading.exec(body))) {
+    const { content, end: after } = readGroup(body, m.index + m[0].length - 1);
+    push(last.title, body.substring(last.start, m.index), last.level);
+    last = { title: detex(content).trim(), start: after, level: m[1].length / 3 + 1 };
+    heading.lastIndex = after;
+  }
+  push(last.title, body.substring(last.start), last.level);
+
+  if (sections.length === 0) throw new Error("No text was found in this LaTeX source.");
+  return { title, sections, bibliography };
+};
+
+// ---------- Export ----------
+
+// natbib options and a bibliography style from standard TeX Live for each reference style.
+const NATBIB: Record<ReferenceStyle, { options: string, style: string }> = {
+  apa: { options: 'round', style: 'apalike' },
+  mla: { options: 'round', style: 'plainnat' },
+  ieee: { options: 'numbers,sort&compress', style: 'unsrtnat' },
+  nature: { options: 'super,sort&compress', style: 'unsrtnat' },
+  ama: { options: 'super,sort&compress', style: 'unsrtnat' }
+};
+
+const SPECIAL_CHARS: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}',
+  '<': '\\textless{}',
+  '>': '\\textgreater{}'
+};
+
+// A character the author already escaped (\&, \{) is kept as written.
+const escapeText = (text: string) => text
+  .replace(/\\[&%#_{}$]|[\\{}~^&%#_$<>]/g, c => c.length > 1 ? c : SPECIAL_CHARS[c] ?? `\\${c}`)
+  .replace(/“|”/g, m => m === '“' ? '``' : "''")
+  .replace(/—/g, '---')
+  .replace(/–/g, '--');
+
+const tableToTabular = (block: string) => {
+  const rows = block.split('\n').filter(l => !/^\|\s*-{3}/.test(l.trim()))
+    .map(l => l.trim().replace(/^\||\|$/g, '').split(/(?<!\\)\|/).map(c => escapeText(c.trim().replace(/\\\|/g, '|'))));
+  const width = Math.max(...rows.map(r => r.length));
+  return [`\\begin{tabular}{${'l'.repeat(width)}}`, '\\hline', ...rows.map((r, i) => `${r.join(' & ')} \\\\${i === 0 ? ' \\hline' : ''}`), '\\hline', '\\end{tabular}'].join('\n');
+};
+
+const blockToTex = (block: string) => {
+  const lines = block.split('\n');
+  if (lines.every(l => l.trim().startsWith('|'))) return tableToTabular(block);
+  if (lines.every(l => /^\s*-\s/.test(l))) return ['\\begin{itemize}', ...lines.map(l => `  \\item ${escapeText(l.replace(/^\s*-\s/, ''))}`), '\\end{itemize}'].join('\n');
+  if (lines.every(l => /^\s*\d+\.\s/.test(l))) return ['\\begin{enumerate}', ...lines.map(l => `  \\item ${escapeText(l.replace(/^\s*\d+\.\s/, ''))}`), '\\end{enumerate}'].join('\n');
+  return escapeText(block);
+};
+
+const VERBATIM = /(\\begin\{(\w+\*?)\}[\s\S]*?\\end\{\2\}|\$\$[\s\S]*?\$\$|(?<!\\)\$(?![\d\s])[^$\n]+\$|\\\[[\s\S]*?\\\]|\\\w+\{[^}]*\})/g;
+
+// Maths, environments and commands are written back untouched; a $ before a digit or space is a currency sign,
+// not maths. `convert` handles the text between them.
+const withVerbatim = (text: string, convert: (plain: string) => string) => {
+  let out = '';
+  let last = 0;
+  for (const m of text.matchAll(VERBATIM)) {
+    out += convert(text.substring(last, m.index)) + m[0];
+    last = m.index! + m[0].length;
+  }
+  return out + convert(text.substring(last));
+};
+
+const sectionToTex = (content: string) => {
+  const notes = new Map<string, string>();
+  const body = content.replace(/^\[\^(\w+)\]:\s*(.*)$/gm, (_, id: string, note: string) => { notes.set(id, note); return ''; });
+  // Markers become placeholders escaping leaves alone; the notes go in once the text around them is escaped.
+  const cited: string[] = [];
+  const marked = body.replace(/\[\^(\w+)\]/g, (m, id: string) => notes.has(id) ? `\uE000${cited.push(id) - 1}\uE001` : m);
+  return marked.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean).map(p => withVerbatim(p, blockToTex)).join('\n\n')
+    .replace(/\uE000(\d+)\uE001/g, (_, i: string) => `\\footnote{${withVerbatim(notes.get(cited[Number(i)])!, escapeText)}}`);
+};
+
+// Builds a compilable article: resolvable citations become \citep keys into the generated .bib.
+export const exportLatex = (doc: DocumentState, title: string): { tex: string, bib: string } => {
+  const bibliography = assignCitationKeys(doc.bibliography);
+  const markers = [...journalMarkers(doc.sections, bibliography, doc.journal), ...offStyleMarkers(doc.sections, bibliography, doc.journal)];
+  const cited = rewriteMarkers(doc.sections, markers, m => m.cites.every(c => c.entryId)
+    ? `\\citep{${m.cites.map(c => bibliography.find(e => e.id === c.entryId)!.key).join(',')}}`
+    : null);
+  const { options, style } = NATBIB[doc.journal.referenceStyle];
+
+  const body = cited.filter(s => !isReferencesSection(s)).map(s => {
+    const content = sectionToTex(s.content);
+    if (/^abstract$/i.test(s.title.trim())) return `\\begin{abstract}\n${content}\n\\end{abstract}`;
+    if (s.title === 'Front Matter') return content;
+    return `\\${'sub'.repeat(sectionLevel(s) - 1)}section{${escapeText(s.title)}}\n${content}`;
+  }).join('\n\n');
+
+  const tex = [
+    '\\documentclass[11pt]{article}',
+    '\\usepackage[utf8]{inputenc}',
+    '\\usepackage[T1]{fontenc}',
+    '\\usepackage{amsmath,amssymb}',
+    '\\usepackage{graphicx}',
+    `\\usepackage[${options}]{natbib}`,
+    '\\usepackage{hyperref}',
+    '',
+    `\\title{${escapeText(title)}}`,
+    '\\author{}',
+    '\\date{}',
+    '',
+    '\\begin{document}',
+    '\\maketitle',
+    '',
+    body,
+    '',
+    ...(bibliography.length ? [`\\bibliographystyle{${style}}`, '\\bibliography{references}'] : []),
+    '\\end{document}',
+    ''
+  ].join('\n');
+  return { tex, bib: `${toBibtex(bibliography)}\n` };
+};
+
+export const exportLatexZip = async (doc: DocumentState, title: string): Promise<Blob> => {
+  const { tex, bib } = exportLatex(doc, title);
+  const zip = new JSZip();
+  zip.file("main.tex", tex);
+  if (doc.bibliography.length) zip.file("references.bib", bib);
+  return zip.generateAsync({ type: "blob" });
+};
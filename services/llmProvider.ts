@@ -0,0 +1,121 @@
+import { Schema } from "@google/genai";
+import { EditorMode, LLMProviderId, LLMSettings, LLMTask } from "../types";
+import { getLLMSettings } from "./settingsService";
+import { enforceBudget, estimateTokens, recordUsage } from "./usageService";
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createOpenAICompatibleProvider } from "./providers/openAICompatibleProvider";
+import { createMockProvider } from "./providers/mockProvider";
+
+export interface LLMTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  model: string;
+  prompt: string;
+  system?: string;
+  // Earlier turns of a conversation, oldest first; the prompt is the newest user turn.
+  history?: LLMTurn[];
+  // Key into the mock provider's fixtures; real providers ignore it.
+  fixture: string;
+  // The part of the app making the call; usage is reported by it.
+  mode: EditorMode;
+  signal?: AbortSignal;
+  // Called by the provider with the token counts it reports for the call. Set by resolveTask's metering.
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMJSONRequest extends LLMRequest {
+  schema?: Schema;
+}
+
+// Called with the whole response so far each time a chunk arrives.
+export type StreamHandler = (textSoFar: string) => void;
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  generateText: (req: LLMRequest) => Promise<string>;
+  generateJSON: (req: LLMJSONRequest) => Promise<string>;
+  streamText: (req: LLMRequest, onText: StreamHandler) => Promise<string>;
+  streamJSON: (req: LLMJSONRequest, onText: StreamHandler) => Promise<string>;
+}
+
+// What streaming service calls accept: a callback for the partial result and a signal to stop early.
+export interface StreamOptions<T> {
+  onPartial?: (partial: T) => void;
+  signal?: AbortSignal;
+}
+
+export const PROVIDER_LABELS: Record<LLMProviderId, string> = {
+  gemini: "Google Gemini",
+  openai: "OpenAI-compatible",
+  mock: "Offline Demo (Mock)"
+};
+
+export const TASK_LABELS: Record<LLMTask, string> = {
+  review: "Peer Review & Structure",
+  deAI: "De-AI Detection",
+  microEdit: "Micro-edits & Citations",
+  agent: "Scholar Agent"
+};
+
+const buildProvider = (id: LLMProviderId, settings: LLMSettings): LLMProvider => {
+  switch (id) {
+    case 'gemini': return createGeminiProvider(settings.gemini);
+    case 'openai': return createOpenAICompatibleProvider(settings.openai);
+    case 'mock': return createMockProvider();
+  }
+};
+
+// Everything a call sends, for estimating its size when the provider does not report one.
+const requestText = (req: LLMJSONRequest) =>
+  [req.system, ...(req.history || []).map(t => t.content), req.prompt, req.schema && JSON.stringify(req.schema)].filter(Boolean).join("\n");
+
+// Checks the budget before every call and records its usage after. A stream stopped part-way is still
+// recorded, estimated from what arrived, since the provider bills for it.
+const metered = (provider: LLMProvider): LLMProvider => {
+  const run = async <R extends LLMJSONRequest>(req: R, call: (req: R, onText?: StreamHandler) => Promise<string>, onText?: StreamHandler) => {
+    await enforceBudget();
+    let reported: TokenUsage | undefined;
+    let soFar = "";
+    const record = (text: string) => recordUsage({
+      mode: req.mode,
+      provider: provider.id,
+      model: req.model,
+      inputTokens: reported?.inputTokens ?? estimateTokens(requestText(req)),
+      outputTokens: reported?.outputTokens ?? estimateTokens(text),
+      estimated: !reported || undefined
+    });
+    const tracked = onText && ((text: string) => {
+      soFar = text;
+      onText(text);
+    });
+    try {
+      const text = await call({ ...req, onUsage: (usage: TokenUsage) => { reported = usage; } }, tracked);
+      record(text);
+      return text;
+    } catch (e) {
+      if (req.signal?.aborted && soFar) record(soFar);
+      throw e;
+    }
+  };
+  return {
+    id: provider.id,
+    generateText: (req) => run(req, r => provider.generateText(r)),
+    generateJSON: (req) => run(req, r => provider.generateJSON(r)),
+    streamText: (req, onText) => run(req, (r, tracked) => provider.streamText(r, tracked!), onText),
+    streamJSON: (req, onText) => run(req, (r, tracked) => provider.streamJSON(r, tracked!), onText)
+  };
+};
+
+export const resolveTask = (task: LLMTask): { provider: LLMProvider, model: string } => {
+  const settings = getLLMSettings();
+  const config = settings.tasks[task];
+  return { provider: metered(buildProvider(config.provider, settings)), model: config.model };
+};
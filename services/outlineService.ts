@@ -0,0 +1,86 @@
+import { PaperSection } from "../types";
+import { createId } from "./storageService";
+
+// Sections stay a flat list; a subsection is a section with a deeper level than the one before it, so
+// every service that walks sections in order keeps working. Section, subsection and subsubsection.
+export const MAX_LEVEL = 3;
+
+export const sectionLevel = (section: PaperSection) => section.level || 1;
+
+export const headingMark = (section: PaperSection) => "#".repeat(sectionLevel(section));
+
+export const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// Index just past the section's subsections.
+const blockEnd = (sections: PaperSection[], index: number) => {
+  const level = sectionLevel(sections[index]);
+  let end = index + 1;
+  while (end < sections.length && sectionLevel(sections[end]) > level) end++;
+  return end;
+};
+
+const withLevel = (section: PaperSection, level: number): PaperSection => ({ ...section, level: level > 1 ? level : undefined });
+
+// Moves a section together with its subsections to just before or after target's own block.
+export const moveBlock = (sections: PaperSection[], id: string, targetId: string, place: 'before' | 'after'): PaperSection[] => {
+  const from = sections.findIndex(s => s.id === id);
+  if (from === -1 || id === targetId) return sections;
+  const block = sections.slice(from, blockEnd(sections, from));
+  if (block.some(s => s.id === targetId)) return sections;
+  const rest = [...sections.slice(0, from), ...sections.slice(from + block.length)];
+  const target = rest.findIndex(s => s.id === targetId);
+  if (target === -1) return sections;
+  const at = place === 'before' ? target : blockEnd(rest, target);
+  return [...rest.slice(0, at), ...block, ...rest.slice(at)];
+};
+
+// Indents or outdents a section and its subsections together. A section can sit at most one level below
+// the one before it, and nothing goes deeper than MAX_LEVEL; a shift that would break either is refused.
+export const shiftLevel = (sections: PaperSection[], id: string, delta: 1 | -1): PaperSection[] => {
+  const index = sections.findIndex(s => s.id === id);
+  if (index === -1) return sections;
+  const level = sectionLevel(sections[index]) + delta;
+  const end = blockEnd(sections, index);
+  const maxLevel = index === 0 ? 1 : sectionLevel(sections[index - 1]) + 1;
+  if (level < 1 || level > maxLevel) return sections;
+  if (sections.slice(index, end).some(s => sectionLevel(s) + delta > MAX_LEVEL)) return sections;
+  return sections.map((s, i) => i >= index && i < end ? withLevel(s, sectionLevel(s) + delta) : s);
+};
+
+// New sections go after the given section's block at its level, or last ahead of the generated References.
+export const addSection = (sections: PaperSection[], afterId: string | undefined, title: string): { sections: PaperSection[], id: string } => {
+  const after = sections.findIndex(s => s.id === afterId);
+  const refs = sections.findIndex(s => s.generated);
+  const at = after !== -1 ? blockEnd(sections, after) : refs === -1 ? sections.length : refs;
+  const section = withLevel({ id: createId("sec"), title, content: "" }, after !== -1 ? sectionLevel(sections[after]) : 1);
+  return { sections: [...sections.slice(0, at), section, ...sections.slice(at)], id: section.id };
+};
+
+// Subsections of a deleted section move up a level rather than being left under whatever precedes it.
+export const deleteSection = (sections: PaperSection[], id: string): PaperSection[] => {
+  const index = sections.findIndex(s => s.id === id);
+  if (index === -1) return sections;
+  const end = blockEnd(sections, index);
+  return sections
+    .map((s, i) => i > index && i < end ? withLevel(s, sectionLevel(s) - 1) : s)
+    .filter(s => s.id !== id);
+};
+
+// The text after offset becomes a new section at the same level; the caller names it.
+export const splitSectionAt = (sections: PaperSection[], id: string, offset: number, title: string): { sections: PaperSection[], id: string } | null => {
+  const index = sections.findIndex(s => s.id === id);
+  const section = sections[index];
+  if (!section || offset <= 0 || offset >= section.content.length) return null;
+  const head = { ...section, content: section.content.substring(0, offset).trimEnd() };
+  const tail = withLevel({ id: createId("sec"), title, content: section.content.substring(offset).trimStart() }, sectionLevel(section));
+  return { sections: [...sections.slice(0, index), head, tail, ...sections.slice(index + 1)], id: tail.id };
+};
+
+// Appends the following section's text under this one's title. Its subsections stay where they are.
+export const mergeWithNext = (sections: PaperSection[], id: string): PaperSection[] => {
+  const index = sections.findIndex(s => s.id === id);
+  const next = sections[index + 1];
+  if (index === -1 || !next || next.generated) return sections;
+  const content = [sections[index].content.trim(), next.content.trim()].filter(Boolean).join("\n\n");
+  return [...sections.slice(0, index), { ...sections[index], content }, ...sections.slice(index + 2)];
+};
@@ -0,0 +1,105 @@
+// Reads a JSON document that is still streaming in. Strings cut off mid-way are kept as far as they go,
+// so prose fields grow as they arrive; an array only lists items that have fully arrived, so a
+// half-written issue never shows up with a truncated replacement.
+
+interface Parsed {
+  value: unknown;
+  complete: boolean;
+}
+
+const INCOMPLETE: Parsed = { value: undefined, complete: false };
+
+const LITERALS: [string, unknown][] = [["true", true], ["false", false], ["null", null]];
+
+export const parsePartialJSON = (text: string): unknown => {
+  let i = 0;
+  const skip = () => { while (i < text.length && /\s/.test(text[i])) i++; };
+
+  const parseString = (): Parsed => {
+    let out = "";
+    i++;
+    while (i < text.length) {
+      const ch = text[i];
+      if (ch === '"') { i++; return { value: out, complete: true }; }
+      if (ch !== "\\") { out += ch; i++; continue; }
+      const next = text[i + 1];
+      if (next === undefined) break;
+      if (next === "u") {
+        if (i + 6 > text.length) break;
+        out += String.fromCharCode(parseInt(text.substring(i + 2, i + 6), 16));
+        i += 6;
+        continue;
+      }
+      out += ({ n: "\n", t: "\t", r: "\r", b: "\b", f: "\f" } as Record<string, string>)[next] ?? next;
+      i += 2;
+    }
+    i = text.length;
+    return { value: out, complete: false };
+  };
+
+  const parseArray = (): Parsed => {
+    const out: unknown[] = [];
+    i++;
+    for (;;) {
+      skip();
+      if (i >= text.length) return { value: out, complete: false };
+      if (text[i] === "]") { i++; return { value: out, complete: true }; }
+      if (text[i] === ",") { i++; continue; }
+      const item = parseValue();
+      if (!item.complete) return { value: out, complete: false };
+      out.push(item.value);
+    }
+  };
+
+  const parseObject = (): Parsed => {
+    const out: Record<string, unknown> = {};
+    i++;
+    for (;;) {
+      skip();
+      if (i >= text.length) return { value: out, complete: false };
+      if (text[i] === "}") { i++; return { value: out, complete: true }; }
+      if (text[i] === ",") { i++; continue; }
+      if (text[i] !== '"') throw new SyntaxError(`Unexpected "${text[i]}" in JSON at position ${i}.`);
+      const key = parseString();
+      if (!key.complete) return { value: out, complete: false };
+      skip();
+      if (text[i] !== ":") return { value: out, complete: false };
+      i++;
+      skip();
+      if (i >= text.length) return { value: out, complete: false };
+      const value = parseValue();
+      if (value.value !== undefined) out[key.value as string] = value.value;
+      if (!value.complete) return { value: out, complete: false };
+    }
+  };
+
+  const parseValue = (): Parsed => {
+    skip();
+    const ch = text[i];
+    if (ch === undefined) return INCOMPLETE;
+    if (ch === '"') return parseString();
+    if (ch === "[") return parseArray();
+    if (ch === "{") return parseObject();
+    const number = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(text.substring(i));
+    if (number) {
+      i += number[0].length;
+      // "12" at the very end might still become "123".
+      return i >= text.length ? INCOMPLETE : { value: Number(number[0]), complete: true };
+    }
+    const literal = LITERALS.find(([word]) => text.startsWith(word, i));
+    if (literal) { i += literal[0].length; return { value: literal[1], complete: true }; }
+    if (LITERALS.some(([word]) => word.startsWith(text.substring(i)))) return INCOMPLETE;
+    throw new SyntaxError(`Unexpected "${ch}" in JSON at position ${i}.`);
+  };
+
+  // Some models wrap JSON in prose or a code fence; start at the first bracket.
+  const start = text.search(/[[{]/);
+  if (start === -1) return undefined;
+  i = start;
+  try {
+    return parseValue().value;
+  } catch {
+    // Malformed output only matters once the stream ends, where the caller's JSON.parse reports it.
+    return undefined;
+  }
+};
@@ -0,0 +1,59 @@
+import { GoogleGenAI, GenerateContentConfig, ContentListUnion, GenerateContentResponseUsageMetadata } from "@google/genai";
+import { LLMJSONRequest, LLMProvider, LLMRequest, StreamHandler } from "../llmProvider";
+import { LLMSettings } from "../../types";
+
+export const createGeminiProvider = (config: LLMSettings['gemini']): LLMProvider => {
+  const getClient = () => {
+    const apiKey = config.apiKey || process.env.API_KEY;
+    if (!apiKey) {
+      throw new Error("API_KEY environment variable is not set.");
+    }
+    return new GoogleGenAI({ apiKey });
+  };
+
+  const textConfig = (req: LLMRequest): GenerateContentConfig => ({ systemInstruction: req.system, abortSignal: req.signal });
+  const jsonConfig = (req: LLMJSONRequest): GenerateContentConfig => ({
+    ...textConfig(req),
+    responseMimeType: "application/json",
+    responseSchema: req.schema
+  });
+
+  // Gemini calls the assistant side of a conversation "model".
+  const contents = (req: LLMRequest): ContentListUnion => req.history?.length
+    ? [...req.history, { role: 'user', content: req.prompt }].map(t => ({ role: t.role === 'assistant' ? 'model' : 'user', parts: [{ text: t.content }] }))
+    : req.prompt;
+
+  // Thinking tokens are billed as output, so they count towards it.
+  const reportUsage = (req: LLMRequest, usage?: GenerateContentResponseUsageMetadata) => {
+    if (usage?.promptTokenCount === undefined) return;
+    req.onUsage?.({ inputTokens: usage.promptTokenCount, outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0) });
+  };
+
+  const generate = async (req: LLMRequest, genConfig: GenerateContentConfig) => {
+    const response = await getClient().models.generateContent({ model: req.model, contents: contents(req), config: genConfig });
+    reportUsage(req, response.usageMetadata);
+    return response.text || "";
+  };
+
+  const stream = async (req: LLMRequest, genConfig: GenerateContentConfig, onText: StreamHandler) => {
+    const chunks = await getClient().models.generateContentStream({ model: req.model, contents: contents(req), config: genConfig });
+    let text = "";
+    // Each chunk carries the totals so far; the last one's are the call's.
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+    for await (const chunk of chunks) {
+      text += chunk.text || "";
+      usage = chunk.usageMetadata || usage;
+      onText(text);
+    }
+    reportUsage(req, usage);
+    return text;
+  };
+
+  return {
+    id: 'gemini',
+    generateText: (req) => generate(req, textConfig(req)),
+    generateJSON: (req) => generate(req, jsonConfig(req)),
+    streamText: (req, onText) => stream(req, textConfig(req), onText),
+    streamJSON: (req, onText) => stream(req, jsonConfig(req), onText)
+  };
+};
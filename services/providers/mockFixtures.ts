@@ -0,0 +1,132 @@
+// Deterministic fixtures for the offline demo provider. Each fixture derives its
+// answer from the prompt alone so repeated runs over the same text agree.
+
+type Fixture = (prompt: string) => unknown;
+
+const LLM_PHRASES: { phrase: string, replacement: string }[] = [
+  { phrase: "a tapestry of innovation", replacement: "a source of innovation" },
+  { phrase: "It is paramount to underscore the significance of", replacement: "This work examines" },
+  { phrase: "It is important to note that ", replacement: "" },
+  { phrase: "ushered in a new era of", replacement: "changed" },
+  { phrase: "landscape", replacement: "field" }
+];
+
+const quotedAfter = (prompt: string, label: string) => {
+  const idx = prompt.indexOf(label);
+  if (idx === -1) return prompt;
+  const rest = prompt.substring(idx + label.length).trim();
+  const match = rest.match(/^"([\s\S]*)"/);
+  return match ? match[1] : rest;
+};
+
+const phraseIssues = (text: string) => LLM_PHRASES
+  .filter(p => text.includes(p.phrase))
+  .map((p, i) => ({
+    id: `mock-${i}`,
+    type: 'warning',
+    title: `Remove '${p.phrase.trim()}'`,
+    description: "Stock phrasing that is over-represented in LLM output.",
+    suggestion: p.replacement ? `Replace with "${p.replacement}".` : "Delete the filler phrase.",
+    snippet: p.phrase,
+    replacement: p.replacement
+  }));
+
+export const MOCK_FIXTURES: Record<string, Fixture> = {
+  citations: () => ({
+    citationMarker: "(Vaswani et al., 2017)",
+    references: ["Vaswani, A., Shazeer, N., Parmar, N., et al. (2017). Attention is all you need. Advances in Neural Information Processing Systems, 30, 5998-6008."],
+    relatedPapers: [
+      { id: "mock-brown-2020", title: "Language Models are Few-Shot Learners", authors: "Brown, T., Mann, B., Ryder, N., et al.", year: "2020", relevance: "Establishes zero- and few-shot evaluation of large transformers.", fullReference: "Brown, T., Mann, B., Ryder, N., et al. (2020). Language models are few-shot learners. Advances in Neural Information Processing Systems, 33, 1877-1901.", citationMarker: "(Brown et al., 2020)" },
+      { id: "mock-bommasani-2021", title: "On the Opportunities and Risks of Foundation Models", authors: "Bommasani, R., Hudson, D. A., Adeli, E., et al.", year: "2021", relevance: "Surveys the societal and technical landscape of foundation models.", fullReference: "Bommasani, R., Hudson, D. A., Adeli, E., et al. (2021). On the opportunities and risks of foundation models. arXiv preprint arXiv:2108.07258.", citationMarker: "(Bommasani et al., 2021)" }
+    ]
+  }),
+  placements: (prompt) => {
+    const section = prompt.substring(prompt.indexOf("SECTION:") + 8);
+    const sentences = section.split(/(?<=[.!?])\s+/).map(s => s.trim()).filter(s => s.length > 40 && !s.startsWith('#'));
+    return { placements: sentences.slice(0, 2).map(s => ({ snippet: s, explanation: "This claim would benefit from supporting evidence.", strength: Math.min(5, Math.ceil(s.length / 40)) })) };
+  },
+  microEdit: (prompt) => {
+    let text = quotedAfter(prompt, "Target Text:");
+    LLM_PHRASES.forEach(p => { text = text.split(p.phrase).join(p.replacement); });
+    return text;
+  },
+  deAI: (prompt) => {
+    const text = quotedAfter(prompt, "TEXT:");
+    const issues = phraseIssues(text);
+    return {
+      issues,
+      generalFeedback: issues.length ? `Found ${issues.length} phrases typical of machine-generated prose.` : "No common LLM phrasing detected."
+    };
+  },
+  // Section reviews flag overclaiming; the notes record what the overall assessment looks for.
+  review: (prompt) => {
+    const text = quotedAfter(prompt, "TEXT:");
+    const title = text.match(/^#+ (.+)$/m)?.[1] || "This section";
+    const issues = Array.from(new Set(text.match(/[^.!?\n]*\b(clearly|obviously|undoubtedly|proves?)\b[^.!?\n]*[.!?]/gi) || [])).slice(0, 2).map((sentence, i) => ({
+      id: `mock-review-claim-${i}`, type: 'warning', title: "Claim stated too strongly", description: "Reviewers will ask for the evidence behind a claim this certain.", suggestion: "Hedge the claim or cite the supporting result.", snippet: sentence.trim()
+    }));
+    const notes = [
+      `${title} runs to ${text.split(/\s+/).length} words.`,
+      /limitation/i.test(text) ? "It discusses limitations." : "",
+      /\bdata(set)?s?\b.*\b(available|availability)\b/i.test(text) ? "It states where the data are available." : ""
+    ].filter(Boolean).join(" ");
+    return { issues, notes };
+  },
+  reviewSummary: (prompt) => {
+    const notes = prompt.substring(prompt.indexOf("NOTES:"));
+    const issues = [];
+    if (!/data are available/.test(notes)) {
+      issues.push({ id: "mock-review-data", type: 'warning', title: "Data availability not stated", description: "Reviewers will expect a statement on data and code availability.", suggestion: "Add a Data Availability section." });
+    }
+    if (!/discusses limitations/.test(notes)) {
+      issues.push({ id: "mock-review-limits", type: 'error', title: "No limitations discussed", description: "The manuscript does not acknowledge limitations of the approach.", suggestion: "Discuss threats to validity in the Discussion." });
+    }
+    return { issues, feedback: "Offline demo review: structural checks only." };
+  },
+  reorganize: (prompt) => {
+    const titles = Array.from(prompt.substring(prompt.indexOf("MANUSCRIPT:")).matchAll(/^\s*#+ (.+)$/gm), m => m[1].trim());
+    const find = (re: RegExp) => titles.find(t => re.test(t));
+    const intro = find(/introduction/i), methods = find(/method/i), related = find(/related work|background|literature/i);
+    const limits = find(/limitation/i), discussion = find(/discussion/i);
+    const steps = [];
+    if (related && methods && titles.indexOf(related) > titles.indexOf(methods)) {
+      steps.push({ tool: 'moveSection', rationale: "Prior work frames the method, so it belongs before it.", section: related, target: intro || "start" });
+    }
+    if (limits && discussion) {
+      steps.push({ tool: 'mergeSections', rationale: "Limitations are usually discussed within the Discussion.", section: limits, target: discussion });
+    }
+    if (titles.length > 0 && !find(/conclusion/i)) {
+      steps.push({ tool: 'createSection', rationale: "The paper ends without a conclusion.", title: "Conclusion", content: "Summarise the main finding and its implications.", target: titles.filter(t => !(discussion && t === limits)).pop() });
+    }
+    return {
+      summary: steps.length ? "Offline demo plan: structural checks only." : "Offline demo: the section order already follows the usual structure.",
+      steps
+    };
+  },
+  summarize: (prompt) => {
+    const questions = Array.from(prompt.matchAll(/^\s*Author: (.*)$/gm), m => m[1].trim());
+    return `(Offline demo) The author has asked about: ${questions.join("; ") || "nothing yet"}.`;
+  },
+  agent: (prompt) => {
+    const question = prompt.substring(prompt.indexOf("User Question:") + 14).trim();
+    if (prompt.includes("Tool Results:")) {
+      return { content: `(Offline demo) I have read the section you mentioned; ask me to change something in it.`, proposals: [], actions: [] };
+    }
+    const proposals = phraseIssues(prompt.substring(0, prompt.indexOf("User Question:"))).slice(0, 2);
+    // Section titles named in the question, in the order they are mentioned.
+    const titles = Array.from(prompt.matchAll(/^#+ (.+)$/gm), m => m[1].trim())
+      .filter(t => question.toLowerCase().includes(t.toLowerCase()))
+      .sort((a, b) => question.toLowerCase().indexOf(a.toLowerCase()) - question.toLowerCase().indexOf(b.toLowerCase()));
+    const asks = (word: string) => new RegExp(`\\b${word}`, 'i').test(question);
+    const actions = asks('read') && titles[0] ? [{ tool: 'readSection', summary: `Read ${titles[0]} in full.`, section: titles[0] }]
+      : asks('move') && titles.length >= 2 ? [{ tool: 'moveSection', summary: `Place ${titles[0]} after ${titles[1]}.`, section: titles[0], target: titles[1] }]
+      : asks('merge') && titles.length >= 2 ? [{ tool: 'mergeSections', summary: `Fold ${titles[0]} into ${titles[1]}.`, section: titles[0], target: titles[1] }]
+      : asks('review') ? [{ tool: 'runAnalysis', summary: "Run the simulated peer review.", mode: 'REVIEW' }]
+      : [];
+    return {
+      content: `(Offline demo) You asked: "${question}". ${actions.length ? "Here is what I would do." : proposals.length ? "Here are edits that remove stock LLM phrasing." : "I found nothing to change."}`,
+      proposals: actions.length ? [] : proposals,
+      actions
+    };
+  }
+};
@@ -0,0 +1,46 @@
+import { LLMProvider, LLMRequest, StreamHandler } from "../llmProvider";
+import { MOCK_FIXTURES } from "./mockFixtures";
+
+// Small enough chunks that the offline demo shows text arriving the way a real model streams it.
+const CHUNK_SIZE = 24;
+const CHUNK_DELAY_MS = 30;
+
+const runFixture = (req: LLMRequest) => {
+  const fixture = MOCK_FIXTURES[req.fixture];
+  if (!fixture) {
+    throw new Error(`No mock fixture named "${req.fixture}".`);
+  }
+  return fixture(req.prompt);
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const cancelled = () => new DOMException("The request was cancelled.", "AbortError");
+  if (signal?.aborted) return reject(cancelled());
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(cancelled());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const streamOut = async (text: string, req: LLMRequest, onText: StreamHandler) => {
+  for (let i = CHUNK_SIZE; i < text.length + CHUNK_SIZE; i += CHUNK_SIZE) {
+    await wait(CHUNK_DELAY_MS, req.signal);
+    onText(text.substring(0, i));
+  }
+  return text;
+};
+
+const asText = (out: unknown) => typeof out === 'string' ? out : JSON.stringify(out);
+
+export const createMockProvider = (): LLMProvider => ({
+  id: 'mock',
+  generateText: async (req) => asText(runFixture(req)),
+  generateJSON: async (req) => JSON.stringify(runFixture(req)),
+  streamText: (req, onText) => streamOut(asText(runFixture(req)), req, onText),
+  streamJSON: (req, onText) => streamOut(JSON.stringify(runFixture(req)), req, onText)
+});
@@ -0,0 +1,98 @@
+import { Schema } from "@google/genai";
+import { LLMJSONRequest, LLMProvider, LLMRequest, StreamHandler } from "../llmProvider";
+import { LLMSettings } from "../../types";
+
+// Gemini schemas use upper-case type names; JSON Schema expects lower-case.
+const toJSONSchema = (schema: Schema): Record<string, unknown> => {
+  const out: Record<string, unknown> = {};
+  if (schema.type) out.type = schema.type.toLowerCase();
+  if (schema.description) out.description = schema.description;
+  if (schema.enum) out.enum = schema.enum;
+  if (schema.required) out.required = schema.required;
+  if (schema.items) out.items = toJSONSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toJSONSchema(v)]));
+  }
+  return out;
+};
+
+export const createOpenAICompatibleProvider = (config: LLMSettings['openai']): LLMProvider => {
+  // Not every compatible server reports usage; those that do not are estimated by the caller.
+  const reportUsage = (req: LLMRequest, usage?: { prompt_tokens?: number, completion_tokens?: number }) => {
+    if (usage?.prompt_tokens === undefined) return;
+    req.onUsage?.({ inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens || 0 });
+  };
+
+  // Chunks arrive as server-sent events, one JSON delta per "data:" line, ending with "data: [DONE]".
+  // With include_usage the last chunk before that has no delta, only the call's usage.
+  const readStream = async (req: LLMRequest, res: Response, onText: StreamHandler) => {
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let text = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, "").trim();
+        if (!line.startsWith("data:") || !data || data === "[DONE]") continue;
+        const event = JSON.parse(data);
+        reportUsage(req, event.usage);
+        const delta = event.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText(text);
+        }
+      }
+    }
+    return text;
+  };
+
+  const complete = async (req: LLMRequest, extra: Record<string, unknown>, system?: string, onText?: StreamHandler) => {
+    if (!config.baseUrl) {
+      throw new Error("OpenAI-compatible base URL is not configured.");
+    }
+    const messages = [
+      ...(system ? [{ role: 'system', content: system }] : []),
+      ...(req.history || []),
+      { role: 'user', content: req.prompt }
+    ];
+    const res = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify({ model: req.model, messages, ...extra, ...(onText ? { stream: true, stream_options: { include_usage: true } } : {}) }),
+      signal: req.signal
+    });
+    if (!res.ok) {
+      throw new Error(`OpenAI-compatible endpoint returned ${res.status}: ${await res.text()}`);
+    }
+    if (onText) return readStream(req, res, onText);
+    const data = await res.json();
+    reportUsage(req, data.usage);
+    return (data.choices?.[0]?.message?.content as string) || "";
+  };
+
+  // json_object mode is the common denominator across OpenAI, Ollama and llama.cpp,
+  // so the schema travels in the system prompt rather than as json_schema.
+  const completeJSON = (req: LLMJSONRequest, onText?: StreamHandler) => {
+    const schemaHint = req.schema
+      ? `Respond with a single JSON value matching this JSON Schema:\n${JSON.stringify(toJSONSchema(req.schema))}`
+      : "Respond with a single JSON object.";
+    const system = [req.system, schemaHint].filter(Boolean).join("\n\n");
+    return complete(req, { response_format: { type: 'json_object' } }, system, onText);
+  };
+
+  return {
+    id: 'openai',
+    generateText: (req) => complete(req, {}, req.system),
+    generateJSON: (req) => completeJSON(req),
+    streamText: (req, onText) => complete(req, {}, req.system, onText),
+    streamJSON: (req, onText) => completeJSON(req, onText)
+  };
+};
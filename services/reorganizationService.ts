@@ -0,0 +1,111 @@
+import { AgentTool, DocumentState, PaperSection, ReorganizationStep } from "../types";
+import { applyAction } from "./agentToolService";
+import { createId } from "./storageService";
+import { headingMark, wordCount } from "./outlineService";
+
+// The editor operations a reorganization plan may use; "moveText" moves whole paragraphs here.
+export const PLAN_TOOLS: AgentTool[] = ['moveSection', 'mergeSections', 'splitSection', 'renameSection', 'moveText', 'createSection'];
+
+export const paragraphsOf = (content: string) => content.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+
+// The manuscript as the planner sees it: paragraphs are numbered per section so a step can point at one
+// without quoting it. The generated References section is left out since it cannot be restructured.
+export const numberParagraphs = (sections: PaperSection[]) => sections
+  .filter(s => !s.generated)
+  .map(s => `${headingMark(s)} ${s.title}\n\n${paragraphsOf(s.content).map((p, i) => `[${i + 1}] ${p}`).join("\n\n")}`)
+  .join("\n\n");
+
+// What the model returns for one step, before its paragraph number is turned into the paragraph's text.
+export interface RawPlanStep {
+  tool?: string;
+  rationale?: string;
+  section?: string;
+  paragraph?: number;
+  target?: string;
+  title?: string;
+  content?: string;
+}
+
+// Turns a model step into an editor operation against the sections the plan was made from. A step that
+// points at a paragraph that does not exist is kept, marked failed, so the author sees what was dropped.
+export const resolvePlanStep = (raw: RawPlanStep, sections: PaperSection[]): ReorganizationStep | null => {
+  if (!PLAN_TOOLS.includes(raw.tool as AgentTool)) return null;
+  const step: ReorganizationStep = {
+    id: createId("step"),
+    tool: raw.tool as AgentTool,
+    summary: raw.rationale || "",
+    section: raw.section,
+    target: raw.target,
+    title: raw.title,
+    content: raw.content,
+    status: 'pending'
+  };
+  if (step.tool !== 'moveText' && step.tool !== 'splitSection') return step;
+  const section = sections.find(s => s.title.trim().toLowerCase() === (raw.section || "").trim().toLowerCase());
+  const paragraph = section && raw.paragraph ? paragraphsOf(section.content)[raw.paragraph - 1] : undefined;
+  if (!paragraph) return { ...step, status: 'failed', result: `"${raw.section || ""}" has no paragraph ${raw.paragraph ?? ""}.` };
+  return { ...step, paragraph: raw.paragraph, text: paragraph };
+};
+
+export interface PlanOutcome {
+  doc: DocumentState;
+  // Why each included step could not run, by step id.
+  errors: Record<string, string>;
+}
+
+// Runs the included steps in order, each on the result of the previous one. A step that no longer fits is
+// passed over rather than stopping the plan, so the rest of a partly stale plan can still be used.
+export const runPlan = (steps: ReorganizationStep[], doc: DocumentState): PlanOutcome => {
+  const errors: Record<string, string> = {};
+  const result = steps.reduce((current, step) => {
+    if (step.excluded || step.status !== 'pending') return current;
+    try {
+      return applyAction(step, current);
+    } catch (e) {
+      errors[step.id] = (e as Error).message;
+      return current;
+    }
+  }, doc);
+  return { doc: result, errors };
+};
+
+export interface OutlineEntry {
+  title: string;
+  words: number;
+  // The section does not exist yet, or its title or text changes.
+  isNew: boolean;
+  changed: boolean;
+}
+
+export interface PlanPreview {
+  before: OutlineEntry[];
+  after: OutlineEntry[];
+  errors: Record<string, string>;
+}
+
+const outline = (sections: PaperSection[], original: PaperSection[]): OutlineEntry[] => sections
+  .filter(s => !s.generated)
+  .map(s => {
+    const old = original.find(o => o.id === s.id);
+    return { title: s.title, words: wordCount(s.content), isNew: !old, changed: !!old && (old.title !== s.title || old.content !== s.content) };
+  });
+
+export const previewPlan = (steps: ReorganizationStep[], doc: DocumentState): PlanPreview => {
+  const { doc: after, errors } = runPlan(steps, doc);
+  return { before: outline(doc.sections, doc.sections), after: outline(after.sections, doc.sections), errors };
+};
+
+// Dragging a section in the planned outline becomes one more step, so the adjustment can be excluded
+// like any other. Dragging the same section again replaces the earlier adjustment instead of stacking up.
+export const withManualMove = (steps: ReorganizationStep[], section: string, after: string | null): ReorganizationStep[] => {
+  const kept = steps.filter(s => !(s.manual && s.section === section));
+  return [...kept, {
+    id: createId("step"),
+    tool: 'moveSection',
+    summary: "Adjusted by you in the outline.",
+    section,
+    target: after ?? "start",
+    status: 'pending',
+    manual: true
+  }];
+};
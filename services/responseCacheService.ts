@@ -0,0 +1,29 @@
+import { LLMJSONRequest, LLMProvider } from "./llmProvider";
+import { getCachedResponse, saveCachedResponse } from "./storageService";
+
+// Replies to analysis calls are kept under a hash of everything the call sent, so running an analysis again
+// on text that has not changed is answered here instead of paying for the same reply twice. Only replies that
+// passed validation are stored.
+
+// Hashing needs a secure context (https or localhost); elsewhere nothing is cached.
+export const cacheKey = async (provider: LLMProvider, req: LLMJSONRequest): Promise<string | undefined> => {
+  if (!globalThis.crypto?.subtle) return undefined;
+  const { model, system, history, prompt, schema } = req;
+  const content = JSON.stringify({ provider: provider.id, model, system, history, prompt, schema });
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+};
+
+// A cache that cannot be read is treated as empty; the call then simply goes to the model.
+export const readCachedReply = async (key: string): Promise<string | undefined> => {
+  try {
+    return (await getCachedResponse(key))?.text;
+  } catch (e) {
+    console.error("Failed to read the response cache", e);
+    return undefined;
+  }
+};
+
+export const saveCachedReply = (key: string, text: string) => {
+  saveCachedResponse({ key, text, usedAt: Date.now() }).catch(e => console.error("Failed to save to the response cache", e));
+};
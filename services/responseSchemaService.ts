@@ -0,0 +1,157 @@
+import { Schema, Type } from "@google/genai";
+import { LLMJSONRequest, LLMProvider, StreamHandler } from "./llmProvider";
+import { parsePartialJSON } from "./partialJsonService";
+import { cacheKey, readCachedReply, saveCachedReply } from "./responseCacheService";
+import { recordUsage } from "./usageService";
+
+// A response schema that also names the TypeScript type a valid reply has, so the call that sends it
+// gets that type back. The type only exists at compile time.
+export type ResponseSchema<T> = Schema & { readonly __response?: T };
+
+// The first answer plus retries that tell the model what was wrong with its last one.
+const MAX_ATTEMPTS = 3;
+
+// Models wrap JSON in a code fence or a line of preamble more often than they break it. A reply cut off
+// mid-way is closed where it stops, keeping only whole array items, and then has to pass validation like any other.
+const parseReply = (text: string): unknown => {
+  const body = (text.match(/```(?:json)?\s*([\s\S]*?)```/i)?.[1] ?? text).trim();
+  try {
+    return JSON.parse(body);
+  } catch {
+    const value = parsePartialJSON(body);
+    if (value === undefined) throw new Error(body ? "the reply is not valid JSON" : "the reply is empty");
+    return value;
+  }
+};
+
+const describe = (value: unknown) => Array.isArray(value) ? "an array" : value === null ? "null" : typeof value;
+
+// Checks a value against the schema, repairing what can be repaired without guessing: numbers and
+// booleans sent as text, an enum in the wrong case, one object where a list was expected, a missing list.
+// List items that still do not fit are dropped. Anything else is a problem, worded for the retry prompt.
+const conform = (schema: Schema, value: unknown, path: string, problems: string[]): unknown => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        problems.push(`${path} should be an object, not ${describe(value)}`);
+        return undefined;
+      }
+      const out: Record<string, unknown> = { ...value };
+      Object.entries(schema.properties || {}).forEach(([key, property]) => {
+        const raw = out[key];
+        if (raw === undefined || raw === null) {
+          delete out[key];
+          if (property.type === Type.ARRAY) out[key] = [];
+          else if (schema.required?.includes(key)) problems.push(`${path}.${key} is missing`);
+          return;
+        }
+        const fixed = conform(property, raw, `${path}.${key}`, problems);
+        if (fixed === undefined) delete out[key];
+        else out[key] = fixed;
+      });
+      return out;
+    }
+    case Type.ARRAY: {
+      const list = Array.isArray(value) ? value : value && typeof value === 'object' ? [value] : null;
+      if (!list) {
+        problems.push(`${path} should be an array, not ${describe(value)}`);
+        return undefined;
+      }
+      if (!schema.items) return list;
+      const itemProblems: string[] = [];
+      const kept = list
+        .map((item, i) => {
+          const before = itemProblems.length;
+          const fixed = conform(schema.items!, item, `${path}[${i}]`, itemProblems);
+          return itemProblems.length > before ? undefined : fixed;
+        })
+        .filter(item => item !== undefined);
+      // One bad item is dropped; a list with no usable item points at a misunderstanding worth a retry.
+      if (list.length > 0 && kept.length === 0) problems.push(...itemProblems.slice(0, 2));
+      return kept;
+    }
+    case Type.STRING: {
+      const text = typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+      if (typeof text !== 'string') {
+        problems.push(`${path} should be a string, not ${describe(value)}`);
+        return undefined;
+      }
+      if (!schema.enum) return text;
+      const match = schema.enum.find(option => option.toLowerCase() === text.trim().toLowerCase());
+      if (!match) problems.push(`${path} should be one of ${schema.enum.join(", ")}, not "${text}"`);
+      return match;
+    }
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      const n = typeof value === 'string' && value.trim() ? Number(value) : value;
+      if (typeof n !== 'number' || !Number.isFinite(n)) {
+        problems.push(`${path} should be a number, not ${describe(value)}`);
+        return undefined;
+      }
+      return schema.type === Type.INTEGER ? Math.round(n) : n;
+    }
+    case Type.BOOLEAN: {
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') return value === 'true';
+      problems.push(`${path} should be true or false, not ${describe(value)}`);
+      return undefined;
+    }
+    default:
+      return value;
+  }
+};
+
+// Checks a whole reply: the parsed and repaired value, or the problems that make it unusable.
+export const validateReply = <T>(schema: ResponseSchema<T>, text: string): { value: T } | { problems: string[] } => {
+  let parsed: unknown;
+  try {
+    parsed = parseReply(text);
+  } catch (e) {
+    return { problems: [(e as Error).message] };
+  }
+  const problems: string[] = [];
+  const value = conform(schema, parsed, "reply", problems);
+  return problems.length ? { problems } : { value: value as T };
+};
+
+interface StructuredRequest<T> extends LLMJSONRequest {
+  schema: ResponseSchema<T>;
+  // What the call is for, as it should read in an error message, e.g. "The peer review".
+  purpose: string;
+  // Answer from the response cache when exactly this request was answered before. For analyses, whose reply
+  // should only change with the text; not for conversation, where asking again means wanting a new answer.
+  cache?: boolean;
+}
+
+// Sends a JSON request and returns the validated reply. An unusable reply is asked for again with the
+// problems spelled out; after the last attempt the error says what was wrong with it. Transport errors
+// (no API key, network, rate limits) are thrown at once, since asking again would not change them.
+// A cached request is answered from the cache when it can be, and its valid reply is cached.
+export const requestJSON = async <T>(provider: LLMProvider, req: StructuredRequest<T>, onText?: StreamHandler): Promise<T> => {
+  const key = req.cache ? await cacheKey(provider, req) : undefined;
+  const cached = key && await readCachedReply(key);
+  if (cached) {
+    const result = validateReply(req.schema, cached);
+    if ('value' in result) {
+      onText?.(cached);
+      recordUsage({ mode: req.mode, provider: provider.id, model: req.model, inputTokens: 0, outputTokens: 0, cached: true });
+      return result.value;
+    }
+  }
+
+  let prompt = req.prompt;
+  let problems: string[] = [];
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const request = { ...req, prompt };
+    const text = onText ? await provider.streamJSON(request, onText) : await provider.generateJSON(request);
+    const result = validateReply(req.schema, text);
+    if ('value' in result) {
+      if (key) saveCachedReply(key, text);
+      return result.value;
+    }
+    problems = result.problems;
+    console.warn(`${req.purpose}: attempt ${attempt} of ${MAX_ATTEMPTS} returned an unusable reply`, problems);
+    prompt = `${req.prompt}\n\nYour previous reply could not be used: ${problems.slice(0, 5).join("; ")}. Reply again with only the JSON, following the schema exactly.`;
+  }
+  throw new Error(`${req.purpose} failed: after ${MAX_ATTEMPTS} attempts the model's reply still did not match the expected format (${problems.slice(0, 3).join("; ")}).`);
+};
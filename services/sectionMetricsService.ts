@@ -0,0 +1,104 @@
+import { BibEntry, JournalProfile, PaperSection, SectionKind } from "../types";
+import { isReferencesSection, journalMarkers } from "./citationStyleService";
+import { computeStats, splitSentences } from "./stylometryService";
+import { flattenText } from "./suggestionService";
+
+export type SectionMetricKey = 'wordCount' | 'readability' | 'meanSentenceLength' | 'passiveRatio' | 'hedgeDensity' | 'citationDensity';
+
+export interface SectionFlag {
+  metric: SectionMetricKey;
+  severity: 'warning' | 'info';
+  message: string;
+}
+
+export interface SectionMetrics {
+  sectionId: string;
+  title: string;
+  kind: SectionKind;
+  wordCount: number;
+  // Share of the body text (abstract excluded).
+  share: number;
+  readability: number;
+  meanSentenceLength: number;
+  passiveRatio: number;
+  // Hedges and citations per 100 words.
+  hedgeDensity: number;
+  citationDensity: number;
+  flags: SectionFlag[];
+}
+
+const KIND_PATTERNS: [SectionKind, RegExp][] = [
+  ['abstract', /^(abstract|summary)$/i],
+  ['introduction', /introduction|background/i],
+  ['methods', /method|materials|experimental (setup|design)|approach|data collection|participants/i],
+  ['results', /results|findings|experiments|evaluation/i],
+  ['discussion', /discussion/i],
+  ['conclusion', /conclusion|concluding|summary/i]
+];
+
+export const classifySection = (title: string): SectionKind => KIND_PATTERNS.find(([, re]) => re.test(title.trim()))?.[0] || 'other';
+
+const BE_VERBS = "(?:am|is|are|was|were|be|been|being)";
+const IRREGULAR_PARTICIPLES = "(?:done|made|given|shown|seen|taken|known|found|written|chosen|drawn|held|kept|left|run|set|put|built|sent|spent|thought|brought|bought|taught|told|sold|understood|undertaken|withdrawn|begun|grown|driven|hidden|proven|shaken|broken|spoken|stolen|worn|torn|born|borne|fed|led|met|read|paid|laid|said|won|struck|overcome)";
+// "is/was (adverb) past-participle", optionally followed by "by"; adjectives ending in -ed are the main false positive.
+const PASSIVE = new RegExp(`\\b${BE_VERBS}\\s+(?:\\w+ly\\s+)?(?:\\w+ed|${IRREGULAR_PARTICIPLES})\\b`, 'i');
+
+const HEDGES = /\b(?:may|might|could|possibly|perhaps|likely|unlikely|probably|presumably|apparently|suggests?|suggested|appears?|appeared|seems?|seemed|potentially|somewhat|relatively|arguably|to some extent|tends? to|indicates?|generally|largely|approximately)\b/gi;
+
+const per100 = (count: number, words: number) => words ? Math.round((count / words) * 1000) / 10 : 0;
+
+export const computeSectionMetrics = (sections: PaperSection[], bibliography: BibEntry[], journal: JournalProfile): SectionMetrics[] => {
+  const body = sections.filter(s => !isReferencesSection(s));
+  const markers = journalMarkers(body, bibliography, journal);
+
+  const rows = body.map(section => {
+    const text = flattenText(section.content, 'accepted');
+    const stats = computeStats([{ ...section, content: text }]);
+    const sentences = splitSentences(text);
+    const passive = sentences.filter(s => PASSIVE.test(s.text)).length;
+    const hedges = text.match(HEDGES)?.length || 0;
+    return {
+      sectionId: section.id,
+      title: section.title,
+      kind: classifySection(section.title),
+      wordCount: stats.wordCount,
+      share: 0,
+      readability: stats.readabilityScore,
+      meanSentenceLength: stats.meanSentenceLength || 0,
+      passiveRatio: sentences.length ? Math.round((passive / sentences.length) * 100) / 100 : 0,
+      hedgeDensity: per100(hedges, stats.wordCount),
+      citationDensity: per100(markers.filter(m => m.sectionId === section.id).length, stats.wordCount),
+      flags: [] as SectionFlag[]
+    };
+  });
+
+  const bodyWords = rows.filter(r => r.kind !== 'abstract').reduce((n, r) => n + r.wordCount, 0);
+  rows.forEach(r => {
+    if (r.kind !== 'abstract' && bodyWords) r.share = Math.round((r.wordCount / bodyWords) * 1000) / 1000;
+    const flag = (metric: SectionMetricKey, severity: SectionFlag['severity'], message: string) => r.flags.push({ metric, severity, message });
+
+    const range = r.kind === 'abstract' ? undefined : journal.sectionShares[r.kind];
+    if (r.kind === 'abstract' && journal.abstractWords) {
+      const [lo, hi] = journal.abstractWords;
+      if (r.wordCount > hi) flag('wordCount', 'warning', `${r.wordCount} words; ${journal.name} abstracts are at most about ${hi}.`);
+      else if (r.wordCount < lo && r.wordCount > 0) flag('wordCount', 'info', `${r.wordCount} words; ${journal.name} abstracts usually run ${lo}–${hi}.`);
+    } else if (range && bodyWords >= 300) {
+      const [lo, hi] = range;
+      const expected = `${Math.round(lo * bodyWords)}–${Math.round(hi * bodyWords)} words`;
+      if (r.share > hi) flag('wordCount', 'warning', `${(r.share * 100).toFixed(0)}% of the body, ${(r.share / hi).toFixed(1)}× the usual upper share for ${journal.name} (expected ${expected}).`);
+      else if (r.share < lo) flag('wordCount', 'info', `Only ${(r.share * 100).toFixed(0)}% of the body; ${journal.name} papers usually give it ${expected}.`);
+    }
+    if (r.wordCount < 30) return;
+    if (r.readability < 10) flag('readability', 'warning', `Flesch reading ease ${r.readability}: very hard to read even for specialists.`);
+    if (r.meanSentenceLength > 30) flag('meanSentenceLength', 'warning', `Sentences average ${r.meanSentenceLength} words; aim for 15–25.`);
+    // Methods conventionally use the passive voice, so only heavy use elsewhere is flagged.
+    const passiveLimit = r.kind === 'methods' ? 0.8 : 0.5;
+    if (r.passiveRatio > passiveLimit) flag('passiveRatio', 'info', `${Math.round(r.passiveRatio * 100)}% of sentences are passive.`);
+    if (r.hedgeDensity > 3) flag('hedgeDensity', 'warning', `${r.hedgeDensity} hedges per 100 words weaken the claims.`);
+    if ((r.kind === 'introduction' || r.kind === 'discussion') && r.citationDensity < 0.3 && bibliography.length > 0) {
+      flag('citationDensity', 'warning', `${r.citationDensity} citations per 100 words; ${r.kind === 'introduction' ? 'an introduction' : 'a discussion'} usually situates the work in prior literature.`);
+    }
+    if (r.kind === 'results' && r.citationDensity > 2) flag('citationDensity', 'info', `${r.citationDensity} citations per 100 words; comparisons with prior work usually belong in the Discussion.`);
+  });
+  return rows;
+};
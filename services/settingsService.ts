@@ -0,0 +1,42 @@
+import { LLMSettings, LLMTask } from "../types";
+
+const STORAGE_KEY = "scholarpolish.llmSettings";
+
+export const MODEL_COMPLEX = "gemini-3-pro-preview";
+export const MODEL_FAST = "gemini-3-flash-preview";
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  tasks: {
+    review: { provider: 'gemini', model: MODEL_COMPLEX },
+    deAI: { provider: 'gemini', model: MODEL_FAST },
+    microEdit: { provider: 'gemini', model: MODEL_FAST },
+    agent: { provider: 'gemini', model: MODEL_COMPLEX }
+  },
+  gemini: { apiKey: '' },
+  openai: { baseUrl: 'http://localhost:11434/v1', apiKey: '' }
+};
+
+let cached: LLMSettings | null = null;
+
+const merge = (stored: Partial<LLMSettings>): LLMSettings => ({
+  tasks: { ...DEFAULT_LLM_SETTINGS.tasks, ...(stored.tasks || {}) } as Record<LLMTask, LLMSettings['tasks'][LLMTask]>,
+  gemini: { ...DEFAULT_LLM_SETTINGS.gemini, ...(stored.gemini || {}) },
+  openai: { ...DEFAULT_LLM_SETTINGS.openai, ...(stored.openai || {}) }
+});
+
+export const getLLMSettings = (): LLMSettings => {
+  if (cached) return cached;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    cached = raw ? merge(JSON.parse(raw)) : DEFAULT_LLM_SETTINGS;
+  } catch (e) {
+    console.error("Failed to read LLM settings", e);
+    cached = DEFAULT_LLM_SETTINGS;
+  }
+  return cached;
+};
+
+export const saveLLMSettings = (settings: LLMSettings) => {
+  cached = settings;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
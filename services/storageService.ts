@@ -0,0 +1,150 @@
+import { CachedResponse, Manuscript, Snapshot, UsageRecord } from "../types";
+
+const DB_NAME = "scholarpolish";
+const DB_VERSION = 3;
+const MANUSCRIPTS = "manuscripts";
+const SNAPSHOTS = "snapshots";
+const USAGE = "usage";
+const RESPONSES = "responses";
+const MAX_AUTO_SNAPSHOTS = 50;
+// Least recently used replies beyond this are dropped; a long paper's review is a few dozen.
+const MAX_CACHED_RESPONSES = 500;
+const ACTIVE_KEY = "scholarpolish.activeManuscript";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = (event) => {
+      const db = req.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(MANUSCRIPTS, { keyPath: "id" });
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(SNAPSHOTS, { keyPath: "id" }).createIndex("manuscriptId", "manuscriptId");
+      }
+      if (event.oldVersion < 3) {
+        db.createObjectStore(USAGE, { keyPath: "id" });
+        db.createObjectStore(RESPONSES, { keyPath: "key" }).createIndex("usedAt", "usedAt");
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+};
+
+const promisify = <T>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const store = async (name: string, mode: IDBTransactionMode) => {
+  const db = await openDB();
+  return db.transaction(name, mode).objectStore(name);
+};
+
+export const createId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const listManuscripts = async (): Promise<Manuscript[]> => {
+  const all = await promisify((await store(MANUSCRIPTS, "readonly")).getAll() as IDBRequest<Manuscript[]>);
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getManuscript = async (id: string): Promise<Manuscript | undefined> =>
+  promisify((await store(MANUSCRIPTS, "readonly")).get(id) as IDBRequest<Manuscript | undefined>);
+
+export const saveManuscript = async (manuscript: Manuscript): Promise<void> => {
+  // A result that was mid-flight when autosave fired is not worth restoring.
+  const analysisResult = manuscript.analysisResult?.loading ? null : manuscript.analysisResult;
+  await promisify((await store(MANUSCRIPTS, "readwrite")).put({ ...manuscript, analysisResult }));
+};
+
+export const deleteManuscript = async (id: string): Promise<void> => {
+  await promisify((await store(MANUSCRIPTS, "readwrite")).delete(id));
+  const snapshots = await listSnapshots(id);
+  const snapshotStore = await store(SNAPSHOTS, "readwrite");
+  await Promise.all(snapshots.map(s => promisify(snapshotStore.delete(s.id))));
+  if (getActiveManuscriptId() === id) localStorage.removeItem(ACTIVE_KEY);
+};
+
+export const newManuscript = (init: Pick<Manuscript, 'title' | 'sections' | 'journal'>): Manuscript => {
+  const now = Date.now();
+  return { id: createId("ms"), bibliography: [], agentThreads: [], analysisResult: null, createdAt: now, updatedAt: now, ...init };
+};
+
+export const duplicateManuscript = async (id: string): Promise<Manuscript | undefined> => {
+  const source = await getManuscript(id);
+  if (!source) return undefined;
+  const now = Date.now();
+  const copy: Manuscript = { ...source, id: createId("ms"), title: `${source.title} (copy)`, createdAt: now, updatedAt: now };
+  await saveManuscript(copy);
+  return copy;
+};
+
+export const getActiveManuscriptId = () => localStorage.getItem(ACTIVE_KEY);
+
+export const setActiveManuscriptId = (id: string) => localStorage.setItem(ACTIVE_KEY, id);
+
+export const listSnapshots = async (manuscriptId: string): Promise<Snapshot[]> => {
+  const index = (await store(SNAPSHOTS, "readonly")).index("manuscriptId");
+  const all = await promisify(index.getAll(manuscriptId) as IDBRequest<Snapshot[]>);
+  return all.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveSnapshot = async (snapshot: Omit<Snapshot, 'id' | 'createdAt'>): Promise<Snapshot | null> => {
+  const existing = await listSnapshots(snapshot.manuscriptId);
+  // Consecutive AI actions on an unchanged document would otherwise stack identical snapshots.
+  if (snapshot.kind === 'auto' && existing[0] && JSON.stringify(existing[0].sections) === JSON.stringify(snapshot.sections)) return null;
+  const saved: Snapshot = { ...snapshot, id: createId("snap"), createdAt: Date.now() };
+  const stale = existing.filter(s => s.kind === 'auto').slice(MAX_AUTO_SNAPSHOTS - 1);
+  const snapshotStore = await store(SNAPSHOTS, "readwrite");
+  await Promise.all([snapshotStore.put(saved), ...stale.map(s => snapshotStore.delete(s.id))].map(promisify));
+  return saved;
+};
+
+export const deleteSnapshot = async (id: string): Promise<void> => {
+  await promisify((await store(SNAPSHOTS, "readwrite")).delete(id));
+};
+
+export const listUsage = async (): Promise<UsageRecord[]> => {
+  const all = await promisify((await store(USAGE, "readonly")).getAll() as IDBRequest<UsageRecord[]>);
+  return all.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const addUsageRecord = async (record: UsageRecord): Promise<void> => {
+  await promisify((await store(USAGE, "readwrite")).put(record));
+};
+
+export const clearUsage = async (): Promise<void> => {
+  await promisify((await store(USAGE, "readwrite")).clear());
+};
+
+// Reading a reply counts as using it, so the replies kept are the ones still being asked for.
+export const getCachedResponse = async (key: string): Promise<CachedResponse | undefined> => {
+  const responseStore = await store(RESPONSES, "readwrite");
+  const entry = await promisify(responseStore.get(key) as IDBRequest<CachedResponse | undefined>);
+  if (entry) await promisify(responseStore.put({ ...entry, usedAt: Date.now() }));
+  return entry;
+};
+
+export const saveCachedResponse = async (entry: CachedResponse): Promise<void> => {
+  const responseStore = await store(RESPONSES, "readwrite");
+  await promisify(responseStore.put(entry));
+  const excess = (await promisify(responseStore.count())) - MAX_CACHED_RESPONSES;
+  if (excess <= 0) return;
+  const oldest = await promisify(responseStore.index("usedAt").getAllKeys(null, excess));
+  await Promise.all(oldest.map(key => promisify(responseStore.delete(key))));
+};
+
+export const countCachedResponses = async (): Promise<number> =>
+  promisify((await store(RESPONSES, "readonly")).count());
+
+export const clearCachedResponses = async (): Promise<void> => {
+  await promisify((await store(RESPONSES, "readwrite")).clear());
+};
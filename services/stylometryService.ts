@@ -0,0 +1,261 @@
+import { AnalysisIssue, PaperSection, PaperStats } from "../types";
+import { isReferencesSection } from "./citationStyleService";
+import { findSuggestionsInText, flattenText } from "./suggestionService";
+
+// Stock phrasing over-represented in LLM output. An empty replacement means the phrase is filler and can go.
+const LLM_PHRASES: { pattern: RegExp, replacement?: string }[] = [
+  { pattern: /\ba (?:rich )?tapestry of\b/gi, replacement: 'a mix of' },
+  { pattern: /\btapestry\b/gi },
+  { pattern: /\bit is paramount to underscore (?:that )?/gi, replacement: '' },
+  { pattern: /\bit is (?:important|worth|crucial) to (?:note|mention|highlight) that /gi, replacement: '' },
+  { pattern: /\bit should be noted that /gi, replacement: '' },
+  { pattern: /\bdelves? into\b/gi, replacement: 'examines' },
+  { pattern: /\bdelving into\b/gi, replacement: 'examining' },
+  { pattern: /\bushered in a new era of\b/gi, replacement: 'changed' },
+  { pattern: /\bin the (?:ever-evolving|rapidly evolving|dynamic) landscape of\b/gi, replacement: 'in' },
+  { pattern: /\bnavigat(?:e|ing) the complexities of\b/gi },
+  { pattern: /\bplays? a (?:pivotal|crucial|vital) role in\b/gi },
+  { pattern: /\ba testament to\b/gi, replacement: 'evidence of' },
+  { pattern: /\bserves as a testament to\b/gi, replacement: 'shows' },
+  { pattern: /\bintricate interplay\b/gi, replacement: 'interaction' },
+  { pattern: /\bmultifaceted\b/gi, replacement: 'complex' },
+  { pattern: /\bin today's (?:fast-paced|digital) world,? /gi, replacement: '' },
+  { pattern: /\bshed(?:s|ding)? light on\b/gi, replacement: 'clarifies' },
+  { pattern: /\bunderscores? the (?:importance|significance) of\b/gi, replacement: 'shows the importance of' },
+  { pattern: /\bharness(?:es|ing)? the power of\b/gi, replacement: 'use' },
+  { pattern: /\ba myriad of\b/gi, replacement: 'many' },
+  { pattern: /\bseamless(?:ly)?\b/gi },
+  { pattern: /\bgroundbreaking\b/gi },
+  { pattern: /\bin conclusion, it is clear that /gi, replacement: 'In conclusion, ' }
+];
+
+// Sentence-initial connectives that LLM prose leans on far more than human authors do.
+const CONNECTIVES = /^(?:Furthermore|Moreover|Additionally|Consequently|Notably|Importantly|Overall),/;
+
+const MAX_PHRASE_ISSUES = 40;
+const LONG_SENTENCE_WORDS = 40;
+
+// A shorter pattern ("tapestry") inside a longer match ("a tapestry of") is the same finding.
+const findPhrases = (text: string) => {
+  const found: { start: number, end: number, match: string, replacement?: string }[] = [];
+  LLM_PHRASES.forEach(({ pattern, replacement }) => {
+    for (const m of text.matchAll(pattern)) {
+      const start = m.index!;
+      const end = start + m[0].length;
+      if (!found.some(f => start < f.end && end > f.start)) found.push({ start, end, match: m[0], replacement });
+    }
+  });
+  return found.sort((a, b) => a.start - b.start);
+};
+
+interface Sentence { text: string, start: number, words: number }
+
+const ABBREVIATIONS = /\b(?:e\.g|i\.e|et al|etc|vs|cf|Fig|Figs|Eq|Eqs|Ref|Sec|No|approx|resp)\.$/i;
+
+// Prose only: tables, headings, footnote definitions and display maths would skew sentence statistics.
+const proseBlocks = (content: string) => {
+  const blocks: { text: string, start: number }[] = [];
+  const re = /[^\n]+(?:\n(?!\s*\n)[^\n]+)*/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(content))) {
+    const text = m[0];
+    if (/^\s*(?:\||#|\[\^\w+\]:|\\begin|\$\$|\\\[)/.test(text)) continue;
+    blocks.push({ text, start: m.index });
+  }
+  return blocks;
+};
+
+const countWords = (text: string) => text.match(/[A-Za-z0-9À-ɏ]+(?:['’-][A-Za-z0-9À-ɏ]+)*/g)?.length || 0;
+
+export const splitSentences = (content: string): Sentence[] => {
+  const sentences: Sentence[] = [];
+  proseBlocks(content).forEach(block => {
+    // List items are sentences of their own even without a full stop.
+    const boundary = /[.!?]["')\]]*(?=\s+["'(\[]?[A-Z0-9])|\n(?=\s*(?:[-*]|\d+\.)\s)/g;
+    let start = 0;
+    const push = (end: number) => {
+      const raw = block.text.substring(start, end);
+      const text = raw.trim().replace(/^(?:[-*]|\d+\.)\s+/, '');
+      const words = countWords(text);
+      if (words > 0) sentences.push({ text, start: block.start + start + raw.indexOf(raw.trim()), words });
+      start = end;
+    };
+    let m: RegExpExecArray | null;
+    while ((m = boundary.exec(block.text))) {
+      const end = m.index + m[0].length;
+      if (ABBREVIATIONS.test(block.text.substring(Math.max(0, start), end))) continue;
+      push(end);
+    }
+    push(block.text.length);
+  });
+  return sentences;
+};
+
+// Vowel-group heuristic; accurate enough for readability formulas, which were fitted the same way.
+export const countSyllables = (word: string) => {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (w.length <= 3) return w ? 1 : 0;
+  const trimmed = w.replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, m => m[0]).replace(/^y/, '');
+  return Math.max(1, trimmed.match(/[aeiouy]{1,2}/g)?.length || 0);
+};
+
+// Gunning's "complex" words: three or more syllables, not counting the -es/-ed/-ing inflection, and not capitalised names.
+const isComplexWord = (word: string, sentenceInitial: boolean) => {
+  if (!sentenceInitial && /^[A-Z]/.test(word)) return false;
+  if (word.includes('-')) return false;
+  return countSyllables(word.replace(/(?:es|ed|ing)$/i, '')) >= 3;
+};
+
+const mean = (xs: number[]) => xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0;
+const stdDev = (xs: number[]) => {
+  const m = mean(xs);
+  return Math.sqrt(mean(xs.map(x => (x - m) ** 2)));
+};
+const clamp = (x: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, x));
+const round1 = (x: number) => Math.round(x * 10) / 10;
+
+const textSections = (sections: PaperSection[]) => sections.filter(s => !isReferencesSection(s));
+
+// Deterministic statistics over the accepted text. The same manuscript always yields the same numbers.
+export const computeStats = (sections: PaperSection[]): PaperStats => {
+  const contents = textSections(sections).map(s => flattenText(s.content, 'accepted'));
+  const sentences = contents.flatMap(splitSentences);
+  const lengths = sentences.map(s => s.words);
+  const words = sentences.flatMap(s => s.text.match(/[A-Za-zÀ-ɏ]+(?:['’-][A-Za-zÀ-ɏ]+)*/g) || []);
+  const wordCount = contents.reduce((n, c) => n + countWords(c), 0);
+  const syllables = words.reduce((n, w) => n + countSyllables(w), 0);
+  const complex = sentences.reduce((n, s) => n + (s.text.match(/[A-Za-zÀ-ɏ]+(?:['’-][A-Za-zÀ-ɏ]+)*/g) || []).filter((w, i) => isComplexWord(w, i === 0)).length, 0);
+
+  const perSentence = sentences.length ? words.length / sentences.length : 0;
+  const flesch = words.length ? 206.835 - 1.015 * perSentence - 84.6 * (syllables / words.length) : 0;
+  const fog = words.length ? 0.4 * (perSentence + 100 * (complex / words.length)) : 0;
+
+  const m = mean(lengths);
+  const sd = stdDev(lengths);
+  // Goh–Barabási burstiness of sentence lengths: -1 is perfectly regular, 0 is random, above 0 is bursty.
+  const burstiness = m + sd > 0 ? (sd - m) / (sd + m) : 0;
+  const cv = m > 0 ? sd / m : 0;
+
+  const joined = contents.join('\n\n');
+  const phraseHits = findPhrases(joined).length;
+  const connectives = sentences.filter(s => CONNECTIVES.test(s.text)).length;
+
+  // Heuristic blend of the two signals stylometry literature agrees on: machine prose is rhythmically
+  // uniform (low sentence-length variation) and leans on stock phrases. Too little text scores 0.
+  const uniformity = sentences.length >= 5 ? clamp((0.6 - cv) / 0.4, 0, 1) : 0;
+  const phraseRate = wordCount ? ((phraseHits + connectives * 0.5) / wordCount) * 1000 : 0;
+  const phraseScore = clamp(phraseRate / 5, 0, 1);
+  const aiProbabilityScore = wordCount < 50 ? 0 : Math.round(100 * (0.5 * uniformity + 0.5 * phraseScore));
+
+  return {
+    wordCount,
+    aiProbabilityScore,
+    readabilityScore: Math.round(clamp(flesch, 0, 100)),
+    gunningFog: round1(fog),
+    sentenceCount: sentences.length,
+    meanSentenceLength: round1(m),
+    sentenceLengthVariance: round1(sd ** 2),
+    burstiness: Math.round(burstiness * 100) / 100,
+    llmPhraseCount: phraseHits
+  };
+};
+
+// Tracked suggestions hold the old wording, the new one and an attribution comment that quotes the finding.
+// None of it is the current prose, and a fix anchored inside the markup would corrupt it, so findings skip it.
+const outsideSuggestions = (content: string) => {
+  const ranges = findSuggestionsInText(content);
+  return (start: number, end: number) => !ranges.some(r => start < r.end && end > r.start);
+};
+
+const phraseIssues = (sections: PaperSection[]): AnalysisIssue[] =>
+  textSections(sections).flatMap(section => {
+    const outside = outsideSuggestions(section.content);
+    return findPhrases(section.content).filter(p => outside(p.start, p.end)).map(({ start, end, match, replacement }): AnalysisIssue => {
+      let fix = replacement;
+      if (fix === '') {
+        // Deleting a sentence-initial filler re-capitalises the word that now opens the sentence.
+        const next = section.content[end];
+        if (next && /^[A-Z]/.test(match) && /[a-z]/.test(next)) { end += 1; fix = next.toUpperCase(); }
+      } else if (fix && /^[A-Z]/.test(match)) fix = fix[0].toUpperCase() + fix.slice(1);
+      const phrase = match.trim().replace(/,$/, '');
+      return {
+        id: `style-phrase-${section.id}-${start}`,
+        type: 'warning',
+        title: `LLM phrase: "${phrase}"`,
+        description: "Stock phrasing that is far more frequent in machine-generated prose than in published papers.",
+        suggestion: fix === undefined ? "Rephrase in plain, specific language." : replacement === '' ? "Delete the filler phrase." : `Replace with "${fix.trim()}".`,
+        snippet: section.content.substring(start, end),
+        replacement: fix,
+        location: section.title,
+        anchor: { sectionId: section.id, start, end }
+      };
+    });
+  }).slice(0, MAX_PHRASE_ISSUES);
+
+const rhythmIssues = (sections: PaperSection[]): AnalysisIssue[] => {
+  const issues: AnalysisIssue[] = [];
+  textSections(sections).forEach(section => {
+    // Rhythm is measured on the text as it reads with suggestions accepted; anchors come from the raw text.
+    const lengths = splitSentences(flattenText(section.content, 'accepted')).map(s => s.words);
+    const outside = outsideSuggestions(section.content);
+    const sentences = splitSentences(section.content).filter(s => outside(s.start, s.start + s.text.length));
+    const cv = mean(lengths) > 0 ? stdDev(lengths) / mean(lengths) : 0;
+    if (lengths.length >= 6 && cv < 0.25) {
+      issues.push({
+        id: `style-uniform-${section.id}`,
+        type: 'warning',
+        title: "Uniform sentence rhythm",
+        description: `Sentences in this section average ${round1(mean(lengths))} words with little variation (coefficient of variation ${cv.toFixed(2)}). Human academic prose usually mixes short and long sentences.`,
+        suggestion: "Break up a long sentence or merge two short ones so the rhythm varies.",
+        location: section.title
+      });
+    }
+    const openers = sentences.filter(s => CONNECTIVES.test(s.text));
+    if (openers.length >= 3) {
+      issues.push({
+        id: `style-connectives-${section.id}`,
+        type: 'info',
+        title: "Repeated sentence-initial connectives",
+        description: `${openers.length} sentences open with words like "${openers[0].text.split(',')[0]}". Frequent stacked connectives are a common marker of generated text.`,
+        suggestion: "Drop connectives where the logical link is already clear.",
+        snippet: openers[0].text.split(',')[0],
+        location: section.title,
+        anchor: { sectionId: section.id, start: openers[0].start, end: openers[0].start + openers[0].text.split(',')[0].length }
+      });
+    }
+    sentences.filter(s => s.words > LONG_SENTENCE_WORDS).forEach(s => {
+      issues.push({
+        id: `style-long-${section.id}-${s.start}`,
+        type: 'info',
+        title: `Long sentence (${s.words} words)`,
+        description: "Very long sentences lower readability scores and are hard to review.",
+        suggestion: "Split it into two sentences.",
+        snippet: s.text,
+        location: section.title,
+        anchor: { sectionId: section.id, start: s.start, end: s.start + s.text.length }
+      });
+    });
+  });
+  return issues;
+};
+
+export const analyzeStylometry = (sections: PaperSection[]) => {
+  const stats = computeStats(sections);
+  const issues = [...phraseIssues(sections), ...rhythmIssues(sections)];
+  const feedback = `Local analysis: ${stats.wordCount} words in ${stats.sentenceCount} sentences; Flesch reading ease ${stats.readabilityScore}, Gunning Fog ${stats.gunningFog}; sentence length ${stats.meanSentenceLength} ± ${round1(Math.sqrt(stats.sentenceLengthVariance || 0))} words (burstiness ${stats.burstiness}); ${stats.llmPhraseCount} stock LLM ${stats.llmPhraseCount === 1 ? 'phrase' : 'phrases'}.`;
+  return { stats, issues, generalFeedback: feedback };
+};
+
+const overlaps = (a: AnalysisIssue, b: AnalysisIssue) => {
+  const x = a.snippet?.trim().toLowerCase();
+  const y = b.snippet?.trim().toLowerCase();
+  return !!x && !!y && (x.includes(y) || y.includes(x));
+};
+
+// Local statistics always win; LLM issues are kept unless a local finding already covers the same text.
+// A failed or offline LLM call leaves the local result standing on its own.
+export const mergeStylometry = (local: ReturnType<typeof analyzeStylometry>, llm: { issues?: AnalysisIssue[], generalFeedback?: string } | null) => {
+  const extra = (llm?.issues || []).filter(i => !local.issues.some(l => overlaps(l, i))).map((i, n) => ({ ...i, id: i.id || `llm-${n}` }));
+  const feedback = llm ? [local.generalFeedback, llm.generalFeedback].filter(Boolean).join('\n\n') : `${local.generalFeedback}\n\nThe AI reviewer could not be reached, so only local findings are shown.`;
+  return { stats: local.stats, issues: [...local.issues, ...extra], generalFeedback: feedback };
+};
@@ -0,0 +1,69 @@
+import { PaperSection, Suggestion, SuggestionView } from "../types";
+
+// CriticMarkup substitution, insertion or deletion, optionally followed by a {>>source<<} comment.
+const SUGGESTION = /(?:\{~~([\s\S]*?)~>([\s\S]*?)~~\}|\{\+\+([\s\S]*?)\+\+\}|\{--([\s\S]*?)--\})(?:\{>>([\s\S]*?)<<\})?/g;
+
+type Groups = (string | undefined)[];
+
+const readGroups = ([oldText, newText, inserted, deleted, source]: Groups) => ({
+  kind: inserted !== undefined ? 'insert' as const : deleted !== undefined ? 'delete' as const : 'replace' as const,
+  original: oldText ?? deleted ?? '',
+  replacement: newText ?? inserted ?? '',
+  source: source?.trim() || 'Unknown'
+});
+
+const toSuggestion = (whole: string, groups: Groups, start: number, sectionId: string): Suggestion =>
+  ({ id: `${sectionId}:${start}`, sectionId, start, end: start + whole.length, ...readGroups(groups) });
+
+export const findSuggestionsInText = (text: string, sectionId = ''): Suggestion[] =>
+  Array.from(text.matchAll(SUGGESTION), m => toSuggestion(m[0], m.slice(1), m.index!, sectionId));
+
+export const findSuggestions = (sections: PaperSection[]): Suggestion[] =>
+  sections.flatMap(s => findSuggestionsInText(s.content, s.id));
+
+export const flattenText = (text: string, view: SuggestionView) => view === 'include' ? text : text.replace(SUGGESTION, (_, ...groups: Groups) => {
+  const s = readGroups(groups);
+  return view === 'accepted' ? s.replacement : s.original;
+});
+
+export const flattenSections = (sections: PaperSection[], view: SuggestionView): PaperSection[] =>
+  view === 'include' ? sections : sections.map(s => {
+    const content = flattenText(s.content, view);
+    return content === s.content ? s : { ...s, content };
+  });
+
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+
+// Wraps an AI rewrite as a suggestion. Only the changed words are marked, so a one-word fix
+// doesn't show the whole sentence as deleted and retyped. Suggestions already inside the
+// rewritten text are folded into the new one: rejecting it restores the text from before either.
+export const markSuggestion = (original: string, replacement: string, source: string) => {
+  const a = tokenize(flattenText(original, 'original'));
+  const b = tokenize(flattenText(replacement, 'accepted'));
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+  const removed = a.slice(prefix, a.length - suffix).join('');
+  const added = b.slice(prefix, b.length - suffix).join('');
+  if (!removed && !added) return original;
+  const mark = !removed ? `{++${added}++}` : !added ? `{--${removed}--}` : `{~~${removed}~>${added}~~}`;
+  return `${a.slice(0, prefix).join('')}${mark}{>>${source.replace(/<<|>>/g, '')}<<}${a.slice(a.length - suffix).join('')}`;
+};
+
+// Accepts or rejects the given suggestions (all of them when ids is omitted).
+export const resolveSuggestions = (sections: PaperSection[], action: 'accept' | 'reject', ids?: string[]): PaperSection[] => {
+  const wanted = ids && new Set(ids);
+  let changed = false;
+  const next = sections.map(section => {
+    const content = section.content.replace(SUGGESTION, (whole: string, oldText: string | undefined, newText: string | undefined,
+      inserted: string | undefined, deleted: string | undefined, source: string | undefined, offset: number) => {
+      const s = toSuggestion(whole, [oldText, newText, inserted, deleted, source], offset, section.id);
+      if (wanted && !wanted.has(s.id)) return whole;
+      changed = true;
+      return action === 'accept' ? s.replacement : s.original;
+    });
+    return content === section.content ? section : { ...section, content };
+  });
+  return changed ? next : sections;
+};
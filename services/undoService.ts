@@ -0,0 +1,31 @@
+import { UndoEntry, UndoState } from "../types";
+
+const MAX_ENTRIES = 200;
+// Keystrokes in the same section within this window collapse into one entry.
+const TYPING_COALESCE_MS = 2000;
+
+export const EMPTY_UNDO: UndoState = { past: [], future: [] };
+
+export const recordChange = (state: UndoState, entry: UndoEntry): UndoState => {
+  const last = state.past[state.past.length - 1];
+  if (
+    last && entry.source === 'typing' && last.source === 'typing' &&
+    last.sectionId === entry.sectionId && entry.timestamp - last.timestamp < TYPING_COALESCE_MS
+  ) {
+    const merged = { ...last, after: entry.after, timestamp: entry.timestamp };
+    return { past: [...state.past.slice(0, -1), merged], future: [] };
+  }
+  return { past: [...state.past, entry].slice(-MAX_ENTRIES), future: [] };
+};
+
+export const undo = (state: UndoState): { state: UndoState, entry: UndoEntry } | null => {
+  const entry = state.past[state.past.length - 1];
+  if (!entry) return null;
+  return { state: { past: state.past.slice(0, -1), future: [entry, ...state.future] }, entry };
+};
+
+export const redo = (state: UndoState): { state: UndoState, entry: UndoEntry } | null => {
+  const entry = state.future[0];
+  if (!entry) return null;
+  return { state: { past: [...state.past, entry], future: state.future.slice(1) }, entry };
+};
@@ -0,0 +1,154 @@
+import { LLMProviderId, UsageBudget, UsageRecord } from "../types";
+import { addUsageRecord, clearUsage, createId, listUsage } from "./storageService";
+
+const BUDGET_KEY = "scholarpolish.usageBudget";
+
+const DEFAULT_BUDGET: UsageBudget = { onExceed: 'warn' };
+
+// US dollars per million input and output tokens, from the providers' published prices. A model matches the
+// longest prefix listed; anything else (local models, unlisted ones) is counted as free, but its tokens still show.
+const MODEL_PRICES: [prefix: string, input: number, output: number][] = [
+  ["gemini-3-pro", 2, 12],
+  ["gemini-3-flash", 0.5, 3],
+  ["gemini-2.5-pro", 1.25, 10],
+  ["gemini-2.5-flash-lite", 0.1, 0.4],
+  ["gemini-2.5-flash", 0.3, 2.5],
+  ["gpt-4o-mini", 0.15, 0.6],
+  ["gpt-4o", 2.5, 10],
+  ["gpt-4.1-mini", 0.4, 1.6],
+  ["gpt-4.1", 2, 8]
+];
+
+export interface UsageTotals {
+  calls: number;
+  cachedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+// The rough rule of thumb for English prose, used when a provider reports no counts.
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const costOf = (provider: LLMProviderId, model: string, inputTokens: number, outputTokens: number) => {
+  if (provider === 'mock') return 0;
+  const price = MODEL_PRICES
+    .filter(([prefix]) => model.startsWith(prefix))
+    .sort((a, b) => b[0].length - a[0].length)[0];
+  return price ? (inputTokens * price[1] + outputTokens * price[2]) / 1_000_000 : 0;
+};
+
+export const formatCost = (dollars: number) => dollars > 0 && dollars < 0.01 ? "<$0.01" : `$${dollars.toFixed(2)}`;
+
+// Local calendar day, so "today" matches the user's clock rather than UTC.
+export const dayKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+};
+
+// The manuscript calls are charged to. Set by the editor whenever it opens one.
+let activeManuscriptId: string | undefined;
+
+let records: Promise<UsageRecord[]> | null = null;
+
+// Loaded once and then kept current in memory, since every call checks the budget against it.
+export const loadUsage = () => records ??= listUsage().catch(e => {
+  console.error("Failed to load usage history", e);
+  return [];
+});
+
+type BudgetListener = (exceeded: string | null) => void;
+const listeners = new Set<BudgetListener>();
+
+export const getUsageBudget = (): UsageBudget => {
+  try {
+    const raw = localStorage.getItem(BUDGET_KEY);
+    return raw ? { ...DEFAULT_BUDGET, ...JSON.parse(raw) } : DEFAULT_BUDGET;
+  } catch {
+    return DEFAULT_BUDGET;
+  }
+};
+
+export const totalUsage = (list: UsageRecord[]): UsageTotals => list.reduce((t, r) => ({
+  calls: t.calls + 1,
+  cachedCalls: t.cachedCalls + (r.cached ? 1 : 0),
+  inputTokens: t.inputTokens + r.inputTokens,
+  outputTokens: t.outputTokens + r.outputTokens,
+  cost: t.cost + r.cost
+}), { calls: 0, cachedCalls: 0, inputTokens: 0, outputTokens: 0, cost: 0 });
+
+// Totals per group, the most expensive first (then the most tokens, for free models).
+export const groupUsage = (list: UsageRecord[], keyOf: (r: UsageRecord) => string): [string, UsageTotals][] => {
+  const groups = new Map<string, UsageRecord[]>();
+  list.forEach(r => groups.set(keyOf(r), [...(groups.get(keyOf(r)) || []), r]));
+  return Array.from(groups, ([key, group]): [string, UsageTotals] => [key, totalUsage(group)])
+    .sort((a, b) => b[1].cost - a[1].cost || (b[1].inputTokens + b[1].outputTokens) - (a[1].inputTokens + a[1].outputTokens));
+};
+
+// The limit already reached, worded for the user, or null while spending is within the budget.
+const exceededLimit = (list: UsageRecord[], budget: UsageBudget): string | null => {
+  const today = dayKey(Date.now());
+  const spentToday = totalUsage(list.filter(r => dayKey(r.timestamp) === today)).cost;
+  if (budget.daily !== undefined && spentToday >= budget.daily) {
+    return `AI spending today (${formatCost(spentToday)}) has reached the daily budget of ${formatCost(budget.daily)}.`;
+  }
+  if (budget.perManuscript !== undefined && activeManuscriptId) {
+    const spent = totalUsage(list.filter(r => r.manuscriptId === activeManuscriptId)).cost;
+    if (spent >= budget.perManuscript) {
+      return `AI spending on this manuscript (${formatCost(spent)}) has reached its budget of ${formatCost(budget.perManuscript)}.`;
+    }
+  }
+  return null;
+};
+
+const notify = async () => {
+  const exceeded = exceededLimit(await loadUsage(), getUsageBudget());
+  listeners.forEach(listener => listener(exceeded));
+};
+
+// Called with the limit reached, or null, now and whenever spending, the budget or the manuscript changes.
+// Returns the unsubscribe function.
+export const subscribeBudget = (listener: BudgetListener) => {
+  listeners.add(listener);
+  notify();
+  return () => { listeners.delete(listener); };
+};
+
+export const saveUsageBudget = (budget: UsageBudget) => {
+  localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+  notify();
+};
+
+export const setUsageManuscript = (id: string | undefined) => {
+  activeManuscriptId = id;
+  notify();
+};
+
+// Run before every model call. Over budget, a warning budget lets the call through (the header shows it);
+// a blocking one stops it. The check is before the call, so the call that crosses a limit still completes.
+export const enforceBudget = async () => {
+  const budget = getUsageBudget();
+  const exceeded = exceededLimit(await loadUsage(), budget);
+  if (exceeded && budget.onExceed === 'block') {
+    throw new Error(`${exceeded} Raise the limit under AI Usage to keep using the AI features.`);
+  }
+};
+
+export const recordUsage = async (call: Omit<UsageRecord, 'id' | 'timestamp' | 'manuscriptId' | 'cost'>) => {
+  const record: UsageRecord = {
+    ...call,
+    id: createId("usage"),
+    timestamp: Date.now(),
+    manuscriptId: activeManuscriptId,
+    cost: costOf(call.provider, call.model, call.inputTokens, call.outputTokens)
+  };
+  (await loadUsage()).push(record);
+  addUsageRecord(record).catch(e => console.error("Failed to save usage record", e));
+  notify();
+};
+
+export const clearUsageHistory = async () => {
+  await clearUsage();
+  records = Promise.resolve([]);
+  notify();
+};
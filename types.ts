@@ -6,9 +6,11 @@ export enum EditorMode {
   FORMAT = 'FORMAT',
   REORGANIZE = 'REORGANIZE',
   AGENT = 'AGENT',
-  DISCOVERY = 'DISCOVERY'
+  DISCOVERY = 'DISCOVERY',
+  CITATIONS = 'CITATIONS'
 }
 
+// Ids and names of the built-in journal profiles. Manuscripts saved before profiles existed store one of these.
 export enum JournalStyle {
   GENERAL = 'General Academic',
   NATURE = 'Nature/Science',
@@ -18,10 +20,76 @@ export enum JournalStyle {
   MEDICAL = 'JAMA/NEJM'
 }
 
+// Reference formats the citation engine can render.
+export type ReferenceStyle = 'apa' | 'mla' | 'ieee' | 'nature' | 'ama';
+
+export type SectionKind = 'abstract' | 'introduction' | 'methods' | 'results' | 'discussion' | 'conclusion' | 'other';
+
+// A venue's submission rules. Built-in profiles ship with the app; custom ones are edited, imported and
+// exported as JSON. A manuscript keeps a copy of its profile, so it travels with its rules.
+export interface JournalProfile {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  referenceStyle: ReferenceStyle;
+  // Words in the body text, abstract and references excluded.
+  wordLimit?: number;
+  abstractWords?: [number, number];
+  // Headings a structured abstract runs through, in order; empty for a single paragraph.
+  abstractStructure: string[];
+  // Section titles the venue expects, in the order it expects them.
+  requiredSections: string[];
+  // Expected share of the body text per section type.
+  sectionShares: Partial<Record<SectionKind, [number, number]>>;
+  maxFigures?: number;
+  maxTables?: number;
+  keywords?: [number, number];
+  maxReferences?: number;
+  template: ExportTemplate;
+}
+
 export interface PaperSection {
   id: string;
   title: string;
   content: string;
+  // Heading depth: 2 for a subsection of the section before it, 3 below that. Missing means 1.
+  level?: number;
+  // Set on sections whose content is rendered from structured data rather than typed.
+  generated?: 'references';
+}
+
+export type BibEntryType = 'article' | 'book' | 'inproceedings' | 'misc';
+
+export interface BibEntry {
+  id: string;
+  type: BibEntryType;
+  // Each author as "Last, First" (or an organisation name).
+  authors: string[];
+  title: string;
+  venue: string;
+  year: string;
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  doi?: string;
+  url?: string;
+  // BibTeX citation key, kept so LaTeX round trips cite the same keys.
+  key?: string;
+}
+
+// Result of parsing an uploaded manuscript file.
+export interface ImportedDocument {
+  title?: string;
+  sections: PaperSection[];
+  // Present when the source links citations to entries itself (e.g. BibTeX keys).
+  bibliography?: BibEntry[];
+}
+
+export interface DocumentState {
+  sections: PaperSection[];
+  bibliography: BibEntry[];
+  // Part of the document because in-text markers and the reference list are rendered in it.
+  journal: JournalProfile;
 }
 
 export interface CitationPlacement {
@@ -41,6 +109,15 @@ export interface RelatedPaper {
   suggestedPlacements?: CitationPlacement[];
 }
 
+// Character range of an issue inside one section's content.
+export interface IssueAnchor {
+  sectionId: string;
+  start: number;
+  end: number;
+  // Set when the range was re-found by similarity after the text was edited.
+  approximate?: boolean;
+}
+
 export interface AnalysisIssue {
   id: string;
   type: 'warning' | 'error' | 'info' | 'success';
@@ -50,19 +127,97 @@ export interface AnalysisIssue {
   replacement?: string;
   snippet?: string;
   location?: string;
+  anchor?: IssueAnchor;
+  // The text the issue was raised on no longer exists in the document.
+  stale?: boolean;
+  // An editor operation that resolves a finding about structure rather than wording, e.g. a missing section.
+  fix?: AgentAction;
+}
+
+export type AgentTool =
+  | 'readSection'
+  | 'createSection'
+  | 'renameSection'
+  | 'moveSection'
+  | 'splitSection'
+  | 'mergeSections'
+  | 'moveText'
+  | 'insertCitation'
+  | 'addReference'
+  | 'runAnalysis';
+
+// One editor operation the agent asked for. Arguments are flat strings because they come straight
+// from the model's JSON; sections are named by title.
+export interface AgentAction {
+  id: string;
+  tool: AgentTool;
+  // Why the agent wants this step, in its own words.
+  summary: string;
+  section?: string;
+  title?: string;
+  // The section this one goes after, into or towards, depending on the tool.
+  target?: string;
+  // An exact passage of the manuscript.
+  text?: string;
+  content?: string;
+  reference?: string;
+  mode?: string;
+  status: 'pending' | 'applied' | 'skipped' | 'failed';
+  // What a read returned, or why the step failed.
+  result?: string;
+}
+
+// One operation of a reorganization plan. It runs through the same editor operations as the agent's steps.
+export interface ReorganizationStep extends AgentAction {
+  // Which paragraph of the section a move or split starts at, counting from 1.
+  paragraph?: number;
+  // Left out of the plan by the author.
+  excluded?: boolean;
+  // Added by dragging the planned outline rather than proposed by the model.
+  manual?: boolean;
 }
 
 export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   proposals?: AnalysisIssue[];
+  actions?: AgentAction[];
   timestamp: number;
 }
 
+export interface AgentThread {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  // Rolling summary of the first summarizedCount messages, sent to the model in their place.
+  summary?: string;
+  summarizedCount?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface PaperStats {
   wordCount: number;
   aiProbabilityScore: number;
+  // Flesch reading ease, 0-100.
   readabilityScore: number;
+  // Filled in by the local stylometric analyzer.
+  gunningFog?: number;
+  sentenceCount?: number;
+  meanSentenceLength?: number;
+  sentenceLengthVariance?: number;
+  burstiness?: number;
+  llmPhraseCount?: number;
+}
+
+// One model call of an analysis that runs section by section.
+export interface ChunkProgress {
+  id: string;
+  // The section's title, with the part when a long section was split.
+  label: string;
+  status: 'pending' | 'running' | 'done' | 'failed';
+  // Why a failed call failed, as the provider or validation reported it.
+  error?: string;
 }
 
 export interface AnalysisResult {
@@ -70,5 +225,155 @@ export interface AnalysisResult {
   issues: AnalysisIssue[];
   generalFeedback: string;
   discovery?: RelatedPaper[];
+  reorganization?: ReorganizationStep[];
+  // Set while a section-by-section analysis runs.
+  progress?: ChunkProgress[];
+  // Why the last run failed or came back incomplete; any findings it did produce are kept alongside.
+  error?: string;
   loading: boolean;
 }
+
+export type LLMProviderId = 'gemini' | 'openai' | 'mock';
+
+export type LLMTask = 'review' | 'deAI' | 'microEdit' | 'agent';
+
+export interface LLMTaskConfig {
+  provider: LLMProviderId;
+  model: string;
+}
+
+export interface LLMSettings {
+  tasks: Record<LLMTask, LLMTaskConfig>;
+  gemini: { apiKey: string };
+  openai: { baseUrl: string; apiKey: string };
+}
+
+// One model call, as the usage panel and the budgets count it.
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  // Absent for calls made with no manuscript open.
+  manuscriptId?: string;
+  mode: EditorMode;
+  provider: LLMProviderId;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  // Counted from the text because the provider reported no usage, as the offline demo and some local servers do.
+  estimated?: boolean;
+  // Answered from the response cache, so no tokens were spent.
+  cached?: boolean;
+  // US dollars at the listed price when the call was made; 0 for local, demo and unlisted models.
+  cost: number;
+}
+
+export interface UsageBudget {
+  // US dollars; absent for no limit.
+  daily?: number;
+  perManuscript?: number;
+  // What happens to a call once a limit is reached.
+  onExceed: 'warn' | 'block';
+}
+
+export interface CachedResponse {
+  // Hash of everything the request sent.
+  key: string;
+  text: string;
+  usedAt: number;
+}
+
+export interface Manuscript {
+  id: string;
+  title: string;
+  sections: PaperSection[];
+  // A built-in profile id on manuscripts saved before journal profiles.
+  journal: JournalProfile | JournalStyle;
+  bibliography: BibEntry[];
+  // The single conversation kept before threads existed; it becomes the first thread on load.
+  chatHistory?: ChatMessage[];
+  // Absent on manuscripts saved before conversation threads.
+  agentThreads?: AgentThread[];
+  activeThreadId?: string;
+  analysisResult: AnalysisResult | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Snapshot {
+  id: string;
+  manuscriptId: string;
+  label: string;
+  kind: 'auto' | 'manual';
+  createdAt: number;
+  sections: PaperSection[];
+  // Absent on snapshots taken before the bibliography store existed.
+  bibliography?: BibEntry[];
+  journal?: JournalProfile | JournalStyle;
+}
+
+export interface DiffPart {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// An AI change held inline in a section as CriticMarkup until someone accepts or rejects it.
+export interface Suggestion {
+  id: string;
+  sectionId: string;
+  // Range of the whole markup, attribution comment included.
+  start: number;
+  end: number;
+  kind: 'insert' | 'delete' | 'replace';
+  original: string;
+  replacement: string;
+  source: string;
+}
+
+// How tracked suggestions appear in a rendered copy of the document.
+export type SuggestionView = 'include' | 'accepted' | 'original';
+
+export type EditSource = 'typing' | 'ai' | 'structure';
+
+export interface UndoEntry {
+  id: string;
+  label: string;
+  source: EditSource;
+  sectionId?: string;
+  before: DocumentState;
+  after: DocumentState;
+  timestamp: number;
+}
+
+export interface UndoState {
+  past: UndoEntry[];
+  future: UndoEntry[];
+}
+
+export type ExportFormat = 'docx' | 'pdf' | 'html' | 'latex' | 'markdown';
+
+// Layout a journal expects for submitted manuscripts.
+export interface ExportTemplate {
+  font: string;
+  fontSizePt: number;
+  lineSpacing: 1 | 1.5 | 2;
+  titlePage: boolean;
+  lineNumbers: boolean;
+  floatsAtEnd: boolean;
+  headingCase: 'title' | 'upper';
+  numberedHeadings: boolean;
+  referencesTitle: string;
+  // Author-date lists use a hanging indent; numbered lists do not.
+  hangingReferences: boolean;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  doubleSpacing: boolean;
+  lineNumbers: boolean;
+  titlePage: boolean;
+  floatsAtEnd: boolean;
+  anonymize: boolean;
+  suggestions: SuggestionView;
+  authors: string;
+  affiliations: string;
+}